@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+/*
+  Uploads the markdown corpus in knowledge/ to the ingest-knowledge edge
+  function, which chunks, embeds and stores it for retrieval.
+
+  Usage:
+    SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... node scripts/ingest-knowledge.mjs [dir]
+
+  See knowledge/README.md for the file format.
+*/
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const corpusDir = process.argv[2] || 'knowledge';
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const findMarkdownFiles = async (dir) => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findMarkdownFiles(path);
+    return entry.name.endsWith('.md') && entry.name !== 'README.md' ? [path] : [];
+  }));
+  return files.flat();
+};
+
+// Minimal "key: value" front matter between --- lines
+const parseFrontMatter = (text) => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { meta: {}, body: text };
+
+  const meta = Object.fromEntries(
+    match[1].split(/\r?\n/)
+      .map(line => line.match(/^(\w+):\s*(.*)$/))
+      .filter(Boolean)
+      .map(([, key, value]) => [key, value.trim().replace(/^["']|["']$/g, '')])
+  );
+  return { meta, body: text.slice(match[0].length) };
+};
+
+const ingestFile = async (path) => {
+  const { meta, body } = parseFrontMatter(await readFile(path, 'utf8'));
+  const key = relative(corpusDir, path).split('\\').join('/');
+
+  if (!meta.title) {
+    throw new Error(`${key}: front matter must include a title`);
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/ingest-knowledge`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${serviceRoleKey}`
+    },
+    body: JSON.stringify({
+      source: { key, title: meta.title, type: meta.type, reference: meta.reference, url: meta.url },
+      content: body
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${key}: ${result.error || response.statusText}`);
+  }
+
+  console.log(result.skipped ? `${key}: unchanged` : `${key}: ${result.chunks} chunks`);
+};
+
+const files = await findMarkdownFiles(corpusDir);
+let failed = 0;
+
+for (const file of files) {
+  try {
+    await ingestFile(file);
+  } catch (error) {
+    failed++;
+    console.error(error.message);
+  }
+}
+
+console.log(`Processed ${files.length} file(s), ${failed} failed`);
+process.exit(failed ? 1 : 0);
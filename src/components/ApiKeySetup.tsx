@@ -1,157 +1,64 @@
 import React, { useState, useEffect } from 'react';
-import { Key, Loader2, Info, Trash2, RefreshCw, Home, MessageSquare } from 'lucide-react';
+import { Key, Loader2, Info, Trash2, RefreshCw, Home, MessageSquare, AlertCircle } from 'lucide-react';
 import { useNavigate, Link } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import { PROVIDER_OPTIONS, ProviderId } from '../lib/llm';
+import { callAiProxy } from '../lib/llm/proxy';
+import { DEFAULT_LOCAL_BASE_URL } from '../lib/llm/local';
+import { useAuth } from '../contexts/useAuth';
 
 interface ApiKeySetupProps {
   onComplete: () => void;
   returnUrl?: string;
 }
 
-const RETRY_ATTEMPTS = 3;
-const INITIAL_RETRY_DELAY = 1000;
 const MAX_TIMEOUT = 15000;
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
   const navigate = useNavigate();
+  const { user, apiKey: savedKey, refreshApiKey } = useAuth();
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [apiKey, setApiKey] = useState('');
   const [existingKey, setExistingKey] = useState<boolean>(false);
+  const [keyLast4, setKeyLast4] = useState<string | null>(null);
+  const [provider, setProvider] = useState<ProviderId>('gemini');
+  const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_LOCAL_BASE_URL);
   const [deleting, setDeleting] = useState(false);
 
-  useEffect(() => {
-    checkExistingApiKey();
-  }, []);
+  const providerOption = PROVIDER_OPTIONS.find(option => option.id === provider) ?? PROVIDER_OPTIONS[0];
+  const providerLabel = providerOption.label;
 
-  const checkExistingApiKey = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate('/login', { state: { returnTo: window.location.pathname } });
-        return;
-      }
+  const userId = user?.id;
 
-      const { data, error } = await supabase
-        .from('api_keys')
-        .select('gemini_key')
-        .eq('user_id', session.user.id)
-        .maybeSingle();
+  useEffect(() => {
+    if (!userId) {
+      navigate('/login', { state: { returnTo: window.location.pathname } });
+      return;
+    }
 
-      if (error) throw error;
-      setExistingKey(!!data);
-    } catch (error) {
-      console.error('Error checking existing API key:', error);
-      setError('Failed to check for existing API key. Please try refreshing the page.');
+    setExistingKey(!!savedKey);
+    if (savedKey) {
+      setProvider(savedKey.settings.provider);
+      setModel(savedKey.settings.model || '');
+      setBaseUrl(savedKey.settings.baseUrl || DEFAULT_LOCAL_BASE_URL);
+      setKeyLast4(savedKey.last4);
     }
-  };
+  }, [userId, savedKey, navigate]);
 
-  const validateApiKey = async (key: string, attempt = 1): Promise<{ isValid: boolean; error?: string }> => {
+  const validateLocalEndpoint = async (url: string): Promise<{ isValid: boolean; error?: string }> => {
     try {
-      if (!key || typeof key !== 'string') {
-        return { 
-          isValid: false, 
-          error: 'Please enter a valid API key' 
-        };
-      }
-
-      if (!key.startsWith('AIza')) {
-        return { 
-          isValid: false, 
-          error: 'Invalid API key format. Key should start with "AIza"' 
-        };
-      }
-
-      if (key.length < 30) {
-        return { 
-          isValid: false, 
-          error: 'API key appears too short. Please check the key' 
-        };
-      }
-
-      const encodedKey = encodeURIComponent(key.trim());
-      const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash?key=${encodedKey}`;
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), MAX_TIMEOUT);
-
-      try {
-        const response = await fetch(apiUrl, {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-          },
-          signal: controller.signal,
-          cache: 'no-cache',
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error occurred' } }));
-          const errorMessage = errorData.error?.message || 'Unknown error occurred';
-          
-          if (errorMessage.includes('API key not valid')) {
-            return { 
-              isValid: false, 
-              error: 'Invalid API key. Please make sure you copied the entire key correctly' 
-            };
-          }
-          if (errorMessage.includes('API has not been enabled')) {
-            return { 
-              isValid: false, 
-              error: 'The Gemini API is not enabled for this API key. Please enable it in your Google Cloud Console' 
-            };
-          }
-          if (errorMessage.includes('billing')) {
-            return { 
-              isValid: false, 
-              error: 'Please ensure billing is enabled for your Google Cloud project' 
-            };
-          }
-          if (errorMessage.includes('permission') || errorMessage.includes('unauthorized')) {
-            return { 
-              isValid: false, 
-              error: 'This API key does not have permission to access the Gemini API. Please check the API key permissions' 
-            };
-          }
-          
-          throw new Error(errorMessage);
-        }
-
-        return { isValid: true };
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
-        
-        if (fetchError.name === 'AbortError') {
-          if (attempt < RETRY_ATTEMPTS) {
-            const delay = INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1);
-            await sleep(delay);
-            return validateApiKey(key, attempt + 1);
-          }
-          return {
-            isValid: false,
-            error: 'Request timed out. Please try again'
-          };
-        }
-
-        throw fetchError;
-      }
+      const response = await fetch(`${url.replace(/\/+$/, '')}/models`, {
+        signal: AbortSignal.timeout(MAX_TIMEOUT)
+      });
+      if (!response.ok) throw new Error(`Local endpoint responded with ${response.status}`);
+      return { isValid: true };
     } catch (error) {
-      console.error('API key validation error:', error);
-      
-      if (attempt < RETRY_ATTEMPTS) {
-        const delay = INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1);
-        await sleep(delay);
-        return validateApiKey(key, attempt + 1);
-      }
-
+      console.error('Local endpoint validation error:', error);
       return {
         isValid: false,
-        error: 'Failed to validate API key. Please try again in a few moments'
+        error: 'Could not reach the local model server. Make sure it is running and allows requests from this site (CORS)'
       };
     }
   };
@@ -162,42 +69,45 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
     setSuccess(null);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
+      if (!user) {
         navigate('/login', { state: { returnTo: window.location.pathname } });
         return;
       }
 
       const trimmedApiKey = apiKey.trim();
-      if (!trimmedApiKey) {
-        setError('Please enter your Gemini API key');
+      if (provider !== 'local' && !trimmedApiKey) {
+        setError(`Please enter your ${providerLabel} API key`);
         return;
       }
 
-      const validation = await validateApiKey(trimmedApiKey);
-      if (!validation.isValid) {
-        setError(validation.error || 'Invalid API key');
-        return;
+      // Local servers are only reachable from this browser, so check them here;
+      // hosted keys are validated by the proxy before being stored.
+      if (provider === 'local') {
+        const validation = await validateLocalEndpoint(baseUrl.trim());
+        if (!validation.isValid) {
+          setError(validation.error || 'Invalid server URL');
+          return;
+        }
       }
 
-      const { error: insertError } = await supabase
-        .from('api_keys')
-        .upsert({
-          user_id: session.user.id,
-          gemini_key: trimmedApiKey
-        });
-
-      if (insertError) {
-        throw insertError;
-      }
+      const response = await callAiProxy({
+        action: 'save-key',
+        provider,
+        apiKey: trimmedApiKey,
+        model: model.trim() || null,
+        baseUrl: baseUrl.trim()
+      });
+      const { last4 } = await response.json();
 
-      window.__GEMINI_API_KEY = trimmedApiKey;
+      setApiKey('');
+      setKeyLast4(last4);
+      setExistingKey(true);
       setSuccess('API key saved successfully!');
       
-      setTimeout(() => {
+      setTimeout(async () => {
+        await refreshApiKey();
         if (returnUrl) {
-          window.location.href = returnUrl;
+          navigate(returnUrl);
         } else {
           onComplete();
         }
@@ -220,22 +130,16 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
     setSuccess(null);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
+      if (!user) {
         navigate('/login', { state: { returnTo: window.location.pathname } });
         return;
       }
 
-      const { error: deleteError } = await supabase
-        .from('api_keys')
-        .delete()
-        .eq('user_id', session.user.id);
-
-      if (deleteError) throw deleteError;
+      await callAiProxy({ action: 'delete-key' });
+      await refreshApiKey();
 
-      window.__GEMINI_API_KEY = undefined;
       setExistingKey(false);
+      setKeyLast4(null);
       setApiKey('');
       setSuccess('API key deleted successfully!');
     } catch (error) {
@@ -261,15 +165,36 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
                 <Key className="w-8 h-8 text-blue-600" />
               </div>
               <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                {existingKey ? 'Update Your Gemini API Key' : 'Set Up Your Gemini API Key'}
+                {existingKey ? 'Update Your AI Provider' : 'Set Up Your AI Provider'}
               </h2>
               <p className="text-gray-600">
                 {existingKey 
-                  ? 'Update or remove your existing Gemini API key'
-                  : 'Enter your Gemini API key to start using the AI assistant'}
+                  ? 'Switch models or update your existing API key'
+                  : 'Choose a model provider to start using the AI assistant'}
               </p>
             </div>
 
+            <div className="mb-6">
+              <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-2">
+                Provider
+              </label>
+              <select
+                id="provider"
+                value={provider}
+                onChange={(e) => {
+                  setProvider(e.target.value as ProviderId);
+                  setApiKey('');
+                  setModel('');
+                }}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300"
+              >
+                {PROVIDER_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {provider === 'gemini' && (
             <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6 rounded-r-lg">
               <div className="flex items-start gap-3">
                 <Info className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />
@@ -284,6 +209,7 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
                 </div>
               </div>
             </div>
+            )}
 
             {error && (
               <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
@@ -299,16 +225,52 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
               </div>
             )}
 
+            {provider === 'local' ? (
+              <div className="mb-6">
+                <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-2">
+                  Server URL
+                </label>
+                <input
+                  type="url"
+                  id="baseUrl"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder={DEFAULT_LOCAL_BASE_URL}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300"
+                />
+                <p className="mt-1 text-xs text-gray-500">Any OpenAI-compatible endpoint, e.g. Ollama or llama.cpp server</p>
+              </div>
+            ) : (
+              <div className="mb-6">
+                <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-2">
+                  {providerLabel} API Key
+                </label>
+                <input
+                  type="password"
+                  id="apiKey"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  placeholder={keyLast4 ? 'Enter a new key to rotate' : `Enter your ${providerLabel} API key`}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300"
+                />
+                {keyLast4 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Current key ends in <span className="font-mono">••••{keyLast4}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="mb-6">
-              <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-2">
-                Gemini API Key
+              <label htmlFor="model" className="block text-sm font-medium text-gray-700 mb-2">
+                Model (Optional)
               </label>
               <input
-                type="password"
-                id="apiKey"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder="Enter your Gemini API key"
+                type="text"
+                id="model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={providerOption.defaultModel}
                 className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300"
               />
             </div>
@@ -316,7 +278,7 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
             <div className="space-y-4">
               <button
                 onClick={() => saveApiKey()}
-                disabled={generating || !apiKey.trim()}
+                disabled={generating || (provider === 'local' ? !baseUrl.trim() : !apiKey.trim())}
                 className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium py-3 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 {generating ? (
@@ -329,7 +291,7 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
                     {existingKey ? (
                       <>
                         <RefreshCw className="w-5 h-5" />
-                        Update API Key
+                        {keyLast4 ? 'Rotate API Key' : 'Update Settings'}
                       </>
                     ) : (
                       <>
@@ -383,7 +345,7 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onComplete, returnUrl }) => {
             </div>
 
             <p className="mt-4 text-sm text-gray-500 text-center">
-              Your API key will be securely stored and used only for your account.
+              Your API key is encrypted at rest and is never sent back to your browser.
             </p>
           </div>
         </div>
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import DocumentForm from './DocumentForm';
+import { LLMProvider } from '../lib/llm';
 
 interface DocumentField {
   id: string;
@@ -13,6 +14,7 @@ interface DocumentField {
 interface DocumentGeneratorProps {
   documentType: string;
   documentFields: DocumentField[]; // Now passed from parent
+  provider: LLMProvider;
   onDocumentGenerated: (content: string) => void;
   onError: (error: string) => void;
 }
@@ -20,6 +22,7 @@ interface DocumentGeneratorProps {
 const DocumentGenerator: React.FC<DocumentGeneratorProps> = ({
   documentType,
   documentFields,
+  provider,
   onDocumentGenerated,
   onError,
 }) => {
@@ -37,26 +40,13 @@ const DocumentGenerator: React.FC<DocumentGeneratorProps> = ({
 
     try {
       // Use Gemini to generate the document content based on collected data
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Create a professional ${documentType} document using this data:
+      const content = await provider.generate([{
+        role: 'user',
+        content: `Create a professional ${documentType} document using this data:
                 ${JSON.stringify(data)}
                 
                 Respond with the HTML content for the document wrapped in <document></document> tags`
-              }]
-            }]
-          })
-        }
-      );
-
-      const result = await response.json();
-      const content = result.candidates[0]?.content?.parts?.[0]?.text;
+      }]);
       
       // Extract document content between tags
       const docContent = content.match(/<document>(.*?)<\/document>/s)?.[1] || content;
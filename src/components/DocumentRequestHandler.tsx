@@ -1,17 +1,18 @@
 import React, { useState } from 'react';
 import DocumentGenerator from './DocumentGenerator';
 import { Loader2 } from 'lucide-react';
+import { LLMProvider } from '../lib/llm';
 
 interface DocumentRequestHandlerProps {
   userMessage: string;
   onDocumentGenerated: (document: string) => void;
-  apiKey: string;
+  provider: LLMProvider;
 }
 
 const DocumentRequestHandler: React.FC<DocumentRequestHandlerProps> = ({
   userMessage,
   onDocumentGenerated,
-  apiKey,
+  provider,
 }) => {
   const [loading, setLoading] = useState(true);
   const [documentType, setDocumentType] = useState<string | null>(null);
@@ -22,15 +23,9 @@ const DocumentRequestHandler: React.FC<DocumentRequestHandlerProps> = ({
   const analyzeRequest = async () => {
     try {
       // Ask Gemini to determine if this is a document request and what fields are needed
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Analyze this request and determine:
+      const resultText = await provider.generate([{
+        role: 'user',
+        content: `Analyze this request and determine:
                 1. Is this a request to create a document? (true/false)
                 2. If true, what document type is being requested?
                 3. What fields are needed? Provide as JSON array:
@@ -44,14 +39,7 @@ const DocumentRequestHandler: React.FC<DocumentRequestHandlerProps> = ({
                 }
                 
                 Request: "${userMessage}"`
-              }]
-            }]
-          })
-        }
-      );
-  
-      const data = await response.json();
-      const resultText = data.candidates[0]?.content?.parts?.[0]?.text;
+      }]);
       const result = JSON.parse(resultText);
   
       if (result.isDocumentRequest && result.fields) {
@@ -69,7 +57,7 @@ const DocumentRequestHandler: React.FC<DocumentRequestHandlerProps> = ({
   };
 
     analyzeRequest();
-  }, [userMessage, apiKey]);
+  }, [userMessage, provider]);
 
   const handleError = (error: string) => {
     setError(error);
@@ -99,6 +87,7 @@ const DocumentRequestHandler: React.FC<DocumentRequestHandlerProps> = ({
   return (
     <DocumentGenerator
       documentType={documentType}
+      provider={provider}
       onDocumentGenerated={onDocumentGenerated}
       onError={handleError}
     />
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { FIELD_TYPES, FieldType, TemplateField } from '../lib/fields';
+
+interface FieldBuilderProps {
+  fields: TemplateField[];
+  onChange: (fields: TemplateField[]) => void;
+  // Fields of a group's rows, which cannot be groups themselves
+  nested?: boolean;
+  // Templates with named steps place fields on the Form Steps tab instead
+  showStep?: boolean;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+const labelClassName = 'block text-xs font-medium text-gray-700';
+
+const newFieldId = (fields: TemplateField[]) => {
+  let number = fields.length + 1;
+  while (fields.some(field => field.id === `field_${number}`)) number++;
+  return `field_${number}`;
+};
+
+const newField = (fields: TemplateField[]): TemplateField => ({
+  id: newFieldId(fields),
+  label: 'New field',
+  type: 'text',
+  required: false
+});
+
+// Switching type keeps what still applies: options for choices, child
+// fields and row limits for groups
+const changeType = (field: TemplateField, type: FieldType): TemplateField => {
+  const { options, fields, minItems, maxItems, itemLabel, compute, ...rest } = field;
+  const changed: TemplateField = { ...rest, type };
+  if (type === 'select' || type === 'radio') changed.options = options ?? ['Option 1'];
+  if (type === 'group') {
+    return { ...changed, fields: fields ?? [newField([])], minItems, maxItems, itemLabel };
+  }
+  return { ...changed, compute };
+};
+
+// Empty text settings are left out of the saved field
+const optionalText = (value: string) => (value.trim() ? value : undefined);
+
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onChange, nested = false, showStep = false }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const update = (index: number, field: TemplateField) =>
+    onChange(fields.map((current, i) => (i === index ? field : current)));
+
+  const change = (index: number, changes: Partial<TemplateField>) => update(index, { ...fields[index], ...changes });
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const reordered = [...fields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+    if (openIndex === index) setOpenIndex(target);
+    else if (openIndex === target) setOpenIndex(index);
+  };
+
+  const remove = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+    if (openIndex === index) setOpenIndex(null);
+    else if (openIndex !== null && openIndex > index) setOpenIndex(openIndex - 1);
+  };
+
+  const add = () => {
+    onChange([...fields, newField(fields)]);
+    setOpenIndex(fields.length);
+  };
+
+  const types = nested ? FIELD_TYPES.filter(type => type !== 'group') : FIELD_TYPES;
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, index) => {
+        const isOpen = openIndex === index;
+        return (
+          <div key={index} className="border border-gray-200 rounded-md bg-white">
+            <div className="flex items-center gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => setOpenIndex(isOpen ? null : index)}
+                className="flex-1 flex items-center gap-2 text-left min-w-0"
+              >
+                {isOpen ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                <span className="text-sm font-medium text-gray-900 truncate">{field.label || field.id}</span>
+                <span className="text-xs font-mono text-gray-500 truncate">{field.id}</span>
+                <span className="text-xs rounded-full bg-gray-100 px-2 py-0.5 text-gray-600">{field.type}</span>
+                {field.required && <span className="text-xs text-red-600">required</span>}
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === fields.length - 1}
+                className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove field"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            {isOpen && (
+              <div className="border-t border-gray-200 px-3 py-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+                <div>
+                  <label className={labelClassName}>Label</label>
+                  <input
+                    className={inputClassName}
+                    value={field.label}
+                    onChange={(e) => change(index, { label: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>ID (used in placeholders)</label>
+                  <input
+                    className={`${inputClassName} font-mono`}
+                    value={field.id}
+                    onChange={(e) => change(index, { id: e.target.value.replace(/[^\w]/g, '_') })}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Type</label>
+                  <select
+                    className={inputClassName}
+                    value={field.type}
+                    onChange={(e) => update(index, changeType(field, e.target.value as FieldType))}
+                  >
+                    {types.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-end gap-4">
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      checked={field.required}
+                      onChange={(e) => change(index, { required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  {showStep && !nested && (
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                      Step
+                      <input
+                        type="number"
+                        min={1}
+                        className="w-16 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        value={field.step ?? ''}
+                        onChange={(e) => change(index, { step: optionalNumber(e.target.value) })}
+                      />
+                    </label>
+                  )}
+                </div>
+                <div>
+                  <label className={labelClassName}>Placeholder</label>
+                  <input
+                    className={inputClassName}
+                    value={field.placeholder ?? ''}
+                    onChange={(e) => change(index, { placeholder: optionalText(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Help text</label>
+                  <input
+                    className={inputClassName}
+                    value={field.description ?? ''}
+                    onChange={(e) => change(index, { description: optionalText(e.target.value) })}
+                  />
+                </div>
+
+                {(field.type === 'select' || field.type === 'radio') && (
+                  <div className="sm:col-span-2">
+                    <label className={labelClassName}>Options (one per line)</label>
+                    <textarea
+                      rows={3}
+                      className={inputClassName}
+                      value={(field.options ?? []).join('\n')}
+                      onChange={(e) => change(index, { options: e.target.value.split('\n') })}
+                      onBlur={() => change(index, { options: (field.options ?? []).map(option => option.trim()).filter(Boolean) })}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClassName}>Show only when</label>
+                  <input
+                    className={`${inputClassName} font-mono`}
+                    placeholder='e.g. deposit == "yes"'
+                    value={field.visibleIf ?? ''}
+                    onChange={(e) => change(index, { visibleIf: optionalText(e.target.value) })}
+                  />
+                </div>
+                {field.type !== 'group' && (
+                  <div>
+                    <label className={labelClassName}>Computed value</label>
+                    <input
+                      className={`${inputClassName} font-mono`}
+                      placeholder="e.g. monthly_rent * months"
+                      value={field.compute ?? ''}
+                      onChange={(e) => change(index, { compute: optionalText(e.target.value) })}
+                    />
+                  </div>
+                )}
+
+                {field.type === 'group' && (
+                  <>
+                    <div className="grid grid-cols-3 gap-2 sm:col-span-2">
+                      <div>
+                        <label className={labelClassName}>Minimum rows</label>
+                        <input
+                          type="number"
+                          min={0}
+                          className={inputClassName}
+                          value={field.minItems ?? ''}
+                          onChange={(e) => change(index, { minItems: optionalNumber(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClassName}>Maximum rows</label>
+                        <input
+                          type="number"
+                          min={1}
+                          className={inputClassName}
+                          value={field.maxItems ?? ''}
+                          onChange={(e) => change(index, { maxItems: optionalNumber(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClassName}>Row label</label>
+                        <input
+                          className={inputClassName}
+                          placeholder="e.g. Tenant"
+                          value={field.itemLabel ?? ''}
+                          onChange={(e) => change(index, { itemLabel: optionalText(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                    <div className="sm:col-span-2 pl-3 border-l-2 border-indigo-100">
+                      <p className={`${labelClassName} mb-2`}>Fields in each row</p>
+                      <FieldBuilder
+                        fields={field.fields ?? []}
+                        onChange={(children) => change(index, { fields: children })}
+                        nested
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={add}
+        className="inline-flex items-center px-3 py-1.5 border border-dashed border-gray-300 text-sm font-medium rounded-md text-gray-700 hover:border-indigo-400 hover:text-indigo-600"
+      >
+        <Plus className="-ml-1 mr-1 h-4 w-4" />
+        Add {nested ? 'row field' : 'field'}
+      </button>
+    </div>
+  );
+};
+
+export default FieldBuilder;
@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  AddressValue,
+  emptyValue,
+  INDIAN_STATES,
+  maskAadhaar,
+  ScalarValue,
+  stateForPincode,
+  TemplateField
+} from '../lib/fields';
+import { formatIndianNumber } from '../lib/indianFormat';
+
+interface FieldInputProps {
+  field: TemplateField;
+  id: string;
+  value: ScalarValue | undefined;
+  onChange: (value: ScalarValue) => void;
+  // Classes for text inputs, selects and textareas, including error styling
+  inputClassName: string;
+}
+
+const MAX_SIGNATURE_BYTES = 500 * 1024;
+
+const IDENTIFIER_LENGTHS: Partial<Record<TemplateField['type'], number>> = { pan: 10, gstin: 15, ifsc: 11 };
+
+const digitsOnly = (value: string, length: number) => value.replace(/\D/g, '').slice(0, length);
+
+const AddressInput: React.FC<{
+  id: string;
+  value: AddressValue;
+  onChange: (value: AddressValue) => void;
+  inputClassName: string;
+}> = ({ id, value, onChange, inputClassName }) => {
+  // A saved state the PIN code does not give was picked by hand
+  const [stateChosen, setStateChosen] = useState(
+    () => value.state !== '' && value.state !== stateForPincode(value.pincode)
+  );
+
+  const update = (part: keyof AddressValue, partValue: string) => onChange({ ...value, [part]: partValue });
+
+  // Follows the PIN code with the state until one is picked by hand
+  const updatePincode = (pincode: string) => {
+    const digits = digitsOnly(pincode, 6);
+    const state = stateChosen ? value.state : stateForPincode(digits) || '';
+    onChange({ ...value, pincode: digits, state });
+  };
+
+  const updateState = (state: string) => {
+    setStateChosen(state !== '');
+    update('state', state);
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+      <input
+        id={id}
+        value={value.line1}
+        onChange={(e) => update('line1', e.target.value)}
+        placeholder="House / building, street"
+        className={`${inputClassName} sm:col-span-2`}
+        autoComplete="address-line1"
+      />
+      <input
+        value={value.line2}
+        onChange={(e) => update('line2', e.target.value)}
+        placeholder="Area, landmark (optional)"
+        className={`${inputClassName} sm:col-span-2`}
+        autoComplete="address-line2"
+      />
+      <input
+        value={value.city}
+        onChange={(e) => update('city', e.target.value)}
+        placeholder="City / town"
+        className={inputClassName}
+        autoComplete="address-level2"
+      />
+      <input
+        value={value.pincode}
+        onChange={(e) => updatePincode(e.target.value)}
+        placeholder="PIN code"
+        inputMode="numeric"
+        className={inputClassName}
+        autoComplete="postal-code"
+      />
+      <select
+        value={value.state}
+        onChange={(e) => updateState(e.target.value)}
+        className={`${inputClassName} sm:col-span-2`}
+      >
+        <option value="">Select state</option>
+        {INDIAN_STATES.map(state => (
+          <option key={state} value={state}>{state}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+const SignatureInput: React.FC<{ id: string; value: string; onChange: (value: string) => void }> = ({
+  id,
+  value,
+  onChange
+}) => {
+  const [error, setError] = useState('');
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setError('Please choose a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_SIGNATURE_BYTES) {
+      setError('The image must be smaller than 500 KB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setError('');
+      onChange(reader.result as string);
+    };
+    reader.onerror = () => setError('Could not read the image');
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="mt-1 space-y-2">
+      {value ? (
+        <div className="inline-flex items-start gap-2 p-2 border border-gray-200 rounded-md bg-white">
+          <img src={value} alt="Signature" className="h-16 object-contain" />
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="text-gray-400 hover:text-red-600"
+            aria-label="Remove signature"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ) : (
+        <input
+          id={id}
+          type="file"
+          accept="image/png,image/jpeg"
+          onChange={handleFile}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        />
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+// Renders the input for any field type except groups, which the forms lay
+// out themselves as rows of FieldInputs
+const FieldInput: React.FC<FieldInputProps> = ({ field, id, value, onChange, inputClassName }) => {
+  const [isFocused, setIsFocused] = useState(false);
+  const text = typeof value === 'string' ? value : '';
+
+  if (field.compute) {
+    const amount = Number(text);
+    const display = field.type === 'currency' && text !== '' && !isNaN(amount) ? `₹${formatIndianNumber(amount)}` : text;
+    return (
+      <input
+        id={id}
+        name={id}
+        value={display}
+        readOnly
+        aria-readonly="true"
+        className={`${inputClassName} bg-gray-50 text-gray-600`}
+      />
+    );
+  }
+
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <textarea
+          id={id}
+          name={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          rows={4}
+          className={inputClassName}
+        />
+      );
+
+    case 'select':
+      return (
+        <select id={id} name={id} value={text} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+          <option value="">Select an option</option>
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+
+    case 'radio':
+      return (
+        <div id={id} role="radiogroup" className="mt-1 flex flex-wrap gap-x-6 gap-y-2">
+          {field.options?.map(option => (
+            <label key={option} className="inline-flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name={id}
+                value={option}
+                checked={text === option}
+                onChange={() => onChange(option)}
+                className="h-4 w-4 border-gray-300"
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'checkbox':
+      return (
+        <label className="mt-1 inline-flex items-center gap-2 text-sm text-gray-700">
+          <input
+            id={id}
+            type="checkbox"
+            checked={text === 'true'}
+            onChange={(e) => onChange(e.target.checked ? 'true' : '')}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          {field.placeholder || 'Yes'}
+        </label>
+      );
+
+    case 'currency':
+    case 'percentage':
+      return (
+        <div className="flex items-center gap-2">
+          {field.type === 'currency' && <span className="text-gray-500">₹</span>}
+          <input
+            id={id}
+            name={id}
+            value={text}
+            onChange={(e) => onChange(e.target.value.replace(/[^\d.,]/g, ''))}
+            placeholder={field.placeholder}
+            inputMode="decimal"
+            className={inputClassName}
+          />
+          {field.type === 'percentage' && <span className="text-gray-500">%</span>}
+        </div>
+      );
+
+    case 'pan':
+    case 'gstin':
+    case 'ifsc':
+      return (
+        <input
+          id={id}
+          name={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+          placeholder={field.placeholder}
+          maxLength={IDENTIFIER_LENGTHS[field.type]}
+          autoComplete="off"
+          className={`${inputClassName} uppercase`}
+        />
+      );
+
+    // Shown masked except while being edited
+    case 'aadhaar':
+      return (
+        <input
+          id={id}
+          name={id}
+          value={isFocused ? text : maskAadhaar(text)}
+          onChange={(e) => onChange(digitsOnly(e.target.value, 12))}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={field.placeholder || '12-digit Aadhaar number'}
+          inputMode="numeric"
+          autoComplete="off"
+          className={inputClassName}
+        />
+      );
+
+    case 'pincode': {
+      const state = stateForPincode(text);
+      return (
+        <>
+          <input
+            id={id}
+            name={id}
+            value={text}
+            onChange={(e) => onChange(digitsOnly(e.target.value, 6))}
+            placeholder={field.placeholder}
+            inputMode="numeric"
+            autoComplete="postal-code"
+            className={inputClassName}
+          />
+          {state && <p className="mt-1 text-xs text-gray-500">{state}</p>}
+        </>
+      );
+    }
+
+    case 'address':
+      return (
+        <AddressInput
+          id={id}
+          value={typeof value === 'object' ? value : (emptyValue(field) as AddressValue)}
+          onChange={onChange}
+          inputClassName={inputClassName}
+        />
+      );
+
+    case 'signature':
+      return <SignatureInput id={id} value={text} onChange={onChange} />;
+
+    default:
+      return (
+        <input
+          type={field.type === 'group' ? 'text' : field.type}
+          id={id}
+          name={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          className={inputClassName}
+        />
+      );
+  }
+};
+
+export default FieldInput;
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Check, Copy } from 'lucide-react';
+import { toMarkdownSource } from '../lib/markdown';
+
+interface MarkdownMessageProps {
+  content: string;
+}
+
+const CopyButton: React.FC<{ getText: () => string; label: string }> = ({ getText, label }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getText());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-white/90 border border-gray-200 text-gray-600 hover:text-blue-600 hover:border-blue-300 transition-colors"
+      aria-label={label}
+    >
+      {copied ? <Check size={14} className="text-green-600" /> : <Copy size={14} />}
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+};
+
+// Tables are copied as tab-separated rows so they paste cleanly into Excel
+const CopyableTable: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  const tableText = () =>
+    Array.from(tableRef.current?.rows ?? [])
+      .map(row => Array.from(row.cells).map(cell => cell.innerText.trim()).join('\t'))
+      .join('\n');
+
+  return (
+    <div className="relative my-6 not-prose">
+      <div className="flex justify-end mb-2">
+        <CopyButton getText={tableText} label="Copy table" />
+      </div>
+      <div className="overflow-x-auto">
+        <table
+          ref={tableRef}
+          className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-lg shadow-sm text-sm"
+        >
+          {children}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const CopyableCode: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+
+  return (
+    <div className="relative my-4 not-prose">
+      <div className="absolute top-2 right-2">
+        <CopyButton getText={() => preRef.current?.textContent ?? ''} label="Copy code" />
+      </div>
+      <pre
+        ref={preRef}
+        className="bg-gray-800 text-gray-100 rounded-lg p-4 pr-20 overflow-x-auto text-sm"
+      >
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  table: ({ children }) => <CopyableTable>{children}</CopyableTable>,
+  thead: ({ children }) => <thead className="bg-gradient-to-r from-blue-50 to-indigo-50">{children}</thead>,
+  th: ({ children, style }) => (
+    <th style={style} className="px-4 py-3 text-left font-semibold text-gray-700 border-b border-gray-200">
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-4 py-3 text-gray-700 border-b border-gray-100">
+      {children}
+    </td>
+  ),
+  pre: ({ children }) => <CopyableCode>{children}</CopyableCode>,
+  // External links open in a new tab; footnote links stay in-page
+  a: ({ href, children }) =>
+    href?.startsWith('#') ? (
+      <a href={href}>{children}</a>
+    ) : (
+      <a href={href} target="_blank" rel="noopener noreferrer">
+        {children}
+      </a>
+    )
+};
+
+// Renders assistant replies from markdown. Raw HTML in model output is
+// dropped rather than rendered, and react-markdown strips unsafe link URLs.
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content }) => (
+  <div className="prose max-w-none">
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+      {toMarkdownSource(content)}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownMessage;
@@ -1,68 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Menu, X, Brain, LogIn, UserPlus, LogOut, User, ChevronDown, Settings } from 'lucide-react';
+import { Menu, X, Brain, LogIn, UserPlus, LogOut, User, ChevronDown, Settings, FileText, Shield, Users } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
-import { createClient } from '@supabase/supabase-js';
+import { useAuth } from '../contexts/useAuth';
 import Logo from './Logo';
 
-const supabase = createClient(
-  import.meta.env.VITE_SUPABASE_URL,
-  import.meta.env.VITE_SUPABASE_ANON_KEY,
-  {
-    auth: {
-      persistSession: true,
-      autoRefreshToken: true,
-      detectSessionInUrl: false
-    }
-  }
-);
-
 const Navbar: React.FC = () => {
   const navigate = useNavigate();
+  const { user, profile, hasRole, signOut } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
   const [showScrollTop, setShowScrollTop] = useState(false);
-  const [user, setUser] = useState<any>(null);
   const [showAccountMenu, setShowAccountMenu] = useState(false);
-  const [userProfile, setUserProfile] = useState<any>(null);
   const accountMenuRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    const checkUser = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      setUser(session?.user ?? null);
-
-      if (session?.user) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', session.user.id)
-          .single();
-        
-        setUserProfile(profile);
-      }
-    };
-    
-    checkUser();
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
-      setUser(session?.user ?? null);
-      
-      if (session?.user) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', session.user.id)
-          .single();
-        
-        setUserProfile(profile);
-      } else {
-        setUserProfile(null);
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
   useEffect(() => {
     const handleScroll = () => {
       if (window.scrollY > 50) {
@@ -94,7 +44,7 @@ const Navbar: React.FC = () => {
   }, []);
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     navigate('/');
     setShowAccountMenu(false);
   };
@@ -117,7 +67,7 @@ const Navbar: React.FC = () => {
         className="flex items-center gap-2 text-gray-100 hover:text-white font-medium transition-all duration-300 relative group px-4 py-2 rounded-lg hover:bg-white/10"
       >
         <User size={20} />
-        <span>{userProfile?.full_name || 'Account'}</span>
+        <span>{profile?.full_name || 'Account'}</span>
         <ChevronDown size={16} className={`transition-transform duration-300 ${showAccountMenu ? 'rotate-180' : ''}`} />
       </button>
 
@@ -126,9 +76,17 @@ const Navbar: React.FC = () => {
           {user ? (
             <>
               <div className="px-4 py-2 border-b border-gray-100">
-                <p className="text-sm font-medium text-gray-900 truncate">{userProfile?.full_name}</p>
+                <p className="text-sm font-medium text-gray-900 truncate">{profile?.full_name}</p>
                 <p className="text-xs text-gray-500">{user.email}</p>
               </div>
+              <Link
+                to="/my-documents"
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                onClick={() => setShowAccountMenu(false)}
+              >
+                <FileText size={16} />
+                <span>My Documents</span>
+              </Link>
               <Link
                 to="/profile"
                 className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
@@ -137,6 +95,26 @@ const Navbar: React.FC = () => {
                 <Settings size={16} />
                 <span>Account Settings</span>
               </Link>
+              {hasRole('staff') && (
+                <Link
+                  to="/admin/templates"
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                  onClick={() => setShowAccountMenu(false)}
+                >
+                  <Shield size={16} />
+                  <span>Manage Templates</span>
+                </Link>
+              )}
+              {hasRole('admin') && (
+                <Link
+                  to="/admin/users"
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                  onClick={() => setShowAccountMenu(false)}
+                >
+                  <Users size={16} />
+                  <span>User Roles</span>
+                </Link>
+              )}
               <button
                 onClick={handleSignOut}
                 className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
@@ -260,9 +238,17 @@ const Navbar: React.FC = () => {
           {user ? (
             <>
               <div className="px-4 py-2 border-t border-white/10">
-                <p className="text-sm font-medium text-white truncate">{userProfile?.full_name}</p>
+                <p className="text-sm font-medium text-white truncate">{profile?.full_name}</p>
                 <p className="text-xs text-white/70">{user.email}</p>
               </div>
+              <Link
+                to="/my-documents"
+                className="flex items-center space-x-2 text-xl text-gray-100 hover:text-white font-medium transition-all duration-300 transform hover:translate-x-2 hover:bg-white/10 px-4 py-2 rounded-lg"
+                onClick={() => setIsOpen(false)}
+              >
+                <FileText size={24} />
+                <span>My Documents</span>
+              </Link>
               <Link
                 to="/profile"
                 className="flex items-center space-x-2 text-xl text-gray-100 hover:text-white font-medium transition-all duration-300 transform hover:translate-x-2 hover:bg-white/10 px-4 py-2 rounded-lg"
@@ -271,6 +257,26 @@ const Navbar: React.FC = () => {
                 <Settings size={24} />
                 <span>Account Settings</span>
               </Link>
+              {hasRole('staff') && (
+                <Link
+                  to="/admin/templates"
+                  className="flex items-center space-x-2 text-xl text-gray-100 hover:text-white font-medium transition-all duration-300 transform hover:translate-x-2 hover:bg-white/10 px-4 py-2 rounded-lg"
+                  onClick={() => setIsOpen(false)}
+                >
+                  <Shield size={24} />
+                  <span>Manage Templates</span>
+                </Link>
+              )}
+              {hasRole('admin') && (
+                <Link
+                  to="/admin/users"
+                  className="flex items-center space-x-2 text-xl text-gray-100 hover:text-white font-medium transition-all duration-300 transform hover:translate-x-2 hover:bg-white/10 px-4 py-2 rounded-lg"
+                  onClick={() => setIsOpen(false)}
+                >
+                  <Users size={24} />
+                  <span>User Roles</span>
+                </Link>
+              )}
               <button
                 onClick={() => {
                   handleSignOut();
@@ -0,0 +1,27 @@
+import React from 'react';
+import { PDF_LAYOUTS, PdfLayout } from '../lib/export';
+
+interface PdfLayoutSelectProps {
+  value: PdfLayout;
+  onChange: (layout: PdfLayout) => void;
+  className?: string;
+}
+
+// How downloaded PDFs are laid out: plain, on the firm letterhead or on
+// stamp paper
+const PdfLayoutSelect: React.FC<PdfLayoutSelectProps> = ({ value, onChange, className = '' }) => (
+  <label className={`inline-flex items-center gap-2 text-sm text-gray-700 ${className}`}>
+    <span>PDF layout</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as PdfLayout)}
+      className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+    >
+      {PDF_LAYOUTS.map(layout => (
+        <option key={layout.value} value={layout.value}>{layout.label}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default PdfLayoutSelect;
@@ -1,71 +1,37 @@
-import { useEffect, useState } from 'react';
+import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import Auth from './Auth';
+import { useAuth } from '../contexts/useAuth';
+import { AppRole } from '../lib/roles';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  adminOnly?: boolean;
+  // Signed-in users below this role are sent home
+  requiredRole?: AppRole;
 }
 
-const ProtectedRoute = ({ children, adminOnly = false }: ProtectedRouteProps) => {
-  const [authState, setAuthState] = useState({
-    checked: false,
-    isAuthenticated: false,
-    isAdmin: false,
-  });
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
+  const { user, hasRole, loading } = useAuth();
   const location = useLocation();
 
-  useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        // 1. Check if user is authenticated
-        const { data: { session }, error } = await supabase.auth.getSession();
-        
-        if (error) throw error;
-
-        // 2. If admin route, check admin status (customize this logic)
-        let isAdmin = false;
-        if (session && adminOnly) {
-          const { data: { user } } = await supabase.auth.getUser();
-          // Example admin check - adjust based on your auth system
-          isAdmin = user?.email?.endsWith('@finaccosolutions.com') || false;
-        }
-
-        setAuthState({
-          checked: true,
-          isAuthenticated: !!session,
-          isAdmin,
-        });
-      } catch (error) {
-        console.error('Auth check error:', error);
-        setAuthState({
-          checked: true,
-          isAuthenticated: false,
-          isAdmin: false,
-        });
-      }
-    };
-
-    checkAuth();
-  }, [adminOnly]);
-
-  if (!authState.checked) {
+  if (loading) {
     return (
-      <div className="flex justify-center items-center h-screen">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
       </div>
     );
   }
 
-  if (!authState.isAuthenticated) {
-    return <Navigate to="/login" state={{ from: location }} replace />;
+  // The auth context picks up the new session, which re-renders this route
+  if (!user) {
+    return <Auth onAuthSuccess={() => null} returnUrl={location.pathname} />;
   }
 
-  if (adminOnly && !authState.isAdmin) {
+  if (requiredRole && !hasRole(requiredRole)) {
     return <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -1,16 +1,43 @@
-import React, { useState, useEffect, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Send, Loader2, Brain, Trash2, AlertCircle, LogOut, Menu, Plus, Home, MessageSquare, Key, Download, ChevronRight } from 'lucide-react';
-import { Link, useNavigate } from 'react-router-dom';
-import html2pdf from 'html2pdf.js'; // Ensure this is imported
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Send, Loader2, Brain, Trash2, AlertCircle, LogOut, Menu, Plus, Home, MessageSquare, Key, Download, FileDown, ChevronRight, Square, BookOpen } from 'lucide-react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import Auth from './Auth';
 import ApiKeySetup from './ApiKeySetup';
+import MarkdownMessage from './MarkdownMessage';
+import FieldInput from './FieldInput';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/useAuth';
+import { toMarkdownSource } from '../lib/markdown';
+import { sanitizeHtml } from '../lib/sanitizeHtml';
+import { downloadDocx, downloadPdf, PdfLayout } from '../lib/export';
+import PdfLayoutSelect from './PdfLayoutSelect';
+import { FirmInfoTopic, routeIntent, TemplateCandidate } from '../lib/intent';
+import { calculateGst, formatGstBreakdown } from '../lib/gst';
+import { amountInWords, formatIndianDate, formatRupees } from '../lib/indianFormat';
+import { toDate, toNumber } from '../lib/template';
+import {
+  FieldErrors,
+  FieldValues,
+  isFieldVisible,
+  normalizeFields,
+  ScalarValue,
+  TemplateField,
+  toTemplateData,
+  validateFieldValues
+} from '../lib/fields';
+import {
+  buildConversationContext,
+  ChatMessage,
+  Citation,
+  citationLabel,
+  citedSources,
+  ConversationSummary,
+  createProvider,
+  LLMError,
+  LLMProvider,
+  retrieveKnowledge
+} from '../lib/llm';
 
-<<<<<<< HEAD
-
-=======
->>>>>>> cb6bd4a3db4a643ea48452c178509de166f6496d
 const documentStyles = `
   .document-container {
     font-family: 'Noto Sans', Arial, sans-serif;
@@ -92,6 +119,8 @@ interface Message {
   name?: string;
   isTyping?: boolean;
   isDocument?: boolean;
+  isStopped?: boolean;
+  citations?: Citation[];
 }
 
 interface ChatHistory {
@@ -100,128 +129,51 @@ interface ChatHistory {
   messages: Message[];
   created_at: string;
   user_id: string;
+  summary?: string | null;
+  summary_message_count?: number | null;
 }
 
-interface DocumentField {
-  id: string;
-  label: string;
-  type: 'text' | 'email' | 'tel' | 'date' | 'number' | 'textarea';
-  required: boolean;
-  placeholder?: string;
-  description?: string;
-}
-
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-let openai = null;
-try {
-  if (OPENAI_API_KEY) {
-    openai = new OpenAI({
-      apiKey: OPENAI_API_KEY,
-      dangerouslyAllowBrowser: true
-    });
-  }
-} catch (error) {
-  console.error('Failed to initialize OpenAI client:', error);
-}
-
-const RATE_LIMIT_WINDOW = 60000;
-const MAX_REQUESTS_PER_WINDOW = 3;
-
-const formatResponse = (text: string) => {
-  text = text.replace(/\*\*(.*?)\*\*/g, '<h3 class="text-xl font-bold text-gray-800 mt-4 mb-2">$1</h3>');
-  text = text.replace(/(^|\s)\*(\S[^*]*\S)\*(?=\s|\.|,|$)/g, '$1<em class="text-gray-600 italic">$2</em>');
-  text = text.replace(
-    /(Important Points|Key Points|Note):/g,
-    '<div class="bg-blue-50 border-l-4 border-blue-500 p-4 my-4 rounded-r-lg"><h4 class="font-bold text-blue-800 mb-2">$1:</h4>'
-  );
-  text = text.replace(
-    /^(Overview|Summary|Details|References):/gm,
-    '<h3 class="text-xl font-bold text-gray-800 mt-6 mb-3">$1</h3>'
-  );
-
-  if (text.match(/^[\*\-•●○]\s+/m)) {
-    const lines = text.split('\n');
-    let insideList = false;
-    let formattedText = '';
-
-    for (let line of lines) {
-      if (/^[\*\-•●○]\s+/.test(line)) {
-        if (!insideList) {
-          insideList = true;
-          formattedText += '\n<ul class="list-disc pl-6 my-4 space-y-2 text-gray-700">\n';
-        }
-        formattedText += `<li class="mb-2">${line.replace(/^[\*\-•●○]\s+/, '')}</li>\n`;
-      } else {
-        if (insideList) {
-          insideList = false;
-          formattedText += '</ul>\n';
-        }
-        formattedText += line + '\n';
-      }
+const TAX_ASSISTANT_PROMPT = `You are a helpful and knowledgeable GST and Income Tax assistant. Your Name is Finacco Sollutions. Reply to the user's query with clear, concise, and accurate information focused only on the user's question.
+Avoid introductions or general explanations unless directly related.
+Use bullet points, tables, and section headings if helpful for clarity.
+Keep the language simple and easy to understand, especially for non-experts.`;
+
+const toChatMessages = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter(message => !message.isDocument && message.content)
+    .map(message => ({
+      role: message.role,
+      content: message.role === 'assistant' ? toMarkdownSource(message.content) : message.content
+    }));
+
+// Quota errors from the AI proxy carry a message meant for the user
+const describeError = (error: unknown, fallback: string) =>
+  error instanceof LLMError && error.status === 429 ? error.message : fallback;
+
+const AMOUNT_FIELD = /amount|rent|price|salary|fee|deposit|consideration|payment|value|sum|loan/i;
+
+// Dates and amounts are formatted here rather than left to the model, so
+// documents get "₹1,25,000/- (Rupees One Lakh Twenty-Five Thousand only)"
+const formatDocumentData = (data: FieldValues, fields: TemplateField[]) =>
+  Object.fromEntries(Object.entries(toTemplateData(fields, data)).map(([id, value]) => {
+    const field = fields.find(f => f.id === id);
+    if (typeof value !== 'string') return [id, value];
+
+    const date = field?.type === 'date' ? toDate(value) : null;
+    if (date) return [id, formatIndianDate(date)];
+
+    const isAmount = field?.type === 'currency' || AMOUNT_FIELD.test(`${id} ${field?.label ?? ''}`);
+    const amount = field?.type === 'currency' || field?.type === 'number' || AMOUNT_FIELD.test(id) ? toNumber(value) : null;
+    if (amount !== null && isAmount) {
+      return [id, `${formatRupees(amount)} (${amountInWords(amount)})`];
     }
 
-    if (insideList) formattedText += '</ul>\n';
-    text = formattedText;
-  }
-
-  if (text.includes('|')) {
-    const blocks = text.split('\n\n');
-    const formattedBlocks = blocks.map(block => {
-      if (block.includes('|')) {
-        const lines = block.trim().split('\n');
-        if (lines.length < 2) return block;
-
-        const headers = lines[0].split('|').map(h => h.trim()).filter(Boolean);
-        const rows = lines.slice(2).map(line => line.split('|').map(cell => cell.trim()).filter(Boolean));
-
-        let tableHtml = `
-          <div class="overflow-x-auto my-6">
-            <table class="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-lg shadow-sm">
-              <thead>
-                <tr class="bg-gradient-to-r from-blue-50 to-indigo-50">
-                  ${headers.map(header => `
-                    <th class="px-6 py-3 text-left text-sm font-semibold text-gray-700 uppercase tracking-wider border-b border-gray-200">${header}</th>
-                  `).join('')}
-                </tr>
-              </thead>
-              <tbody class="bg-white divide-y divide-gray-100">
-                ${rows.map((row, i) => `
-                  <tr class="${i % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-blue-50 transition-colors duration-150">
-                    ${row.map(cell => `<td class="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-100">${cell}</td>`).join('')}
-                  </tr>
-                `).join('')}
-              </tbody>
-            </table>
-          </div>
-        `;
-        return tableHtml;
-      }
-      return block;
-    });
-
-    text = formattedBlocks.join('\n\n');
-  }
-
-  text = text.replace(
-    /```([^`]+)```/g,
-    '<pre class="bg-gray-800 text-gray-100 rounded-lg p-4 my-4 overflow-x-auto"><code>$1</code></pre>'
-  );
-
-  text = text.replace(/\n\n/g, '</div>\n\n<div class="mb-4">');
-  text = '<div class="mb-4">' + text + '</div>';
-
-  text = text.replace(/(^|\s)\*(?=\s|$)/g, '');
+    return [id, value];
+  }));
 
-  return text;
-};
-
-const getFinaccoResponse = (query: string) => {
-  const lowerQuery = query.toLowerCase();
-  
-  if (lowerQuery.includes('about finacco') || lowerQuery.includes('company information') || lowerQuery.includes('finacco solutions')) {
-    return `
+// Canned answers for questions about the firm itself
+const FIRM_INFO: Record<FirmInfoTopic, string> = {
+  about: `
 **About Finacco Solutions**
 
 Finacco Solutions is a comprehensive financial and technology services provider offering:
@@ -254,11 +206,9 @@ Finacco Solutions is a comprehensive financial and technology services provider
 Visit our service platforms:
 * [Finacco Advisory](https://advisory.finaccosolutions.com) - For all financial advisory services
 * [Finacco Connect](https://connect.finaccosolutions.com) - For business utility software and Tally solutions
-`;
-  }
+`,
 
-  if (lowerQuery.includes('contact') || lowerQuery.includes('phone') || lowerQuery.includes('email') || lowerQuery.includes('address')) {
-    return `
+  contact: `
 **Contact Information for Finacco Solutions:**
 
 * Phone: +91 8590000761
@@ -270,11 +220,9 @@ Visit our service platforms:
 * Sunday: Closed
 
 Feel free to reach out to us through WhatsApp or email for quick responses.
-`;
-  }
+`,
 
-  if (lowerQuery.includes('tally') || lowerQuery.includes('import') || lowerQuery.includes('connect') || lowerQuery.includes('utility software')) {
-    return `
+  connect: `
 **Finacco Connect Services:**
 
 Visit [Finacco Connect](https://connect.finaccosolutions.com) for:
@@ -293,11 +241,9 @@ Visit [Finacco Connect](https://connect.finaccosolutions.com) for:
 For detailed information or support:
 * Phone: +91 8590000761
 * Email: contact@finaccosolutions.com
-`;
-  }
+`,
 
-  if (lowerQuery.includes('advisory') || lowerQuery.includes('financial services')) {
-    return `
+  advisory: `
 **Finacco Advisory Services:**
 
 Visit [Finacco Advisory](https://advisory.finaccosolutions.com) for:
@@ -326,10 +272,7 @@ Visit [Finacco Advisory](https://advisory.finaccosolutions.com) for:
 Contact us for professional assistance:
 * Phone: +91 8590000761
 * Email: contact@finaccosolutions.com
-`;
-  }
-
-  return null;
+`
 };
 
 const DocumentPreview = ({ 
@@ -341,49 +284,38 @@ const DocumentPreview = ({
   docType: string;
   onEdit: () => void;
 }) => {
+  // Chat histories may hold documents generated before output was sanitised
+  const safeContent = useMemo(() => sanitizeHtml(content), [content]);
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>('plain');
+
   const downloadDocument = async () => {
     try {
-      const element = document.createElement('div');
-      element.innerHTML = `
-        <style>${documentStyles}</style>
-        <div class="document-container">
-          ${content}
-        </div>
-      `;
-      
-      const opt = {
-        margin: 15,
-        filename: `${docType.toLowerCase().replace(/\s+/g, '_')}.pdf`,
-        image: { type: 'jpeg', quality: 0.98 },
-        html2canvas: { 
-          scale: 2,
-          logging: true,
-          useCORS: true,
-          letterRendering: true
-        },
-        jsPDF: { 
-          unit: 'mm',
-          format: 'a4',
-          orientation: 'portrait' 
-        }
-      };
-
-      await html2pdf().set(opt).from(element).save();
+      await downloadPdf(safeContent, docType, { layout: pdfLayout });
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF. Please try again.');
     }
   };
 
+  const downloadWord = async () => {
+    try {
+      await downloadDocx(safeContent, docType);
+    } catch (error) {
+      console.error('Error generating DOCX:', error);
+      alert('Failed to generate the Word document. Please try again.');
+    }
+  };
+
   return (
     <div className="w-full max-w-5xl mx-auto my-6">
       <style>{documentStyles}</style>
       <div className="document-preview bg-white p-8 rounded-xl shadow-lg border border-gray-200">
         <div 
           className="document-container"
-          dangerouslySetInnerHTML={{ __html: content }} 
+          dangerouslySetInnerHTML={{ __html: safeContent }} 
         />
-        <div className="mt-8 flex justify-end gap-4">
+        <div className="mt-8 flex flex-wrap items-center justify-end gap-4">
+          <PdfLayoutSelect value={pdfLayout} onChange={setPdfLayout} />
           <button
             onClick={onEdit}
             className="flex items-center gap-2 px-4 py-2 bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200 transition-all hover:shadow-md"
@@ -393,6 +325,13 @@ const DocumentPreview = ({
             </svg>
             Edit Inputs
           </button>
+          <button
+            onClick={downloadWord}
+            className="flex items-center gap-2 px-4 py-2 bg-white text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-all hover:shadow-md"
+          >
+            <FileDown className="w-5 h-5" />
+            Download Word
+          </button>
           <button
             onClick={downloadDocument}
             className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:shadow-lg transition-all hover:from-blue-700 hover:to-indigo-700"
@@ -408,11 +347,9 @@ const DocumentPreview = ({
 
 const TaxAssistant: React.FC = () => {
   const navigate = useNavigate();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
-  const [hasApiKey, setHasApiKey] = useState(false);
-  const [isCheckingApiKey, setIsCheckingApiKey] = useState(true);
-  const [user, setUser] = useState(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, apiKey, loading: isCheckingAuth, signOut } = useAuth();
+  const userId = user?.id;
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -420,68 +357,37 @@ const TaxAssistant: React.FC = () => {
   const [showHistory, setShowHistory] = useState(true);
   const [isHistoryHovered, setIsHistoryHovered] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [useGemini, setUseGemini] = useState(true);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
+  const [conversationSummary, setConversationSummary] = useState<ConversationSummary | null>(null);
   const [typingMessage, setTypingMessage] = useState<Message | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [textareaHeight, setTextareaHeight] = useState('56px');
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const provider = useMemo((): LLMProvider | null => (apiKey ? createProvider(apiKey.settings) : null), [apiKey]);
   const [isDocumentMode, setIsDocumentMode] = useState(false);
   const [documentType, setDocumentType] = useState('');
   const [showForm, setShowForm] = useState(false);
-  const [formFields, setFormFields] = useState<DocumentField[]>([]);
-  const [formData, setFormData] = useState<Record<string, string>>({});
+  const [formFields, setFormFields] = useState<TemplateField[]>([]);
+  const [formData, setFormData] = useState<FieldValues>({});
   const [formStep, setFormStep] = useState(0);
   const [isGeneratingDocument, setIsGeneratingDocument] = useState(false);
-  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  // Library row of the document the form is for, once it has been saved
+  const [libraryDocumentId, setLibraryDocumentId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const requestTimestamps = useRef<number[]>([]);
   const historyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const templatesRef = useRef<TemplateCandidate[] | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
-<<<<<<< HEAD
-  e.preventDefault();
-  
-  if (!input.trim() || isLoading) return;
-  
-  setIsLoading(true);
-  setError(null);
-
-  const userMessage: Message = {
-    id: Date.now().toString(),
-    role: 'user',
-    content: input,
-    timestamp: new Date().toISOString()
-  };
-
-  setMessages(prev => [...prev, userMessage]);
-  setInput('');
-
-  try {
-    // First check if this is a request for a predefined document
-    const isPredefinedDocRequest = await checkForPredefinedDocument(input);
-    
-    if (isPredefinedDocRequest) {
-      const { templateId, templateName } = isPredefinedDocRequest;
-      navigate(`/create-document/${templateId}`);
-      setIsLoading(false);
-      return;
-    }
-
-    // Then check if it's a generic document request
-    const isDocRequest = await checkIfDocumentRequest(input);
-=======
     e.preventDefault();
->>>>>>> cb6bd4a3db4a643ea48452c178509de166f6496d
     
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || !provider) return;
     
     setIsLoading(true);
     setError(null);
 
-<<<<<<< HEAD
-=======
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
@@ -493,16 +399,19 @@ const TaxAssistant: React.FC = () => {
     setInput('');
 
     try {
-      const isDocRequest = await checkIfDocumentRequest(input);
-      
-      if (isDocRequest) {
+      const intent = await routeIntent(input, { templates: await loadTemplateCandidates(), provider });
+
+      if (intent.type === 'document_request') {
+        // Predefined templates have their own guided form
+        if (intent.template) {
+          navigate(`/create-document/${intent.template.id}`);
+          return;
+        }
         setIsDocumentMode(true);
-        await handleDocumentRequest(input);
-        setIsLoading(false);
+        await handleDocumentRequest(intent.documentType);
         return;
       }
 
->>>>>>> cb6bd4a3db4a643ea48452c178509de166f6496d
       const typingMessageId = Date.now().toString();
       setTypingMessage({
         id: typingMessageId,
@@ -513,12 +422,18 @@ const TaxAssistant: React.FC = () => {
         isTyping: true
       });
 
-      const finaccoResponse = getFinaccoResponse(input);
-      if (finaccoResponse) {
+      // Firm details and GST calculations are answered without the model; a
+      // calculation missing its amount or rate goes to the model instead
+      const cannedResponse = intent.type === 'firm_info'
+        ? FIRM_INFO[intent.topic].trim()
+        : intent.type === 'calculator' && intent.amount !== null && intent.rate !== null
+          ? formatGstBreakdown(calculateGst(intent.amount, intent.rate, intent), intent.interState)
+          : null;
+      if (cannedResponse) {
         const assistantMessage: Message = {
           id: Date.now().toString(),
           role: 'assistant',
-          content: formatResponse(finaccoResponse),
+          content: cannedResponse,
           timestamp: new Date().toISOString()
         };
         setMessages(prev => [...prev, assistantMessage]);
@@ -527,138 +442,115 @@ const TaxAssistant: React.FC = () => {
         return;
       }
 
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `You are a helpful and knowledgeable GST and Income Tax assistant. Your Name is Finacco Sollutions. Reply to the following query with clear, concise, and accurate information focused only on the user's question. 
-                      Avoid introductions or general explanations unless directly related. 
-                      Use bullet points, tables, and section headings if helpful for clarity. 
-                      Keep the language simple and easy to understand, especially for non-experts.
-                      User's query: ${input}`
-              }]
-            }]
-          })
-        }
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsStreaming(true);
+
+      const context = await buildConversationContext(
+        toChatMessages([...messages, userMessage]),
+        provider,
+        { summary: conversationSummary }
       );
+      setConversationSummary(context.summary);
 
-      if (!response.ok) throw new Error('API request failed');
+      // Answers still go ahead without grounding if the knowledge base is unavailable
+      const knowledge = await retrieveKnowledge(input, controller.signal).catch(error => {
+        if (!controller.signal.aborted) console.error('Error retrieving knowledge:', error);
+        return { citations: [], message: null };
+      });
 
-      const data = await response.json();
-      const responseText = data.candidates[0]?.content?.parts?.[0]?.text;
+      let responseText = '';
+      try {
+        const stream = provider.stream(
+          [
+            { role: 'system', content: TAX_ASSISTANT_PROMPT },
+            ...(knowledge.message ? [knowledge.message] : []),
+            ...context.messages
+          ],
+          { signal: controller.signal, feature: 'chat' }
+        );
+
+        for await (const chunk of stream) {
+          responseText += chunk;
+          setTypingMessage(prev => prev && { ...prev, content: responseText });
+        }
+      } catch (error) {
+        // A user-initiated stop is not an error; keep whatever has streamed so far
+        if (!controller.signal.aborted) throw error;
+      } finally {
+        abortControllerRef.current = null;
+        setIsStreaming(false);
+      }
 
+      if (!responseText) return;
+
+      const citations = citedSources(knowledge.citations, responseText);
       const assistantMessage: Message = {
         id: Date.now().toString(),
         role: 'assistant',
-        content: formatResponse(responseText),
-        timestamp: new Date().toISOString()
+        content: responseText,
+        timestamp: new Date().toISOString(),
+        ...(controller.signal.aborted && { isStopped: true }),
+        ...(citations.length > 0 && { citations })
       };
 
       setMessages(prev => [...prev, assistantMessage]);
-      await saveToHistory([...messages, userMessage, assistantMessage], input);
+      await saveToHistory([...messages, userMessage, assistantMessage], input, context.summary);
       
     } catch (error) {
       console.error('Error processing request:', error);
-      setError('Failed to process your request. Please try again.');
+      setError(describeError(error, 'Failed to process your request. Please try again.'));
     } finally {
       setIsLoading(false);
       setTypingMessage(null);
     }
   };
 
-<<<<<<< HEAD
-  const checkForPredefinedDocument = async (query: string): Promise<{ templateId: string, templateName: string } | null> => {
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const loadTemplateCandidates = async (): Promise<TemplateCandidate[]> => {
+    if (templatesRef.current) return templatesRef.current;
+
     try {
-      const { data: templates, error } = await supabase
+      const { data, error } = await supabase
         .from('document_templates')
-        .select('id, name, keywords');
-        
+        .select('id, name, keywords')
+        .not('published_version_id', 'is', null);
+
       if (error) throw error;
-      
-      if (!templates) return null;
-      
-      const lowerQuery = query.toLowerCase();
-      const matchingTemplate = templates.find(template => 
-        template.keywords?.some((keyword: string) => 
-          lowerQuery.includes(keyword.toLowerCase())
-        ) || 
-        lowerQuery.includes(template.name.toLowerCase())
-      );
-      
-      return matchingTemplate ? { 
-        templateId: matchingTemplate.id, 
-        templateName: matchingTemplate.name 
-      } : null;
+      templatesRef.current = data ?? [];
+      return templatesRef.current;
     } catch (error) {
-      console.error('Error checking predefined documents:', error);
-      return null;
+      console.error('Error loading document templates:', error);
+      return [];
     }
   };
 
-=======
->>>>>>> cb6bd4a3db4a643ea48452c178509de166f6496d
-  const checkIfDocumentRequest = async (text: string): Promise<boolean> => {
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  {
-                    text: `Is this a request to create a document? Only respond with "true" or "false": "${text}"`
-                  }
-                ]
-              }
-            ],
-            generationConfig: {
-              temperature: 0.1,
-              maxOutputTokens: 5
-            }
-          })
-        }
-      );
-  
-      const data = await response.json();
-      return data.candidates?.[0]?.content?.parts?.[0]?.text?.toLowerCase().trim() === 'true';
-    } catch (error) {
-      console.error('Error checking document request:', error);
-      return false;
-    }
-  };
-  
-  const handleDocumentRequest = async (query: string) => {
+  const handleDocumentRequest = async (docType: string) => {
     setIsDocumentMode(true);
     setError(null);
+    setLibraryDocumentId(null);
   
     try {
-      const docType = query.replace(/(draft|create|generate|write)\s+(a|an)?\s*/i, '').trim();
       setDocumentType(docType);
   
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  {
-                    text: `Generate field list for Indian ${docType} document.
+      if (!provider) throw new Error('No AI provider configured');
+
+      const resultText = await provider.generate([{
+        role: 'user',
+        content: `Generate field list for Indian ${docType} document.
             
                     Requirements:
                     1. Include all parties, dates, amounts with ₹
                     2. Use Indian formats (DD/MM/YYYY)
                     3. Mark required fields
                     4. Include description/placeholder where helpful
+                    5. "type" is one of: text, textarea, email, tel, date, number, select, radio, checkbox,
+                       currency (rupee amounts), percentage, pan, gstin, aadhaar, ifsc, pincode,
+                       address (full postal address), signature (signature image).
+                       select and radio need an "options" list.
                     
                     Return PURE JSON format ONLY:
                     {
@@ -674,20 +566,12 @@ const TaxAssistant: React.FC = () => {
                       ]
                     }
                     `.trim()
-                  }
-                ]
-              }
-            ]
-          })
-        }
-      );
-
-      const data = await response.json();
-      const resultText = data.candidates[0]?.content?.parts?.[0]?.text;
+      }], { feature: 'document-fields' });
       const jsonMatch = resultText.match(/{[\s\S]*}/);
       const result = jsonMatch ? JSON.parse(jsonMatch[0]) : { fields: [] };
 
-      setFormFields(result.fields.length > 0 ? result.fields : getDefaultFields(docType));
+      const fields = normalizeFields(result.fields).filter(field => field.type !== 'group');
+      setFormFields(fields.length > 0 ? fields : getDefaultFields(docType));
       setShowForm(true);
       
       const assistantMessage: Message = {
@@ -700,14 +584,14 @@ const TaxAssistant: React.FC = () => {
       setMessages(prev => [...prev, assistantMessage]);
     } catch (error) {
       console.error('Error setting up document form:', error);
-      setError('Failed to set up document form. Please try again.');
+      setError(describeError(error, 'Failed to set up document form. Please try again.'));
       setIsDocumentMode(false);
       setFormFields([]);
       setShowForm(false);
     }
   };
 
-  const getDefaultFields = (docType: string): DocumentField[] => [
+  const getDefaultFields = (docType: string): TemplateField[] => [
     {
       id: 'title',
       label: 'Document Title',
@@ -737,24 +621,21 @@ const TaxAssistant: React.FC = () => {
     }
   ];
 
-  const generateDocument = async (data: Record<string, string>, docType: string) => {
+  const generateDocument = async (data: FieldValues, docType: string) => {
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Generate a professional ${docType} document in Indian format with perfect structure and formatting.
+      if (!provider) throw new Error("No AI provider configured");
+
+      const content = await provider.generate(
+        [{
+          role: "user",
+          content: `Generate a professional ${docType} document in Indian format with perfect structure and formatting.
               
-              User Data: ${JSON.stringify(data)}
+              User Data: ${JSON.stringify(formatDocumentData(data, formFields))}
               
               STRICT REQUIREMENTS:
               1. Use proper semantic HTML tags (h1, h2, p, strong)
               2. All dates in DD/MM/YYYY format (bold)
-              3. Monetary values with ₹ symbol (bold)
+              3. Monetary values exactly as given in User Data, including the amount in words (bold)
               4. Parties clearly identified
               5. Use a formal, natural paragraph-based tone
               6. Use semantic HTML tags for formatting:
@@ -816,30 +697,16 @@ const TaxAssistant: React.FC = () => {
 
               
               Return COMPLETE HTML DOCUMENT with all formatting.`
-                
-              }]
-            }],
-            generationConfig: {
-              temperature: 0.3 // More consistent legal output
-            }
-          })
-        }
+        }],
+        { temperature: 0.3, feature: 'document' } // More consistent legal output
       );
-  
-      if (!response.ok) throw new Error("API request failed");
-      
-      const result = await response.json();
-      const content = result.candidates[0]?.content?.parts?.[0]?.text;
-      return content.replace(/^```html|```$/g, "").trim();
+      return sanitizeHtml(content.replace(/^```html|```$/g, "").trim());
     } catch (error) {
       console.error("Document generation error:", error);
       throw new Error("Failed to generate document. Please try again.");
     }
   };
-<<<<<<< HEAD
-  
-=======
->>>>>>> cb6bd4a3db4a643ea48452c178509de166f6496d
+
 
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -854,11 +721,14 @@ const TaxAssistant: React.FC = () => {
 
     try {
       const documentContent = await generateDocument(formData, documentType);
+      const isSaved = await saveToLibrary(documentContent);
       
       const assistantMessage: Message = {
         id: Date.now().toString(),
         role: "assistant",
-        content: `I've generated a ${documentType} document for you:`,
+        content: isSaved
+          ? `I've generated a ${documentType} document for you. It is also saved in My Documents:`
+          : `I've generated a ${documentType} document for you:`,
         timestamp: new Date().toISOString()
       };
 
@@ -879,51 +749,57 @@ const TaxAssistant: React.FC = () => {
       setIsDocumentMode(false);
     } catch (error) {
       console.error("Document generation error:", error);
-      setError("Failed to generate document. Please try again.");
+      setError(describeError(error, "Failed to generate document. Please try again."));
     } finally {
       setIsGeneratingDocument(false);
     }
   };
 
-  const validateForm = (data: Record<string, string>, fields: DocumentField[]): boolean => {
-    const errors: Record<string, string> = {};
-    
-    fields.forEach(field => {
-      const value = data[field.id]?.trim() || '';
-      
-      if (field.required && !value) {
-        errors[field.id] = `${field.label} is required`;
-      } else if (value) {
-        switch (field.type) {
-          case 'email':
-            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
-              errors[field.id] = 'Please enter a valid email address';
-            }
-            break;
-          case 'tel':
-            if (!/^\+?[\d\s-()]+$/.test(value)) {
-              errors[field.id] = 'Please enter a valid phone number';
-            }
-            break;
-          case 'date':
-            if (isNaN(Date.parse(value))) {
-              errors[field.id] = 'Please enter a valid date';
-            }
-            break;
-          case 'number':
-            if (isNaN(Number(value))) {
-              errors[field.id] = 'Please enter a valid number';
-            }
-            break;
-        }
+  // Generated documents go to the user's document library; regenerating one
+  // reopened from there updates it in place
+  const saveToLibrary = async (contentHtml: string) => {
+    try {
+      if (!user) return false;
+
+      const row = {
+        document_type: documentType,
+        fields: formFields,
+        form_data: formData,
+        content_html: contentHtml,
+        status: 'final'
+      };
+
+      if (libraryDocumentId) {
+        const { error } = await supabase
+          .from('user_documents')
+          .update(row)
+          .eq('id', libraryDocumentId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('user_documents')
+          .insert([{ ...row, user_id: user.id, title: documentType }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        setLibraryDocumentId(data.id);
       }
-    });
+      return true;
+    } catch (error) {
+      console.error('Error saving document to library:', error);
+      return false;
+    }
+  };
 
+  const validateForm = (data: FieldValues, fields: TemplateField[]): boolean => {
+    const errors = validateFieldValues(fields, data);
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
-  const handleFieldChange = (fieldId: string, value: string) => {
+  const handleFieldChange = (fieldId: string, value: ScalarValue) => {
     setFormData(prev => ({ ...prev, [fieldId]: value }));
     if (formErrors[fieldId]) {
       setFormErrors(prev => {
@@ -956,110 +832,86 @@ const TaxAssistant: React.FC = () => {
   };
 
   useEffect(() => {
-    const checkAuthAndApiKey = async () => {
-      try {
-        const { data: { session } } = await supabase.auth.getSession();
-        setIsAuthenticated(!!session);
-        setUser(session?.user ?? null);
-        
-        if (session?.user) {
-          const { data: apiKeyData, error: apiKeyError } = await supabase
-            .from('api_keys')
-            .select('gemini_key')
-            .eq('user_id', session.user.id)
-            .maybeSingle();
-            
-          if (!apiKeyError && apiKeyData?.gemini_key) {
-            setHasApiKey(true);
-            setApiKey(apiKeyData.gemini_key);
-          }
-        }
-      } catch (error) {
-        console.error('Error checking auth status:', error);
-      } finally {
-        setIsCheckingAuth(false);
-        setIsCheckingApiKey(false);
-      }
-    };
+    if (userId) loadChatHistory(userId);
+  }, [userId]);
 
-    checkAuthAndApiKey();
-  }, []);
+  useEffect(() => {
+    scrollToBottom();
+  }, [messages, typingMessage?.content]);
 
+  // My Documents links here with ?document=<id> to edit a chat document's
+  // inputs
   useEffect(() => {
-    if (!supabase) return;
-    
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setIsAuthenticated(!!session);
-      setUser(session?.user ?? null);
-      if (session?.user) {
-        loadChatHistory(session.user.id);
-      }
-    });
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setIsAuthenticated(!!session);
-      setUser(session?.user ?? null);
-      if (session?.user) {
-        loadChatHistory(session.user.id);
-      }
-    });
+    const documentId = searchParams.get('document');
+    if (!userId || !documentId) return;
 
-    return () => subscription.unsubscribe();
-  }, []);
+    const openLibraryDocument = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('user_documents')
+          .select('id, title, document_type, fields, form_data')
+          .eq('id', documentId)
+          .is('template_id', null)
+          .single();
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+        if (error) throw error;
+        const fields = normalizeFields(data.fields).filter(field => field.type !== 'group');
+        setLibraryDocumentId(data.id);
+        setDocumentType(data.document_type || data.title);
+        setFormFields(fields);
+        setFormData(data.form_data ?? {});
+        setFormErrors({});
+        setIsDocumentMode(true);
+        setShowForm(true);
+      } catch (error) {
+        console.error('Error opening document:', error);
+        setError('Failed to open the document. Please try again.');
+      } finally {
+        setSearchParams({}, { replace: true });
+      }
+    };
 
-  const checkRateLimit = (): boolean => {
-    const now = Date.now();
-    requestTimestamps.current = requestTimestamps.current.filter(
-      timestamp => now - timestamp < RATE_LIMIT_WINDOW
-    );
-    
-    if (requestTimestamps.current.length >= MAX_REQUESTS_PER_WINDOW) {
-      const oldestTimestamp = requestTimestamps.current[0];
-      const timeUntilReset = RATE_LIMIT_WINDOW - (now - oldestTimestamp);
-      const minutesUntilReset = Math.ceil(timeUntilReset / 60000);
-      
-      setError(`Rate limit exceeded. Please try again in ${minutesUntilReset} minute${minutesUntilReset > 1 ? 's' : ''}.`);
-      return false;
-    }
-    
-    requestTimestamps.current.push(now);
-    return true;
-  };
+    openLibraryDocument();
+  }, [userId, searchParams, setSearchParams]);
 
   const createNewChat = async () => {
+    abortControllerRef.current?.abort();
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
     setTypingMessage(null);
     setCurrentChatId(null);
+    setConversationSummary(null);
     setMessages([]);
     setError(null);
   };
 
   const loadChat = (chat: ChatHistory) => {
+    abortControllerRef.current?.abort();
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
     setTypingMessage(null);
     setMessages(chat.messages);
     setCurrentChatId(chat.id);
+    setConversationSummary(
+      chat.summary ? { text: chat.summary, messageCount: chat.summary_message_count ?? 0 } : null
+    );
     setShowHistory(false);
   };
 
-  const saveToHistory = async (messages: Message[], input: string) => {
-    const { data: { user } } = await supabase.auth.getUser();
+  const saveToHistory = async (messages: Message[], input: string, summary?: ConversationSummary | null) => {
     if (user) {
+      const summaryColumns = summary
+        ? { summary: summary.text, summary_message_count: summary.messageCount }
+        : {};
+
       if (currentChatId) {
         await supabase
           .from('chat_histories')
           .update({
             messages: messages,
+            ...summaryColumns
           })
           .eq('id', currentChatId);
       } else {
@@ -1067,6 +919,7 @@ const TaxAssistant: React.FC = () => {
           .from('chat_histories')
           .insert([{
             messages: messages,
+            ...summaryColumns,
             title: input.length > 100 ? input.slice(0, 100) + '...' : input,
             user_id: user.id
           }])
@@ -1110,6 +963,7 @@ const TaxAssistant: React.FC = () => {
       setChatHistories(prev => prev.filter(chat => chat.id !== chatId));
       if (chatId === currentChatId) {
         setCurrentChatId(null);
+        setConversationSummary(null);
         setMessages([]);
       }
     } catch (error) {
@@ -1120,7 +974,6 @@ const TaxAssistant: React.FC = () => {
 
   const clearChat = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { error: deleteError } = await supabase
@@ -1133,6 +986,7 @@ const TaxAssistant: React.FC = () => {
       setMessages([]);
       setChatHistories([]);
       setCurrentChatId(null);
+      setConversationSummary(null);
       setError(null);
     } catch (error) {
       console.error('Error clearing chat history:', error);
@@ -1141,10 +995,11 @@ const TaxAssistant: React.FC = () => {
   };
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     setMessages([]);
     setChatHistories([]);
     setCurrentChatId(null);
+    setConversationSummary(null);
   };
 
   const handleHistoryMouseEnter = () => {
@@ -1248,10 +1103,10 @@ const TaxAssistant: React.FC = () => {
         {/* Form Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {formFields.map((field) => (
+            {formFields.filter(field => isFieldVisible(field, formData)).map((field) => (
               <div
                 key={field.id}
-                className={`space-y-2 ${field.type === "textarea" ? "md:col-span-2" : ""}`}
+                className={`space-y-2 ${["textarea", "address"].includes(field.type) ? "md:col-span-2" : ""}`}
               >
                 <label htmlFor={field.id} className="block text-sm font-medium text-gray-700">
                   {field.label}
@@ -1262,37 +1117,17 @@ const TaxAssistant: React.FC = () => {
                   <p className="text-xs text-gray-500 mb-1">{field.description}</p>
                 )}
                 
-                {field.type === "textarea" ? (
-                  <textarea
-                    id={field.id}
-                    name={field.id}
-                    value={formData[field.id] || ""}
-                    onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                    placeholder={field.placeholder}
-                    rows={4}
-                    className={`block w-full rounded-lg border bg-white ${
-                      formErrors[field.id]
-                        ? "border-red-300 focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                        : "border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    } shadow-sm transition-all duration-200 p-3`}
-                    required={field.required}
-                  />
-                ) : (
-                  <input
-                    type={field.type}
-                    id={field.id}
-                    name={field.id}
-                    value={formData[field.id] || ""}
-                    onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                    placeholder={field.placeholder}
-                    className={`block w-full rounded-lg border bg-white ${
-                      formErrors[field.id]
-                        ? "border-red-300 focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                        : "border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    } shadow-sm px-4 py-2.5 transition-all duration-200`}
-                    required={field.required}
-                  />
-                )}
+                <FieldInput
+                  field={field}
+                  id={field.id}
+                  value={formData[field.id] as ScalarValue}
+                  onChange={(value) => handleFieldChange(field.id, value)}
+                  inputClassName={`block w-full rounded-lg border bg-white ${
+                    formErrors[field.id]
+                      ? "border-red-300 focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                      : "border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  } shadow-sm ${field.type === "textarea" ? "p-3" : "px-4 py-2.5"} transition-all duration-200`}
+                />
                 
                 {formErrors[field.id] && (
                   <p className="mt-1 text-sm text-red-600">{formErrors[field.id]}</p>
@@ -1341,7 +1176,7 @@ const TaxAssistant: React.FC = () => {
     </div>
   );
 
-  if (isCheckingAuth || isCheckingApiKey) {
+  if (isCheckingAuth) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="flex flex-col items-center gap-4">
@@ -1352,12 +1187,13 @@ const TaxAssistant: React.FC = () => {
     );
   }
 
-  if (!isAuthenticated) {
-    return <Auth onAuthSuccess={() => setIsAuthenticated(true)} />;
+  // Both re-render this view through the auth context once they succeed
+  if (!user) {
+    return <Auth onAuthSuccess={() => null} />;
   }
 
-  if (!hasApiKey) {
-    return <ApiKeySetup onComplete={() => setHasApiKey(true)} returnUrl="/tax-assistant" />;
+  if (!provider) {
+    return <ApiKeySetup onComplete={() => null} />;
   }
 
   return (
@@ -1543,7 +1379,41 @@ const TaxAssistant: React.FC = () => {
                         ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white'
                         : 'bg-white shadow-sm border border-gray-100'
                     } max-w-[90%] break-words`}>
-                      <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: message.content }} />
+                      {message.role === 'assistant' ? (
+                        <MarkdownMessage content={message.content} />
+                      ) : (
+                        <p className="whitespace-pre-wrap">{message.content}</p>
+                      )}
+                      {message.isStopped && (
+                        <p className="mt-2 text-xs italic text-gray-400">Response stopped</p>
+                      )}
+                      {message.citations && message.citations.length > 0 && (
+                        <div className="mt-4 pt-3 border-t border-gray-100">
+                          <p className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                            <BookOpen size={14} />
+                            Sources
+                          </p>
+                          <ol className="space-y-1 text-sm">
+                            {message.citations.map(citation => (
+                              <li key={citation.id} className="flex gap-2 text-gray-600">
+                                <span className="text-gray-400">[{citation.number}]</span>
+                                {citation.url ? (
+                                  <a
+                                    href={citation.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:underline"
+                                  >
+                                    {citationLabel(citation)}
+                                  </a>
+                                ) : (
+                                  <span>{citationLabel(citation)}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1563,12 +1433,7 @@ const TaxAssistant: React.FC = () => {
                       <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
                     </div>
                   </div>
-                  {typingMessage.content && (
-                    <div
-                      className="prose max-w-none"
-                      dangerouslySetInnerHTML={{ __html: typingMessage.content }}
-                    />
-                  )}
+                  {typingMessage.content && <MarkdownMessage content={typingMessage.content} />}
                 </div>
               </div>
             )}
@@ -1606,6 +1471,16 @@ const TaxAssistant: React.FC = () => {
           {input.length}/1000
         </div>
       </div>
+      {isStreaming ? (
+      <button
+        type="button"
+        onClick={stopGenerating}
+        title="Stop generating"
+        className="p-4 rounded-xl flex items-center justify-center transition-all duration-300 transform hover:scale-105 flex-shrink-0 bg-red-50 text-red-600 border border-red-200 hover:bg-red-100"
+      >
+        <Square size={24} />
+      </button>
+      ) : (
       <button
         type="submit"
         disabled={isLoading || !input.trim()}
@@ -1621,13 +1496,10 @@ const TaxAssistant: React.FC = () => {
           <Send size={24} />
         )}
       </button>
+      )}
     </div>
     <div className="mt-2 flex justify-center gap-2">
-<<<<<<< HEAD
       <span className="text-xs text-gray-500">Try: "Draft a rental agreement" or "Explain GST rates in India"</span>
-=======
-      <span className="text-xs text-gray-500">Try: "Draft" for Draft any Document or ask any question</span>
->>>>>>> cb6bd4a3db4a643ea48452c178509de166f6496d
     </div>
   </div>
 </form>
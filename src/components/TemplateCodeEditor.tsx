@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TEMPLATE_FILTERS } from '../lib/template';
+
+export interface PlaceholderSuggestion {
+  name: string;
+  detail: string;
+}
+
+interface TemplateCodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Names offered inside {{ }}; filters are offered after |
+  suggestions: PlaceholderSuggestion[];
+  className?: string;
+}
+
+interface Completion {
+  // Start of the word being completed
+  from: number;
+  items: PlaceholderSuggestion[];
+  // Whether to close the tag after a name
+  closeTag: boolean;
+  top: number;
+  left: number;
+}
+
+const MAX_ITEMS = 8;
+
+const FILTER_SUGGESTIONS: PlaceholderSuggestion[] = Object.keys(TEMPLATE_FILTERS).map(name => ({ name, detail: 'filter' }));
+
+const matching = (items: PlaceholderSuggestion[], prefix: string) => {
+  const lower = prefix.toLowerCase();
+  const starts = items.filter(item => item.name.toLowerCase().startsWith(lower));
+  const contains = items.filter(item => !item.name.toLowerCase().startsWith(lower) && item.name.toLowerCase().includes(lower));
+  return [...starts, ...contains].filter(item => item.name !== prefix).slice(0, MAX_ITEMS);
+};
+
+// What can be completed at the caret: a field name anywhere in an open
+// {{ }} tag, or a filter name after |
+const completionAt = (text: string, caret: number, suggestions: PlaceholderSuggestion[]) => {
+  const before = text.slice(0, caret);
+  const open = before.lastIndexOf('{{');
+  if (open === -1 || before.indexOf('}}', open) !== -1) return null;
+
+  const tag = before.slice(open + 2);
+  // Block keywords and comments are typed out in full
+  if (/^\s*[#/!]\w*$/.test(tag) || tag.trimStart().startsWith('!')) return null;
+
+  const filter = tag.match(/\|\s*(\w*)$/);
+  if (filter) {
+    return { from: caret - filter[1].length, items: matching(FILTER_SUGGESTIONS, filter[1]), closeTag: false };
+  }
+
+  const name = tag.match(/(?:^|[\s!=<>(,])([@\w.]*)$/);
+  if (!name || tag.match(/:\s*\S*$/)) return null;
+  const after = text.slice(caret);
+  return {
+    from: caret - name[1].length,
+    items: matching(suggestions, name[1]),
+    closeTag: !/^\s*(\}\}|\||==|!=|>|<)/.test(after)
+  };
+};
+
+// Plain textarea for template HTML that suggests field names and filters
+// while a {{ }} tag is being typed. Lines do not wrap, so the caret position
+// follows from its line and column.
+const TemplateCodeEditor: React.FC<TemplateCodeEditorProps> = ({ value, onChange, suggestions, className = '' }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+  const [completion, setCompletion] = useState<Completion | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingCaretRef.current !== null) {
+      textarea.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+      pendingCaretRef.current = null;
+    }
+  }, [value]);
+
+  const updateCompletion = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart !== textarea.selectionEnd) {
+      setCompletion(null);
+      return;
+    }
+
+    const caret = textarea.selectionStart;
+    const found = completionAt(textarea.value, caret, suggestions);
+    if (!found || found.items.length === 0) {
+      setCompletion(null);
+      return;
+    }
+
+    const lines = textarea.value.slice(0, caret).split('\n');
+    const style = window.getComputedStyle(textarea);
+    const lineHeight = parseFloat(style.lineHeight) || 20;
+    const charWidth = (measureRef.current?.getBoundingClientRect().width ?? 80) / 10;
+    setCompletion({
+      ...found,
+      top: lines.length * lineHeight + parseFloat(style.paddingTop) - textarea.scrollTop + 2,
+      left: Math.max(0, (lines[lines.length - 1].length - (caret - found.from)) * charWidth + parseFloat(style.paddingLeft) - textarea.scrollLeft)
+    });
+    setActiveIndex(index => Math.min(index, found.items.length - 1));
+  };
+
+  const accept = (item: PlaceholderSuggestion) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !completion) return;
+    const caret = textarea.selectionStart;
+    const insert = item.name + (completion.closeTag ? ' }}' : '');
+    pendingCaretRef.current = completion.from + insert.length;
+    onChange(value.slice(0, completion.from) + insert + value.slice(caret));
+    setCompletion(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + completion.items.length) % completion.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completion.items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCompletion(null);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <span ref={measureRef} className="invisible absolute font-mono text-sm whitespace-pre" aria-hidden="true">
+        0000000000
+      </span>
+      <textarea
+        ref={textareaRef}
+        className="w-full h-full font-mono text-sm p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onSelect={updateCompletion}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setCompletion(null)}
+        onScroll={() => setCompletion(null)}
+        wrap="off"
+        spellCheck={false}
+      />
+      {completion && (
+        <ul
+          className="absolute z-10 w-72 max-h-60 overflow-auto rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg"
+          style={{ top: completion.top, left: completion.left }}
+          role="listbox"
+        >
+          {completion.items.map((item, index) => (
+            <li
+              key={`${item.name}-${item.detail}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keeps focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(item);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-1 cursor-pointer flex justify-between gap-3 ${index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'}`}
+            >
+              <span className="font-mono truncate">{item.name}</span>
+              <span className="text-xs text-gray-500 truncate">{item.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TemplateCodeEditor;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { User, Phone, Mail, Save, Loader2 } from 'lucide-react';
+import { User, Phone, Mail, Save, Loader2, Activity } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/useAuth';
 
 interface Profile {
   id: string;
@@ -9,44 +10,67 @@ interface Profile {
   email: string;
 }
 
+interface AiUsage {
+  plan_name: string;
+  daily_requests: number;
+  daily_tokens: number;
+  monthly_requests: number;
+  monthly_tokens: number;
+  daily_request_limit: number | null;
+  monthly_request_limit: number | null;
+  daily_token_limit: number | null;
+  monthly_token_limit: number | null;
+  daily_resets_at: string;
+  monthly_resets_at: string;
+}
+
+const UsageMeter: React.FC<{ label: string; used: number; limit: number | null }> = ({ label, used, limit }) => {
+  const percent = limit ? Math.min(100, Math.round((used / limit) * 100)) : 0;
+  const barColor = percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-blue-600';
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">{label}</span>
+        <span className="text-gray-500">
+          {used.toLocaleString('en-IN')} / {limit === null ? 'Unlimited' : limit.toLocaleString('en-IN')}
+        </span>
+      </div>
+      {limit !== null && (
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor} rounded-full`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
 const UserProfile: React.FC = () => {
+  const { user, profile: savedProfile, refreshProfile } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [usage, setUsage] = useState<AiUsage | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const email = user?.email ?? '';
 
   useEffect(() => {
-    loadProfile();
-  }, []);
+    setProfile(savedProfile ? { ...savedProfile, email } : null);
+    setError(savedProfile ? null : 'Failed to load profile');
+  }, [savedProfile, email]);
 
-  const loadProfile = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('No authenticated session');
+  useEffect(() => {
+    const loadUsage = async () => {
+      const { data: usageData, error: usageError } = await supabase.rpc('get_my_ai_usage');
+      if (usageError) {
+        console.error('Error loading AI usage:', usageError);
+      } else {
+        setUsage(usageData);
       }
+    };
 
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', session.user.id)
-        .single();
-
-      if (profileError) throw profileError;
-
-      setProfile({
-        ...profile,
-        email: session.user.email!
-      });
-    } catch (error) {
-      console.error('Error loading profile:', error);
-      setError('Failed to load profile');
-    } finally {
-      setLoading(false);
-    }
-  };
+    loadUsage();
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,9 +79,7 @@ const UserProfile: React.FC = () => {
     setSuccess(null);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
+      if (!user) {
         throw new Error('No authenticated session');
       }
 
@@ -67,10 +89,11 @@ const UserProfile: React.FC = () => {
           full_name: profile?.full_name,
           phone: profile?.phone
         })
-        .eq('id', session.user.id);
+        .eq('id', user.id);
 
       if (updateError) throw updateError;
 
+      await refreshProfile();
       setSuccess('Profile updated successfully!');
     } catch (error) {
       console.error('Error updating profile:', error);
@@ -80,14 +103,6 @@ const UserProfile: React.FC = () => {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md mx-auto">
@@ -189,6 +204,32 @@ const UserProfile: React.FC = () => {
                 )}
               </button>
             </form>
+
+            {usage && (
+              <div className="mt-8 pt-6 border-t border-gray-100">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="flex items-center text-lg font-semibold text-gray-900">
+                    <Activity className="w-5 h-5 mr-2 text-blue-600" />
+                    AI Usage
+                  </h3>
+                  <span className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-full">
+                    {usage.plan_name} plan
+                  </span>
+                </div>
+
+                <div className="space-y-4">
+                  <UsageMeter label="Requests today" used={usage.daily_requests} limit={usage.daily_request_limit} />
+                  <UsageMeter label="Tokens today" used={usage.daily_tokens} limit={usage.daily_token_limit} />
+                  <UsageMeter label="Requests this month" used={usage.monthly_requests} limit={usage.monthly_request_limit} />
+                  <UsageMeter label="Tokens this month" used={usage.monthly_tokens} limit={usage.monthly_token_limit} />
+                </div>
+
+                <p className="mt-4 text-xs text-gray-500">
+                  Daily usage resets {new Date(usage.daily_resets_at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}.
+                  Monthly usage resets {new Date(usage.monthly_resets_at).toLocaleDateString('en-IN', { dateStyle: 'medium' })}.
+                </p>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ApiKeyStatus, loadApiKeyStatus } from '../lib/llm';
+import { AppRole, hasRoleAtLeast } from '../lib/roles';
+import { AuthContext, AuthContextValue, Profile } from './useAuth';
+
+// Everything loaded for the signed-in user, kept together so a view never
+// mixes one user's profile with another's role
+interface UserData {
+  userId: string;
+  role: AppRole;
+  profile: Profile | null;
+  apiKey: ApiKeyStatus | null;
+}
+
+const fetchRole = async (userId: string): Promise<AppRole> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.role as AppRole | undefined) ?? 'client';
+  } catch (error) {
+    console.error('Error fetching user role:', error);
+    return 'client';
+  }
+};
+
+const fetchProfile = async (userId: string): Promise<Profile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, phone, username, email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    return null;
+  }
+};
+
+const fetchApiKey = async (userId: string): Promise<ApiKeyStatus | null> => {
+  try {
+    return await loadApiKeyStatus(userId);
+  } catch (error) {
+    console.error('Error checking API key:', error);
+    return null;
+  }
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [userData, setUserData] = useState<UserData | null>(null);
+  const user = session?.user ?? null;
+  const userId = user?.id;
+  // Results that arrive after a sign-out or a switch of user are dropped
+  const currentUserIdRef = useRef<string | undefined>(undefined);
+  currentUserIdRef.current = userId;
+
+  useEffect(() => {
+    supabase.auth.getSession()
+      .then(({ data: { session }, error }) => {
+        if (error) console.error('Error checking auth status:', error);
+        setSession(session);
+      })
+      .finally(() => setSessionChecked(true));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setSessionChecked(true);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setUserData(null);
+      return;
+    }
+
+    const loadUserData = async () => {
+      const [role, profile, apiKey] = await Promise.all([fetchRole(userId), fetchProfile(userId), fetchApiKey(userId)]);
+      if (currentUserIdRef.current === userId) setUserData({ userId, role, profile, apiKey });
+    };
+
+    loadUserData();
+  }, [userId]);
+
+  const update = useCallback(async <K extends keyof Omit<UserData, 'userId'>>(
+    key: K,
+    load: (userId: string) => Promise<UserData[K]>
+  ) => {
+    if (!userId) return;
+    const value = await load(userId);
+    setUserData(prev => (prev && prev.userId === userId ? { ...prev, [key]: value } : prev));
+  }, [userId]);
+
+  const refreshRole = useCallback(() => update('role', fetchRole), [update]);
+  const refreshProfile = useCallback(() => update('profile', fetchProfile), [update]);
+  const refreshApiKey = useCallback(() => update('apiKey', fetchApiKey), [update]);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error('Error signing out:', error);
+  }, []);
+
+  const current = userData && userData.userId === userId ? userData : null;
+  const role = current?.role ?? 'client';
+  const hasRole = useCallback((required: AppRole) => !!userId && hasRoleAtLeast(role, required), [userId, role]);
+
+  const value: AuthContextValue = {
+    session,
+    user,
+    role,
+    hasRole,
+    profile: current?.profile ?? null,
+    apiKey: current?.apiKey ?? null,
+    loading: !sessionChecked || (!!userId && !current),
+    refreshRole,
+    refreshProfile,
+    refreshApiKey,
+    signOut
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
@@ -0,0 +1,40 @@
+import { createContext, useContext } from 'react';
+import { Session, User } from '@supabase/supabase-js';
+import { ApiKeyStatus } from '../lib/llm';
+import { AppRole } from '../lib/roles';
+
+// Kept out of AuthContext.tsx so that file only exports a component, which
+// fast refresh needs to update it in place
+
+export interface Profile {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  username: string | null;
+  email: string | null;
+}
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  role: AppRole;
+  // True for the role itself and every role above it
+  hasRole: (required: AppRole) => boolean;
+  profile: Profile | null;
+  // The saved AI provider, or null until the user sets one up
+  apiKey: ApiKeyStatus | null;
+  // Until the session and the signed-in user's data are known
+  loading: boolean;
+  refreshRole: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
+  refreshApiKey: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used inside AuthProvider');
+  return context;
+};
@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import { AppRole } from './roles';
+
+export const ADMIN_INVITE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-invite`;
+
+// Where invitation emails link to; must be in the project's redirect allow list
+export const ACCEPT_INVITE_PATH = '/admin/accept-invite';
+
+export interface AdminInvitation {
+  id: string;
+  email: string;
+  role: AppRole;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+}
+
+// Calls the admin-invite edge function with the current session; role
+// changes there are made with the service role after the function's checks.
+const callAdminInvite = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const response = await fetch(ADMIN_INVITE_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Request failed');
+  return data as T;
+};
+
+// Makes the signed-in user the first super admin; fails once any admin exists
+export const bootstrapFirstAdmin = (setupToken: string) =>
+  callAdminInvite<{ role: AppRole }>({ action: 'bootstrap', setupToken });
+
+export const sendAdminInvitation = async (email: string, role: AppRole) => {
+  const { invitation } = await callAdminInvite<{ invitation: AdminInvitation }>({
+    action: 'invite',
+    email,
+    role,
+    redirectTo: `${window.location.origin}${ACCEPT_INVITE_PATH}`
+  });
+  return invitation;
+};
+
+export const acceptAdminInvitation = (token: string) =>
+  callAdminInvite<{ role: AppRole }>({ action: 'accept', token });
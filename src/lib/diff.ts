@@ -0,0 +1,49 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line diff from the longest common subsequence of the two texts. The
+// common start and end are set aside first, so small edits to long
+// templates stay cheap.
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const columns = middleB.length + 1;
+  // lengths[i * columns + j]: common lines of middleA[i..] and middleB[j..]
+  const lengths = new Uint32Array((middleA.length + 1) * columns);
+  for (let i = middleA.length - 1; i >= 0; i--) {
+    for (let j = middleB.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = middleA[i] === middleB[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      lines.push({ type: 'same', text: middleA[i++] });
+      j++;
+    } else if (i < middleA.length && (j === middleB.length || lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+      lines.push({ type: 'removed', text: middleA[i++] });
+    } else {
+      lines.push({ type: 'added', text: middleB[j++] });
+    }
+  }
+  return lines.concat(a.slice(endA).map(text => ({ type: 'same', text })));
+};
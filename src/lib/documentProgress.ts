@@ -0,0 +1,46 @@
+import { FieldValues } from './fields';
+
+// Answers to a document form, kept in the browser so the user can leave
+// and pick up where they stopped
+export interface DocumentProgress {
+  values: FieldValues;
+  // Id of the step the user was on, or REVIEW_STEP_ID
+  stepId: string;
+  // The draft in the user's document library these answers are saved to
+  documentId?: string;
+  savedAt: string;
+}
+
+export const REVIEW_STEP_ID = 'review';
+
+const storageKey = (templateId: string) => `document-progress:${templateId}`;
+
+export const loadProgress = (templateId: string): DocumentProgress | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(templateId)) ?? 'null');
+    if (!saved || typeof saved !== 'object' || typeof saved.values !== 'object' || typeof saved.stepId !== 'string') {
+      return null;
+    }
+    return saved as DocumentProgress;
+  } catch {
+    return null;
+  }
+};
+
+// Storage can be full (signatures are large) or disabled; progress is then
+// simply not kept
+export const saveProgress = (templateId: string, progress: Omit<DocumentProgress, 'savedAt'>) => {
+  try {
+    localStorage.setItem(storageKey(templateId), JSON.stringify({ ...progress, savedAt: new Date().toISOString() }));
+  } catch (error) {
+    console.error('Error saving document progress:', error);
+  }
+};
+
+export const clearProgress = (templateId: string) => {
+  try {
+    localStorage.removeItem(storageKey(templateId));
+  } catch (error) {
+    console.error('Error clearing document progress:', error);
+  }
+};
@@ -0,0 +1,231 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  convertMillimetersToTwip,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  ParagraphChild,
+  Table,
+  TableBorders,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { Alignment, Block, Inline } from './model';
+
+type FileChild = Paragraph | Table;
+
+interface ListContext {
+  level: number;
+  // Numbering instance, so each ordered list starts again at 1
+  instance?: number;
+}
+
+const ORDERED_LIST = 'ordered-list';
+
+// Widest an image without a size of its own is drawn, in pixels
+const MAX_IMAGE_WIDTH = 200;
+
+const ALIGNMENTS = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED
+} as const;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif'> = { png: 'png', jpeg: 'jpg', jpg: 'jpg', gif: 'gif' };
+
+const decodeDataUrl = (src: string) => {
+  const match = src.match(/^data:image\/(\w+);base64,(.*)$/i);
+  const type = match && IMAGE_TYPES[match[1].toLowerCase()];
+  if (!match || !type) return null;
+  const binary = atob(match[2]);
+  return { type, data: Uint8Array.from(binary, char => char.charCodeAt(0)) };
+};
+
+// Pixel size read from the image header, so images keep their proportions
+const naturalSize = (data: Uint8Array, type: 'png' | 'jpg' | 'gif') => {
+  if (type === 'png' && data.length >= 24) {
+    const view = new DataView(data.buffer);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (type === 'gif' && data.length >= 10) {
+    return { width: data[6] | (data[7] << 8), height: data[8] | (data[9] << 8) };
+  }
+  if (type === 'jpg') {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      // Start-of-frame markers carry the size; C4, C8 and CC are not frames
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return {
+          height: (data[offset + 5] << 8) | data[offset + 6],
+          width: (data[offset + 7] << 8) | data[offset + 8]
+        };
+      }
+      offset += 2 + ((data[offset + 2] << 8) | data[offset + 3]);
+    }
+  }
+  return null;
+};
+
+const convertImage = (src: string, width?: number, height?: number): ImageRun | null => {
+  const image = decodeDataUrl(src);
+  if (!image) return null;
+
+  const natural = naturalSize(image.data, image.type) ?? { width: MAX_IMAGE_WIDTH, height: MAX_IMAGE_WIDTH / 3 };
+  const ratio = natural.height / natural.width || 1;
+  const drawnWidth = width ?? (height ? height / ratio : Math.min(natural.width, MAX_IMAGE_WIDTH));
+  return new ImageRun({
+    type: image.type,
+    data: image.data,
+    transformation: { width: Math.round(drawnWidth), height: Math.round(height ?? drawnWidth * ratio) }
+  });
+};
+
+const convertRuns = (runs: Inline[]): ParagraphChild[] =>
+  runs.flatMap<ParagraphChild>(run => {
+    if (run.type === 'break') return [new TextRun({ text: '', break: 1 })];
+    if (run.type === 'image') return convertImage(run.src, run.width, run.height) ?? [];
+    return [new TextRun({
+      text: run.text,
+      bold: run.bold,
+      italics: run.italic,
+      underline: run.underline ? {} : undefined
+    })];
+  });
+
+const alignment = (align?: Alignment) => (align ? ALIGNMENTS[align] : undefined);
+
+const listOptions = (list: ListContext | undefined) => {
+  if (!list) return {};
+  return list.instance === undefined
+    ? { bullet: { level: list.level } }
+    : { numbering: { reference: ORDERED_LIST, level: list.level, instance: list.instance } };
+};
+
+const createConverter = () => {
+  let listInstances = 0;
+
+  // `list` numbers the first paragraph of a list item; the item's later
+  // paragraphs are indented to line up with it
+  const convertBlocks = (blocks: Block[], list?: ListContext): FileChild[] =>
+    blocks.flatMap((block, index): FileChild[] => {
+      const itemOptions = index === 0
+        ? listOptions(list)
+        : list ? { indent: { left: convertMillimetersToTwip(8 * (list.level + 1)) } } : {};
+
+      switch (block.type) {
+        case 'heading':
+          return [new Paragraph({
+            heading: HEADING_LEVELS[block.level - 1],
+            alignment: alignment(block.align),
+            children: convertRuns(block.runs),
+            ...itemOptions
+          })];
+        case 'paragraph':
+          return [new Paragraph({ alignment: alignment(block.align), children: convertRuns(block.runs), ...itemOptions })];
+        case 'list': {
+          const level = list ? list.level + 1 : 0;
+          const instance = block.ordered ? ++listInstances : undefined;
+          return block.items.flatMap(item => convertBlocks(item, { level, instance }));
+        }
+        case 'table':
+          return [new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: block.bordered ? undefined : TableBorders.NONE,
+            rows: block.rows.map(row => new TableRow({
+              tableHeader: row.every(cell => cell.header),
+              children: row.map(cell => {
+                const children = convertBlocks(cell.blocks.filter(child => child.type !== 'pageBreak'));
+                return new TableCell({
+                  columnSpan: cell.colSpan,
+                  width: cell.width ? { size: cell.width, type: WidthType.PERCENTAGE } : undefined,
+                  // Word needs a paragraph in every cell
+                  children: children.length > 0 ? children : [new Paragraph('')]
+                });
+              })
+            }))
+          })];
+        case 'rule':
+          return [new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: '999999', space: 1 } }
+          })];
+        case 'pageBreak':
+          return [new Paragraph({ children: [new PageBreak()] })];
+      }
+    });
+
+  return convertBlocks;
+};
+
+const headingStyle = (size: number) => ({
+  run: { size, bold: true, color: '000000', font: 'Times New Roman' },
+  paragraph: { spacing: { before: 240, after: 120 } }
+});
+
+export const createDocx = (blocks: Block[], title: string) =>
+  new Document({
+    title,
+    styles: {
+      default: {
+        document: {
+          run: { font: 'Times New Roman', size: 24 },
+          paragraph: { spacing: { after: 120, line: 300 } }
+        },
+        heading1: headingStyle(32),
+        heading2: headingStyle(28),
+        heading3: headingStyle(26),
+        heading4: headingStyle(24),
+        heading5: headingStyle(24),
+        heading6: headingStyle(24)
+      }
+    },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN].map((format, level) => ({
+          level,
+          format,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: {
+            paragraph: {
+              indent: { left: convertMillimetersToTwip(8 * (level + 1)), hanging: convertMillimetersToTwip(6) }
+            }
+          }
+        }))
+      }]
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: convertMillimetersToTwip(210), height: convertMillimetersToTwip(297) },
+          margin: {
+            top: convertMillimetersToTwip(20),
+            bottom: convertMillimetersToTwip(20),
+            left: convertMillimetersToTwip(20),
+            right: convertMillimetersToTwip(20)
+          }
+        }
+      },
+      children: createConverter()(blocks)
+    }]
+  });
+
+export const docxBlob = (blocks: Block[], title: string) => Packer.toBlob(createDocx(blocks, title));
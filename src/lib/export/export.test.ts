@@ -0,0 +1,255 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { Packer } from 'docx';
+import pdfMake from 'pdfmake/build/pdfmake';
+import { renderTemplate } from '../template';
+import { createDocx } from './docx';
+import { Block, parseDocumentHtml } from './model';
+import { createPdfDefinition } from './pdf';
+
+const TEMPLATE = `<h1 style="text-align: center">Rent Agreement</h1>
+<p>This agreement is made on {{ date | date:"legal" }} between <strong>{{ landlord | upper }}</strong> and <em>{{ tenant }}</em>.</p>
+<ol>{{#each terms}}<li>{{ this }}</li>{{/each}}</ol>
+<table style="border: 1px solid #000"><tr><th>Item</th><th>Amount</th></tr>{{#each payments}}<tr><td>{{ item }}</td><td>{{ amount | inr }}</td></tr>{{/each}}</table>
+<p style="page-break-before: always">Signed: {{ landlord }}<br>Witness: {{ witness | default:"None" }}</p>
+<hr>`;
+
+const DATA = {
+  date: '2025-04-01',
+  landlord: 'Asha Rao',
+  tenant: 'Vikram Singh',
+  terms: ['Rent is due on the 5th.', 'The deposit is refundable.'],
+  payments: [{ item: 'Monthly rent', amount: 25000 }, { item: 'Deposit', amount: 150000 }]
+};
+
+const blocks = () => parseDocumentHtml(renderTemplate(TEMPLATE, DATA));
+
+const text = (value: string, marks: { bold?: boolean; italic?: boolean } = {}) =>
+  ({ type: 'text', text: value, bold: false, italic: false, underline: false, ...marks });
+
+const cell = (value: string, header = false) => ({
+  blocks: [{ type: 'paragraph', runs: [header ? { type: 'text', text: value, bold: true } : { type: 'text', text: value }] }],
+  colSpan: 1,
+  header
+});
+
+describe('parseDocumentHtml', () => {
+  it('builds the block model of a rendered template', () => {
+    expect(blocks()).toEqual([
+      { type: 'heading', level: 1, align: 'center', runs: [text('Rent Agreement', { bold: true })] },
+      {
+        type: 'paragraph',
+        runs: [
+          text('This agreement is made on 1st day of April, 2025 between '),
+          text('ASHA RAO', { bold: true }),
+          text(' and '),
+          text('Vikram Singh', { italic: true }),
+          text('.')
+        ]
+      },
+      {
+        type: 'list',
+        ordered: true,
+        items: [
+          [{ type: 'paragraph', runs: [text('Rent is due on the 5th.')] }],
+          [{ type: 'paragraph', runs: [text('The deposit is refundable.')] }]
+        ]
+      },
+      {
+        type: 'table',
+        bordered: true,
+        rows: [
+          [cell('Item', true), cell('Amount', true)],
+          [cell('Monthly rent'), cell('₹25,000/-')],
+          [cell('Deposit'), cell('₹1,50,000/-')]
+        ]
+      },
+      { type: 'pageBreak' },
+      {
+        type: 'paragraph',
+        runs: [text('Signed: Asha Rao'), { type: 'break' }, text('Witness: None')]
+      },
+      { type: 'rule' }
+    ]);
+  });
+
+  it('reads alignment and tables without borders', () => {
+    expect(parseDocumentHtml('<p style="text-align: right">x</p><table><tr><td>a</td></tr></table>')).toEqual([
+      { type: 'paragraph', align: 'right', runs: [text('x')] },
+      { type: 'table', bordered: false, rows: [[cell('a')]] }
+    ]);
+  });
+});
+
+describe('createPdfDefinition', () => {
+  const paragraph = (runs: unknown[]) => ({ stack: [{ text: runs }], margin: [0, 0, 0, 6] });
+  const run = (value: string, marks: { bold?: boolean; italics?: boolean; font?: string } = {}) =>
+    ({ text: value, bold: false, italics: false, ...marks });
+  const pdfCell = (value: string, header = false) =>
+    ({ stack: [paragraph([header ? { text: value, bold: true } : { text: value }])] });
+
+  it('converts the blocks to pdfmake content', () => {
+    const { content } = createPdfDefinition(blocks(), 'Rent Agreement');
+    expect(content).toEqual([
+      { stack: [{ text: [run('Rent Agreement', { bold: true })] }], alignment: 'center', bold: true, fontSize: 16, margin: [0, 12, 0, 6] },
+      paragraph([
+        run('This agreement is made on 1st day of April, 2025 between '),
+        run('ASHA RAO', { bold: true }),
+        run(' and '),
+        run('Vikram Singh', { italics: true }),
+        run('.')
+      ]),
+      {
+        ol: [{ stack: [paragraph([run('Rent is due on the 5th.')])] }, { stack: [paragraph([run('The deposit is refundable.')])] }],
+        type: 'decimal',
+        margin: [0, 0, 0, 6]
+      },
+      {
+        table: {
+          widths: ['*', '*'],
+          headerRows: 1,
+          body: [
+            [pdfCell('Item', true), pdfCell('Amount', true)],
+            [pdfCell('Monthly rent'), pdfCell('₹25,000/-')],
+            [pdfCell('Deposit'), pdfCell('₹1,50,000/-')]
+          ]
+        },
+        margin: [0, 4, 0, 8]
+      },
+      { ...paragraph([run('Signed: Asha Rao'), '\n', run('Witness: None')]), pageBreak: 'before' },
+      { canvas: [expect.objectContaining({ type: 'line', x1: 0, y1: 0, y2: 0 })], margin: [0, 6, 0, 6] }
+    ]);
+  });
+
+  it('sets Devanagari and Malayalam text in Noto Sans', () => {
+    const [heading, paragraph] = createPdfDefinition(parseDocumentHtml(
+      '<h1>किराया समझौता</h1><p>Tenant: <strong>ആശ റാവു</strong> (आशा), ₹5,000</p>'
+    ), 'x').content as { stack: { text: unknown[] }[] }[];
+    expect(heading.stack[0].text).toEqual([run('किराया समझौता', { bold: true, font: 'NotoSansDevanagari' })]);
+    expect(paragraph.stack[0].text).toEqual([
+      run('Tenant: '),
+      run('ആശ റാവു', { bold: true, font: 'NotoSansMalayalam' }),
+      run(' ('),
+      run('आशा', { font: 'NotoSansDevanagari' }),
+      run('), ₹5,000')
+    ]);
+  });
+
+  it('embeds the Indic fonts when the PDF is written', async () => {
+    // The app has pdfmake download the fonts; here they are read from disk
+    const file = (script: string) => readFileSync(createRequire(import.meta.url)
+      .resolve(`@fontsource/noto-sans-${script}/files/noto-sans-${script}-${script}-400-normal.woff`)).toString('base64');
+    pdfMake.addVirtualFileSystem({ 'devanagari.woff': file('devanagari'), 'malayalam.woff': file('malayalam') });
+    pdfMake.addFonts({
+      NotoSansDevanagari: { normal: 'devanagari.woff' },
+      NotoSansMalayalam: { normal: 'malayalam.woff' }
+    });
+
+    const definition = createPdfDefinition(parseDocumentHtml('<p>किराया / വാടക / Rent</p>'), 'Rent');
+    const pdf = (await pdfMake.createPdf(definition).getBuffer()).toString('latin1');
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]+\+NotoSansDevanagari/);
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]+\+NotoSansMalayalam/);
+  });
+
+  it('draws tables without borders without lines', () => {
+    const [table] = createPdfDefinition(parseDocumentHtml('<table><tr><td>a</td></tr></table>'), 'x').content as object[];
+    expect(table).toMatchObject({ layout: 'noBorders' });
+  });
+
+  it('applies the page layout and draft watermark', () => {
+    const plain = createPdfDefinition(blocks(), 'Rent Agreement');
+    expect(plain.info).toEqual({ title: 'Rent Agreement' });
+    expect(plain.pageSize).toBe('A4');
+    expect(plain.watermark).toBeUndefined();
+
+    const letterhead = createPdfDefinition(blocks(), 'Rent Agreement', { layout: 'letterhead', draft: true });
+    const content = letterhead.content as object[];
+    expect(content).toHaveLength(7);
+    expect(content[0]).toMatchObject({ alignment: 'center', margin: [0, 0, 0, 12] });
+    expect(content[1]).toEqual((plain.content as object[])[0]);
+    expect(letterhead.watermark).toMatchObject({ text: 'DRAFT' });
+
+    const stampPaper = createPdfDefinition(blocks(), 'Rent Agreement', { layout: 'stampPaper' });
+    expect((stampPaper.content as object[])[0]).toMatchObject({ text: '' });
+  });
+});
+
+describe('createDocx', () => {
+  const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+  const documentXml = async (content: Block[]) => {
+    const zip = await JSZip.loadAsync(await Packer.toBuffer(createDocx(content, 'Rent Agreement')));
+    const xml = await zip.file('word/document.xml')!.async('string');
+    return new DOMParser().parseFromString(xml, 'application/xml');
+  };
+
+  const children = (element: Element, name: string) =>
+    Array.from(element.children).filter(child => child.namespaceURI === W && child.localName === name);
+
+  const property = (element: Element, path: string[]) =>
+    path.reduce<Element | undefined>((parent, name) => parent && children(parent, name)[0], element)?.getAttributeNS(W, 'val') ?? null;
+
+  const textOf = (element: Element) =>
+    Array.from(element.getElementsByTagNameNS(W, 't')).map(node => node.textContent).join('');
+
+  const describeParagraph = (paragraph: Element) => ({
+    text: textOf(paragraph),
+    style: property(paragraph, ['pPr', 'pStyle']),
+    align: property(paragraph, ['pPr', 'jc']),
+    numbering: property(paragraph, ['pPr', 'numPr', 'ilvl']),
+    pageBreak: Array.from(paragraph.getElementsByTagNameNS(W, 'br')).some(br => br.getAttributeNS(W, 'type') === 'page')
+  });
+
+  it('writes the paragraphs and tables of the document', async () => {
+    const body = (await documentXml(blocks())).getElementsByTagNameNS(W, 'body')[0];
+    const content = Array.from(body.children).filter(child => child.localName !== 'sectPr');
+    expect(content.map(child => (child.localName === 'tbl' ? '<table>' : textOf(child)))).toEqual([
+      'Rent Agreement',
+      'This agreement is made on 1st day of April, 2025 between ASHA RAO and Vikram Singh.',
+      'Rent is due on the 5th.',
+      'The deposit is refundable.',
+      '<table>',
+      '',
+      'Signed: Asha RaoWitness: None',
+      ''
+    ]);
+
+    const [heading, , firstTerm, secondTerm, table, pageBreak, signature] = content;
+    expect(describeParagraph(heading)).toMatchObject({ style: 'Heading1', align: 'center' });
+    expect(describeParagraph(firstTerm).numbering).toBe('0');
+    expect(describeParagraph(secondTerm).numbering).toBe('0');
+    expect(describeParagraph(pageBreak).pageBreak).toBe(true);
+    expect(signature.getElementsByTagNameNS(W, 'br')).toHaveLength(1);
+
+    const rows = children(table, 'tr').map(row => children(row, 'tc').map(textOf));
+    expect(rows).toEqual([
+      ['Item', 'Amount'],
+      ['Monthly rent', '₹25,000/-'],
+      ['Deposit', '₹1,50,000/-']
+    ]);
+  });
+
+  it('keeps the marks of each run', async () => {
+    const body = (await documentXml(blocks())).getElementsByTagNameNS(W, 'body')[0];
+    // Marks that are off are written as <w:b w:val="false"/>
+    const mark = (run: Element, name: string) => {
+      const value = property(run, ['rPr', name]);
+      return children(run, 'rPr').some(rPr => children(rPr, name).length > 0) && value !== 'false' && value !== '0';
+    };
+    const runs = children(children(body, 'p')[1], 'r').map(run => ({
+      text: textOf(run),
+      bold: mark(run, 'b'),
+      italic: mark(run, 'i')
+    }));
+    expect(runs).toEqual([
+      { text: 'This agreement is made on 1st day of April, 2025 between ', bold: false, italic: false },
+      { text: 'ASHA RAO', bold: true, italic: false },
+      { text: ' and ', bold: false, italic: false },
+      { text: 'Vikram Singh', bold: false, italic: true },
+      { text: '.', bold: false, italic: false }
+    ]);
+  });
+});
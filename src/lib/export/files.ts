@@ -0,0 +1,14 @@
+// e.g. "Rent Agreement" -> "Rent_Agreement.pdf"
+export const documentFileName = (title: string, extension: string) =>
+  `${title.trim().replace(/\s+/g, '_') || 'document'}.${extension}`;
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
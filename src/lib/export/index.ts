@@ -0,0 +1,24 @@
+import { docxBlob } from './docx';
+import { documentFileName, saveBlob } from './files';
+import { parseDocumentHtml } from './model';
+import { pdfBlob, PdfOptions } from './pdf';
+
+// Downloads of generated documents. PDF and Word files are both laid out
+// from a block model read from the document HTML, so their text stays
+// selectable and editable.
+
+export { documentFileName } from './files';
+export { PDF_LAYOUTS } from './pdf';
+export type { PdfLayout, PdfOptions } from './pdf';
+export { parseDocumentHtml } from './model';
+export type { Alignment, Block, ImageRun, Inline, TableCell, TextRun } from './model';
+
+export const downloadPdf = async (html: string, title: string, options?: PdfOptions) => {
+  const blob = await pdfBlob(parseDocumentHtml(html), title, options);
+  saveBlob(blob, documentFileName(title, 'pdf'));
+};
+
+export const downloadDocx = async (html: string, title: string) => {
+  const blob = await docxBlob(parseDocumentHtml(html), title);
+  saveBlob(blob, documentFileName(title, 'docx'));
+};
@@ -0,0 +1,7 @@
+// Firm details printed at the top of the first page of letterhead PDFs
+export const FIRM_LETTERHEAD = {
+  name: 'Finacco Solutions',
+  address: ['Mecca Tower, 2nd Floor', 'Court Road, Near Sree Krishna Theatre', 'Manjeri, Kerala-676521'],
+  phone: '+91 8590000761',
+  email: 'contact@finaccosolutions.com'
+};
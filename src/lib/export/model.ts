@@ -0,0 +1,265 @@
+// Document HTML (rendered templates and generated chat documents, after
+// sanitizeHtml) read into a small block model that the exporters lay out
+// themselves, instead of rasterising the page.
+
+export type Alignment = 'left' | 'center' | 'right' | 'justify';
+
+export interface TextRun {
+  type: 'text';
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+// Embedded images, e.g. signatures; sizes in CSS pixels when given
+export interface ImageRun {
+  type: 'image';
+  src: string;
+  width?: number;
+  height?: number;
+}
+
+export type Inline = TextRun | ImageRun | { type: 'break' };
+
+export interface TableCell {
+  blocks: Block[];
+  colSpan: number;
+  // Percentage of the table width
+  width?: number;
+  header: boolean;
+}
+
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; align?: Alignment; runs: Inline[] }
+  | { type: 'paragraph'; align?: Alignment; runs: Inline[] }
+  | { type: 'list'; ordered: boolean; items: Block[][] }
+  | { type: 'table'; bordered: boolean; rows: TableCell[][] }
+  | { type: 'rule' }
+  | { type: 'pageBreak' };
+
+interface Marks {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'meta', 'link', 'template']);
+
+const CONTAINER_TAGS = new Set(['article', 'blockquote', 'body', 'div', 'footer', 'header', 'main', 'section']);
+
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS, 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'ol', 'p', 'pre', 'table', 'ul'
+]);
+
+const parseStyle = (element: Element): Record<string, string> =>
+  Object.fromEntries(
+    (element.getAttribute('style') ?? '')
+      .split(';')
+      .map(declaration => declaration.split(':').map(part => part.trim().toLowerCase()))
+      .filter(([property, value]) => property && value)
+  );
+
+const alignmentOf = (element: Element): Alignment | undefined => {
+  const value = parseStyle(element)['text-align'] ?? element.getAttribute('align')?.toLowerCase();
+  if (value === 'left' || value === 'center' || value === 'right' || value === 'justify') return value;
+  if (value === 'start') return 'left';
+  if (value === 'end') return 'right';
+  return undefined;
+};
+
+const breaksPageBefore = (element: Element) => {
+  const style = parseStyle(element);
+  return style['page-break-before'] === 'always' || style['break-before'] === 'page' ||
+    element.classList.contains('page-break');
+};
+
+const breaksPageAfter = (element: Element) => {
+  const style = parseStyle(element);
+  return style['page-break-after'] === 'always' || style['break-after'] === 'page';
+};
+
+const hasBorder = (element: Element) => {
+  const style = parseStyle(element);
+  return ['border', 'border-top', 'border-bottom', 'border-left', 'border-right'].some(property => {
+    const value = style[property];
+    return value !== undefined && !/^(none|0(px)?|hidden)\b/.test(value);
+  });
+};
+
+const isBold = (element: Element) => {
+  const weight = parseStyle(element)['font-weight'];
+  return weight === 'bold' || weight === 'bolder' || Number(weight) >= 600;
+};
+
+const toPixels = (value: string | null | undefined) => {
+  const number = parseFloat(value ?? '');
+  return isNaN(number) || /%$/.test(value ?? '') ? undefined : number;
+};
+
+const toPercent = (value: string | null | undefined) => {
+  const match = value?.match(/^(\d+(\.\d+)?)%$/);
+  return match ? Number(match[1]) : undefined;
+};
+
+const marksFor = (element: Element, marks: Marks): Marks => {
+  const tag = element.tagName.toLowerCase();
+  return {
+    bold: marks.bold || tag === 'strong' || tag === 'b' || tag === 'th' || /^h[1-6]$/.test(tag) || isBold(element),
+    italic: marks.italic || tag === 'em' || tag === 'i' || parseStyle(element)['font-style'] === 'italic',
+    underline: marks.underline || tag === 'u' || (parseStyle(element)['text-decoration'] ?? '').includes('underline')
+  };
+};
+
+// Whitespace collapses as in the browser; leading and trailing spaces of a
+// paragraph and spaces around line breaks are dropped
+const tidyRuns = (runs: Inline[]): Inline[] => {
+  const merged: Inline[] = [];
+  for (const run of runs) {
+    const previous = merged[merged.length - 1];
+    if (run.type === 'text' && previous?.type === 'text' &&
+        previous.bold === run.bold && previous.italic === run.italic && previous.underline === run.underline) {
+      previous.text += run.text;
+    } else {
+      merged.push(run.type === 'text' ? { ...run } : run);
+    }
+  }
+
+  merged.forEach((run, index) => {
+    if (run.type !== 'text') return;
+    run.text = run.text.replace(/\s+/g, ' ');
+    const before = merged[index - 1];
+    const after = merged[index + 1];
+    if (!before || before.type === 'break' || (before.type === 'text' && before.text.endsWith(' '))) {
+      run.text = run.text.trimStart();
+    }
+    if (!after || after.type === 'break') run.text = run.text.trimEnd();
+  });
+
+  const result = merged.filter(run => run.type !== 'text' || run.text !== '');
+  while (result[result.length - 1]?.type === 'break') result.pop();
+  return result;
+};
+
+const hasContent = (runs: Inline[]) => runs.some(run => run.type !== 'break');
+
+const parseInline = (node: Node, marks: Marks, runs: Inline[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    runs.push({ type: 'text', text: node.textContent ?? '', ...marks });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return;
+
+  if (tag === 'br') {
+    runs.push({ type: 'break' });
+  } else if (tag === 'img') {
+    const src = element.getAttribute('src');
+    if (src) {
+      const style = parseStyle(element);
+      runs.push({
+        type: 'image',
+        src,
+        width: toPixels(style.width ?? element.getAttribute('width')),
+        height: toPixels(style.height ?? element.getAttribute('height'))
+      });
+    }
+  } else {
+    const childMarks = marksFor(element, marks);
+    element.childNodes.forEach(child => parseInline(child, childMarks, runs));
+  }
+};
+
+const parseTable = (table: Element): Block => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row =>
+      Array.from(row.children)
+        .filter(cell => /^t[dh]$/i.test(cell.tagName))
+        .map(cell => {
+          const header = cell.tagName.toLowerCase() === 'th';
+          const blocks = parseBlocks(cell, header ? { bold: true } : {});
+          return {
+            blocks,
+            colSpan: Math.max(1, Number(cell.getAttribute('colspan')) || 1),
+            width: toPercent(parseStyle(cell).width ?? cell.getAttribute('width')),
+            header
+          };
+        })
+    )
+    .filter(row => row.length > 0);
+
+  const bordered = hasBorder(table) ||
+    Array.from(table.querySelectorAll('td, th')).some(cell => cell.closest('table') === table && hasBorder(cell));
+  return { type: 'table', bordered, rows };
+};
+
+// Reads a container's children as blocks, gathering loose text and inline
+// elements between blocks into paragraphs
+const parseBlocks = (container: Element, marks: Marks = {}, align?: Alignment): Block[] => {
+  const blocks: Block[] = [];
+  let pending: Inline[] = [];
+
+  const flush = () => {
+    const runs = tidyRuns(pending);
+    if (hasContent(runs)) blocks.push({ type: 'paragraph', align, runs });
+    pending = [];
+  };
+
+  container.childNodes.forEach(node => {
+    const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : null;
+    const tag = element?.tagName.toLowerCase();
+    if (!element || !tag || !BLOCK_TAGS.has(tag)) {
+      parseInline(node, marks, pending);
+      return;
+    }
+
+    flush();
+    if (breaksPageBefore(element) && blocks.length > 0) blocks.push({ type: 'pageBreak' });
+    const elementAlign = alignmentOf(element) ?? align;
+    const elementMarks = marksFor(element, marks);
+
+    if (/^h[1-6]$/.test(tag)) {
+      const runs: Inline[] = [];
+      element.childNodes.forEach(child => parseInline(child, elementMarks, runs));
+      const tidied = tidyRuns(runs);
+      if (hasContent(tidied)) {
+        blocks.push({ type: 'heading', level: Number(tag[1]) as 1 | 2 | 3 | 4 | 5 | 6, align: elementAlign, runs: tidied });
+      }
+    } else if (tag === 'p' || tag === 'pre') {
+      const runs: Inline[] = [];
+      element.childNodes.forEach(child => parseInline(child, elementMarks, runs));
+      const tidied = tidyRuns(runs);
+      if (hasContent(tidied)) blocks.push({ type: 'paragraph', align: elementAlign, runs: tidied });
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(element.children)
+        .filter(child => child.tagName.toLowerCase() === 'li')
+        .map(item => parseBlocks(item, elementMarks, elementAlign))
+        .filter(item => item.length > 0);
+      if (items.length > 0) blocks.push({ type: 'list', ordered: tag === 'ol', items });
+    } else if (tag === 'table') {
+      const table = parseTable(element);
+      if (table.type === 'table' && table.rows.length > 0) blocks.push(table);
+    } else if (tag === 'hr') {
+      blocks.push({ type: 'rule' });
+    } else {
+      blocks.push(...parseBlocks(element, elementMarks, elementAlign));
+    }
+
+    if (breaksPageAfter(element)) blocks.push({ type: 'pageBreak' });
+  });
+
+  flush();
+  return blocks;
+};
+
+// Accepts fragments or full HTML documents
+export const parseDocumentHtml = (html: string): Block[] => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks = parseBlocks(body);
+  while (blocks[blocks.length - 1]?.type === 'pageBreak') blocks.pop();
+  return blocks;
+};
@@ -0,0 +1,230 @@
+import devanagari from '@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-400-normal.woff?url';
+import devanagariBold from '@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-700-normal.woff?url';
+import malayalam from '@fontsource/noto-sans-malayalam/files/noto-sans-malayalam-malayalam-400-normal.woff?url';
+import malayalamBold from '@fontsource/noto-sans-malayalam/files/noto-sans-malayalam-malayalam-700-normal.woff?url';
+import pdfMake from 'pdfmake/build/pdfmake';
+import pdfFonts from 'pdfmake/build/vfs_fonts';
+import type { Content, TableCell as PdfTableCell, TDocumentDefinitions } from 'pdfmake/interfaces';
+import { FIRM_LETTERHEAD } from './letterhead';
+import { Block, Inline } from './model';
+
+pdfMake.addVirtualFileSystem(pdfFonts);
+
+// plain: margins only; letterhead: firm details above the first page;
+// stampPaper: the first page starts below the printed stamp
+export type PdfLayout = 'plain' | 'letterhead' | 'stampPaper';
+
+export interface PdfOptions {
+  layout?: PdfLayout;
+  // Marks every page with a "DRAFT" watermark
+  draft?: boolean;
+}
+
+export const PDF_LAYOUTS: { value: PdfLayout; label: string }[] = [
+  { value: 'plain', label: 'Plain' },
+  { value: 'letterhead', label: 'Firm letterhead' },
+  { value: 'stampPaper', label: 'Stamp paper' }
+];
+
+const mm = (value: number) => (value * 72) / 25.4;
+
+const PAGE_WIDTH = mm(210);
+const MARGIN = mm(20);
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Where text starts on stamp paper; the upper part carries the printed stamp
+const STAMP_PAPER_TOP = mm(110);
+
+// Widest an image without a size of its own is drawn, in points
+const MAX_IMAGE_WIDTH = 150;
+
+const HEADING_SIZES = [16, 14, 13, 12, 12, 12];
+
+const ORDERED_LIST_TYPES = ['decimal', 'lower-alpha', 'lower-roman'] as const;
+
+// CSS pixels to points
+const px = (value: number) => value * 0.75;
+
+// Roboto, pdfmake's own font, has no Devanagari or Malayalam letters, so
+// text in those scripts is set in Noto Sans
+const SCRIPT_FONTS = [
+  { font: 'NotoSansDevanagari', letters: /[\u0900-\u097F\uA8E0-\uA8FF]/ },
+  { font: 'NotoSansMalayalam', letters: /[\u0D00-\u0D7F]/ }
+];
+
+// A stretch of one script, with the joiners that shape its letters and the
+// spaces between its words
+const SCRIPT_STRETCH = new RegExp(`(${SCRIPT_FONTS.map(({ letters: { source } }) =>
+  `${source}(?:${source}|[\u200C\u200D]|\\s+(?=${source}))*`).join('|')})`);
+
+const splitByScript = (text: string) =>
+  text.split(SCRIPT_STRETCH).filter(Boolean).map(part => ({
+    text: part,
+    font: SCRIPT_FONTS.find(({ letters }) => letters.test(part[0]))?.font
+  }));
+
+// pdfmake downloads fonts outside its virtual file system by absolute URL.
+// Noto Sans has no italics for these scripts.
+const fontFiles = (normal: string, bold: string) => {
+  const url = (path: string) => new URL(path, window.location.href).href;
+  return { normal: url(normal), bold: url(bold), italics: url(normal), bolditalics: url(bold) };
+};
+
+const rule = (color = '#999999'): Content => ({
+  canvas: [{ type: 'line', x1: 0, y1: 0, x2: CONTENT_WIDTH, y2: 0, lineWidth: 0.5, lineColor: color }],
+  margin: [0, 6, 0, 6]
+});
+
+// Text runs are laid out together; images (pdfmake cannot place them inside
+// a line of text) get a line of their own
+const convertRuns = (runs: Inline[]): Content[] => {
+  const contents: Content[] = [];
+  let text: Content[] = [];
+
+  const flush = () => {
+    if (text.length > 0) contents.push({ text });
+    text = [];
+  };
+
+  runs.forEach(run => {
+    if (run.type === 'break') {
+      text.push('\n');
+    } else if (run.type === 'text') {
+      text.push(...splitByScript(run.text).map(part => ({
+        ...part,
+        bold: run.bold,
+        italics: run.italic,
+        decoration: run.underline ? 'underline' as const : undefined
+      })));
+    } else if (/^data:image\/(png|jpe?g);/i.test(run.src)) {
+      flush();
+      contents.push(run.width
+        ? { image: run.src, width: px(run.width) }
+        : run.height
+          ? { image: run.src, height: px(run.height) }
+          : { image: run.src, fit: [MAX_IMAGE_WIDTH, MAX_IMAGE_WIDTH] });
+    }
+  });
+  flush();
+  return contents;
+};
+
+const createConverter = () => {
+  const convertTable = (block: Extract<Block, { type: 'table' }>, listLevel: number): Content => {
+    const columns = Math.max(...block.rows.map(row => row.reduce((count, cell) => count + cell.colSpan, 0)));
+
+    // pdfmake wants every row to have a cell per column, with spanned
+    // columns filled by empty cells
+    const body = block.rows.map(row => {
+      const cells: PdfTableCell[] = [];
+      row.forEach(cell => {
+        const stack = convertBlocks(cell.blocks.filter(child => child.type !== 'pageBreak'), listLevel);
+        cells.push({ stack: stack.length > 0 ? stack : [''], colSpan: cell.colSpan > 1 ? cell.colSpan : undefined });
+        for (let spanned = 1; spanned < cell.colSpan; spanned++) cells.push({});
+      });
+      while (cells.length < columns) cells.push({});
+      return cells;
+    });
+
+    const sized = block.rows.find(row => row.length === columns && row.every(cell => cell.width));
+    const headerRows = block.rows.findIndex(row => !row.every(cell => cell.header));
+
+    return {
+      table: {
+        widths: sized ? sized.map(cell => `${cell.width}%`) : Array(columns).fill('*'),
+        headerRows: headerRows === -1 ? block.rows.length : headerRows,
+        body
+      },
+      layout: block.bordered ? undefined : 'noBorders',
+      margin: [0, 4, 0, 8]
+    };
+  };
+
+  const convertBlock = (block: Block, listLevel: number): Content[] => {
+    switch (block.type) {
+      case 'heading':
+        return [{
+          stack: convertRuns(block.runs),
+          alignment: block.align,
+          bold: true,
+          fontSize: HEADING_SIZES[block.level - 1],
+          margin: [0, 12, 0, 6]
+        }];
+      case 'paragraph':
+        return [{ stack: convertRuns(block.runs), alignment: block.align, margin: [0, 0, 0, 6] }];
+      case 'list': {
+        const items = block.items.map(item => ({ stack: convertBlocks(item, listLevel + 1) }));
+        return [block.ordered
+          ? { ol: items, type: ORDERED_LIST_TYPES[listLevel % ORDERED_LIST_TYPES.length], margin: [0, 0, 0, 6] }
+          : { ul: items, margin: [0, 0, 0, 6] }];
+      }
+      case 'table':
+        return [convertTable(block, listLevel)];
+      case 'rule':
+        return [rule()];
+      case 'pageBreak':
+        return [];
+    }
+  };
+
+  // A page break is carried by the block that follows it
+  const convertBlocks = (blocks: Block[], listLevel = 0): Content[] => {
+    const contents: Content[] = [];
+    let breakBefore = false;
+    blocks.forEach(block => {
+      if (block.type === 'pageBreak') {
+        breakBefore = contents.length > 0;
+        return;
+      }
+      const [first, ...rest] = convertBlock(block, listLevel);
+      if (!first) return;
+      contents.push(breakBefore ? { ...(first as object), pageBreak: 'before' } as Content : first, ...rest);
+      breakBefore = false;
+    });
+    return contents;
+  };
+
+  return convertBlocks;
+};
+
+const letterhead = (): Content => ({
+  stack: [
+    { text: FIRM_LETTERHEAD.name, fontSize: 18, bold: true, color: '#1e3a8a' },
+    { text: FIRM_LETTERHEAD.address.join(', '), fontSize: 9, color: '#4b5563', margin: [0, 2, 0, 0] },
+    { text: `Phone: ${FIRM_LETTERHEAD.phone}  |  Email: ${FIRM_LETTERHEAD.email}`, fontSize: 9, color: '#4b5563' },
+    rule('#1e3a8a')
+  ],
+  alignment: 'center',
+  margin: [0, 0, 0, 12]
+});
+
+export const createPdfDefinition = (blocks: Block[], title: string, options: PdfOptions = {}): TDocumentDefinitions => {
+  const content = createConverter()(blocks);
+  if (options.layout === 'letterhead') content.unshift(letterhead());
+  if (options.layout === 'stampPaper') content.unshift({ text: '', margin: [0, STAMP_PAPER_TOP - MARGIN, 0, 0] });
+
+  return {
+    info: { title },
+    pageSize: 'A4',
+    pageMargins: [MARGIN, MARGIN, MARGIN, MARGIN],
+    watermark: options.draft ? { text: 'DRAFT', opacity: 0.12, bold: true } : undefined,
+    footer: (currentPage, pageCount) => ({
+      columns: [
+        { text: splitByScript(title), color: '#6b7280' },
+        { text: `Page ${currentPage} of ${pageCount}`, alignment: 'right', color: '#6b7280' }
+      ],
+      fontSize: 9,
+      margin: [MARGIN, mm(8), MARGIN, 0]
+    }),
+    content,
+    defaultStyle: { fontSize: 11, lineHeight: 1.25 }
+  };
+};
+
+export const pdfBlob = (blocks: Block[], title: string, options?: PdfOptions) => {
+  pdfMake.addFonts({
+    NotoSansDevanagari: fontFiles(devanagari, devanagariBold),
+    NotoSansMalayalam: fontFiles(malayalam, malayalamBold)
+  });
+  return pdfMake.createPdf(createPdfDefinition(blocks, title, options)).getBlob();
+};
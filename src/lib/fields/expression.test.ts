@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, ExpressionError } from './expression';
+
+const values: Record<string, unknown> = {
+  monthly_rent: 25000,
+  months: 11,
+  deposit: 'yes',
+  advance: '₹1,50,000',
+  note: '',
+  address: { city: 'Kochi' },
+  partners: [{ share: '60' }, { share: 40 }, { share: 'TBD' }]
+};
+const evaluate = (source: string) =>
+  compileExpression(source).evaluate(([name, ...rest]) =>
+    rest.reduce<unknown>((value, key) => (value as Record<string, unknown>)?.[key], values[name]));
+
+const errorOf = (source: string) => {
+  try {
+    compileExpression(source);
+  } catch (error) {
+    if (error instanceof ExpressionError) return { message: error.message, column: error.column };
+    throw error;
+  }
+  return null;
+};
+
+describe('operators', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['24 / 4 / 2', 3],
+    ['17 % 5 * 2', 4],
+    ['-2 * 3', -6],
+    ['- (2 + 3)', -5],
+    ['1 + 2 > 2', true],
+    ['1 < 2 == 2 < 3', true],
+    ['true or false and false', true],
+    ['(true or false) and false', false],
+    ['not false and false', false],
+    ['!(months > 6)', false],
+    ['months > 6 ? "long" : "short"', 'long'],
+    ['months > 12 ? "long" : months > 6 ? "medium" : "short"', 'medium'],
+    ['monthly_rent * months', 275000],
+    ['.5 * 4', 2]
+  ])('%s', (source, expected) => {
+    expect(evaluate(source)).toBe(expected);
+  });
+
+  it('reads numbers written with rupee signs and commas', () => {
+    expect(evaluate('advance / monthly_rent')).toBe(6);
+    expect(evaluate('advance == 150000')).toBe(true);
+  });
+
+  it('compares numbers numerically and anything else as text', () => {
+    expect(evaluate('months == "11"')).toBe(true);
+    expect(evaluate('deposit == "yes"')).toBe(true);
+    expect(evaluate('deposit != "Yes"')).toBe(true);
+    expect(evaluate('missing == ""')).toBe(true);
+    expect(evaluate('missing == null')).toBe(true);
+    expect(evaluate('deposit > 1')).toBe(false);
+    expect(evaluate('deposit <= 1')).toBe(false);
+  });
+
+  it('joins text with +', () => {
+    expect(evaluate('"Flat " + 4')).toBe('Flat 4');
+    expect(evaluate('address.city + ", Kerala"')).toBe('Kochi, Kerala');
+    expect(evaluate('missing + "x"')).toBe('x');
+  });
+
+  it('uses the truthiness of text, numbers and lists', () => {
+    expect(evaluate('note or "none"')).toBe(true);
+    expect(evaluate('note ? "a" : "b"')).toBe('b');
+    expect(evaluate('missing ? "a" : "b"')).toBe('b');
+    expect(evaluate('partners ? "a" : "b"')).toBe('a');
+    expect(evaluate('0 ? "a" : "b"')).toBe('b');
+    expect(evaluate('!missing')).toBe(true);
+  });
+
+  it('gives Infinity and NaN for division by zero and arithmetic on text', () => {
+    expect(evaluate('monthly_rent / 0')).toBe(Infinity);
+    expect(evaluate('0 / 0')).toBeNaN();
+    expect(evaluate('months % 0')).toBeNaN();
+    expect(evaluate('deposit * 2')).toBeNaN();
+    expect(evaluate('missing - 1')).toBeNaN();
+  });
+});
+
+describe('functions', () => {
+  it.each([
+    ['round(2.5)', 3],
+    ['round(1234.567, 2)', 1234.57],
+    ['round(monthly_rent * months * 0.01)', 2750],
+    ['floor(-1.5)', -2],
+    ['ceil("1.2")', 2],
+    ['abs(-monthly_rent)', 25000],
+    ['min(monthly_rent, 30000, advance)', 25000],
+    ['max(monthly_rent, 30000)', 30000],
+    ['count(partners)', 3],
+    ['count(missing)', 0],
+    ['sum(partners, "share")', 100],
+    ['sum(missing, "share")', 0]
+  ])('%s', (source, expected) => {
+    expect(evaluate(source)).toBe(expected);
+  });
+
+  it('gives NaN for values that are not numbers', () => {
+    expect(evaluate('round(deposit)')).toBeNaN();
+    expect(evaluate('max()')).toBe(-Infinity);
+  });
+});
+
+describe('compileExpression', () => {
+  it('lists the fields an expression refers to', () => {
+    expect(compileExpression('round(rent * months) + address.city ? a : b').references).toEqual([
+      { name: 'rent', column: 7 },
+      { name: 'months', column: 14 },
+      { name: 'address', column: 24 },
+      { name: 'a', column: 39 },
+      { name: 'b', column: 43 }
+    ]);
+  });
+
+  it('reads inherited property names as field names', () => {
+    expect(compileExpression('constructor == "x" or toString').references).toEqual([
+      { name: 'constructor', column: 1 },
+      { name: 'toString', column: 23 }
+    ]);
+  });
+
+  it.each([
+    ['shout(name)', "Unknown function 'shout'", 1],
+    ['1 + constructor(2)', "Unknown function 'constructor'", 5],
+    ['name == "yes', 'Unterminated string', 9],
+    ['rent # 2', "Unexpected character '#'", 6],
+    ['round(rent', "Expected ')'", 11],
+    ['(rent + 1', "Expected ')'", 10],
+    ['a ? b', "Expected ':'", 6],
+    ['rent *', 'Expression ends unexpectedly', 7],
+    ['rent months', "Unexpected 'months'", 6],
+    ['* 2', "Unexpected '*'", 1]
+  ])('%j is invalid', (source, message, column) => {
+    expect(errorOf(source)).toEqual({ message, column });
+  });
+});
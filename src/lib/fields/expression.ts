@@ -0,0 +1,271 @@
+// Small expression language for `visibleIf` and `compute` on template fields,
+// e.g. `deposit == "yes"` or `round(monthly_rent * months * 0.01)`.
+// Expressions are parsed into a tree and interpreted; nothing is eval'd.
+
+export class ExpressionError extends Error {
+  column: number;
+
+  constructor(message: string, column: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.column = column;
+  }
+}
+
+type Node =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; path: string[]; column: number }
+  | { type: 'unary'; operator: '!' | '-'; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; then: Node; otherwise: Node }
+  | { type: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator';
+  value: string;
+  column: number;
+}
+
+export type Lookup = (path: string[]) => unknown;
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ',', '?', ':'];
+
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+// Binding power of binary operators; higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '==': 3, '!=': 3, '<': 4, '<=': 4, '>': 4, '>=': 4, '+': 5, '-': 5, '*': 6, '/': 6, '%': 6
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Number(value.replace(/[₹,\s]/g, ''));
+};
+
+// Blank text, empty lists, zero and NaN are false, as in template conditionals
+export const isTruthy = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (typeof value === 'number') return !isNaN(value) && value !== 0;
+  return Boolean(value);
+};
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  round: (value, digits = 0) => {
+    const factor = 10 ** toNumber(digits);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  floor: value => Math.floor(toNumber(value)),
+  ceil: value => Math.ceil(toNumber(value)),
+  abs: value => Math.abs(toNumber(value)),
+  min: (...values) => Math.min(...values.map(toNumber)),
+  max: (...values) => Math.max(...values.map(toNumber)),
+  // count(group) and sum(group, "field") over repeatable rows
+  count: list => (Array.isArray(list) ? list.length : 0),
+  sum: (list, field) =>
+    Array.isArray(list)
+      ? list.reduce<number>((total, row) => total + (toNumber((row as Record<string, unknown>)?.[String(field)]) || 0), 0)
+      : 0
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const column = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new ExpressionError('Unterminated string', column);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), column });
+      i = end + 1;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+/)!;
+      tokens.push({ type: 'number', value: match[0], column });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/)!;
+      tokens.push(
+        Object.hasOwn(KEYWORD_OPERATORS, match[0])
+          ? { type: 'operator', value: KEYWORD_OPERATORS[match[0]], column }
+          : { type: 'identifier', value: match[0], column }
+      );
+      i += match[0].length;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (!operator) throw new ExpressionError(`Unexpected character '${char}'`, column);
+      tokens.push({ type: 'operator', value: operator, column });
+      i += operator.length;
+    }
+  }
+
+  return tokens;
+};
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endColumn = source.length + 1;
+
+  const expect = (value: string) => {
+    const token = tokens[index++];
+    if (token?.type !== 'operator' || token.value !== value) {
+      throw new ExpressionError(`Expected '${value}'`, token?.column ?? endColumn);
+    }
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (!token) throw new ExpressionError('Expression ends unexpectedly', endColumn);
+
+    if (token.type === 'number') return { type: 'literal', value: Number(token.value) };
+    if (token.type === 'string') return { type: 'literal', value: token.value };
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' };
+      if (token.value === 'null') return { type: 'literal', value: null };
+
+      if (peek()?.value === '(' && peek()?.type === 'operator') {
+        if (!Object.hasOwn(FUNCTIONS, token.value)) throw new ExpressionError(`Unknown function '${token.value}'`, token.column);
+        index++;
+        const args: Node[] = [];
+        if (peek()?.value !== ')') {
+          args.push(parseConditional());
+          while (peek()?.value === ',') {
+            index++;
+            args.push(parseConditional());
+          }
+        }
+        expect(')');
+        return { type: 'call', name: token.value, args };
+      }
+
+      return { type: 'path', path: token.value.split('.'), column: token.column };
+    }
+
+    if (token.value === '(') {
+      const node = parseConditional();
+      expect(')');
+      return node;
+    }
+    if (token.value === '!' || token.value === '-') {
+      return { type: 'unary', operator: token.value, operand: parsePrimary() };
+    }
+
+    throw new ExpressionError(`Unexpected '${token.value}'`, token.column);
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parsePrimary();
+
+    for (;;) {
+      const token = peek();
+      const precedence = token?.type === 'operator' ? PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      index++;
+      left = { type: 'binary', operator: token.value, left, right: parseBinary(precedence + 1) };
+    }
+  };
+
+  const parseConditional = (): Node => {
+    const test = parseBinary(1);
+    if (peek()?.value !== '?') return test;
+    index++;
+    const then = parseConditional();
+    expect(':');
+    return { type: 'conditional', test, then, otherwise: parseConditional() };
+  };
+
+  const node = parseConditional();
+  const rest = peek();
+  if (rest) throw new ExpressionError(`Unexpected '${rest.value}'`, rest.column);
+  return node;
+};
+
+// Numbers compare numerically, anything else as text ("yes" == "yes")
+const equals = (left: unknown, right: unknown) => {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (!isNaN(a) && !isNaN(b)) return a === b;
+  return String(left ?? '') === String(right ?? '');
+};
+
+const evaluateNode = (node: Node, lookup: Lookup): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return lookup(node.path);
+    case 'unary':
+      return node.operator === '!' ? !isTruthy(evaluateNode(node.operand, lookup)) : -toNumber(evaluateNode(node.operand, lookup));
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, lookup)) ? evaluateNode(node.then, lookup) : evaluateNode(node.otherwise, lookup);
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, lookup)));
+    case 'binary': {
+      if (node.operator === '&&') return isTruthy(evaluateNode(node.left, lookup)) && isTruthy(evaluateNode(node.right, lookup));
+      if (node.operator === '||') return isTruthy(evaluateNode(node.left, lookup)) || isTruthy(evaluateNode(node.right, lookup));
+
+      const left = evaluateNode(node.left, lookup);
+      const right = evaluateNode(node.right, lookup);
+      const a = toNumber(left);
+      const b = toNumber(right);
+
+      switch (node.operator) {
+        case '==': return equals(left, right);
+        case '!=': return !equals(left, right);
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        // Joins text when either side is not a number
+        case '+': return isNaN(a) || isNaN(b) ? `${left ?? ''}${right ?? ''}` : a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        default: return a % b;
+      }
+    }
+  }
+};
+
+const paths = (node: Node): { path: string[]; column: number }[] => {
+  switch (node.type) {
+    case 'path': return [node];
+    case 'unary': return paths(node.operand);
+    case 'binary': return [...paths(node.left), ...paths(node.right)];
+    case 'conditional': return [...paths(node.test), ...paths(node.then), ...paths(node.otherwise)];
+    case 'call': return node.args.flatMap(paths);
+    default: return [];
+  }
+};
+
+export interface CompiledExpression {
+  evaluate: (lookup: Lookup) => unknown;
+  // Field references, for checking them against the template's fields
+  references: { name: string; column: number }[];
+}
+
+const cache = new Map<string, CompiledExpression>();
+
+// Throws ExpressionError for invalid expressions
+export const compileExpression = (source: string): CompiledExpression => {
+  let compiled = cache.get(source);
+  if (!compiled) {
+    const node = parse(source);
+    compiled = {
+      evaluate: lookup => evaluateNode(node, lookup),
+      references: paths(node).map(({ path, column }) => ({ name: path[0], column }))
+    };
+    cache.set(source, compiled);
+  }
+  return compiled;
+};
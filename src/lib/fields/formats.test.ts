@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INDIAN_STATES,
+  isValidAadhaar,
+  isValidGstin,
+  isValidIfsc,
+  isValidPan,
+  isValidPincode,
+  isValidSignature,
+  maskAadhaar,
+  stateForPincode
+} from './formats';
+
+describe('stateForPincode', () => {
+  it.each([
+    ['110001', 'Delhi'],
+    ['160017', 'Chandigarh'],
+    ['160062', 'Punjab'],
+    ['194101', 'Ladakh'],
+    ['190001', 'Jammu and Kashmir'],
+    ['248001', 'Uttarakhand'],
+    ['246149', 'Uttarakhand'],
+    ['246701', 'Uttar Pradesh'],
+    ['247001', 'Uttar Pradesh'],
+    ['247667', 'Uttarakhand'],
+    ['244713', 'Uttarakhand'],
+    ['262001', 'Uttar Pradesh'],
+    ['262501', 'Uttarakhand'],
+    ['396001', 'Gujarat'],
+    ['396445', 'Gujarat'],
+    ['396191', 'Gujarat'],
+    ['396210', 'Dadra and Nagar Haveli and Daman and Diu'],
+    ['396230', 'Dadra and Nagar Haveli and Daman and Diu'],
+    ['362520', 'Dadra and Nagar Haveli and Daman and Diu'],
+    ['403001', 'Goa'],
+    ['400001', 'Maharashtra'],
+    ['605001', 'Puducherry'],
+    ['605602', 'Tamil Nadu'],
+    ['609602', 'Puducherry'],
+    ['673310', 'Puducherry'],
+    ['533464', 'Puducherry'],
+    ['682001', 'Kerala'],
+    ['682502', 'Kerala'],
+    ['682555', 'Lakshadweep'],
+    ['737101', 'Sikkim'],
+    ['744101', 'Andaman and Nicobar Islands'],
+    ['800001', 'Bihar'],
+    ['823001', 'Bihar'],
+    ['834001', 'Jharkhand'],
+    ['826001', 'Jharkhand']
+  ])('%s is in %s', (pincode, state) => {
+    expect(stateForPincode(pincode)).toBe(state);
+  });
+
+  it('only names states from the list', () => {
+    ['110001', '396230', '682555', '605001'].forEach(pincode =>
+      expect(INDIAN_STATES).toContain(stateForPincode(pincode)));
+  });
+
+  it('knows nothing of invalid or unassigned PIN codes', () => {
+    expect(stateForPincode('012345')).toBeNull();
+    expect(stateForPincode('68255')).toBeNull();
+    expect(stateForPincode('350001')).toBeNull();
+    expect(isValidPincode('6825551')).toBe(false);
+  });
+});
+
+describe('isValidPan', () => {
+  it.each(['ABCPE1234F', 'AAACR5055K', 'AAAFR1234Q', 'AABHR1234L'])('accepts %s', pan => {
+    expect(isValidPan(pan)).toBe(true);
+  });
+
+  it.each([
+    'ABCDE1234F', // D is not a holder type
+    'abcpe1234f',
+    'ABCPE1234',
+    'ABCPE12345',
+    '1BCPE1234F'
+  ])('rejects %s', pan => {
+    expect(isValidPan(pan)).toBe(false);
+  });
+});
+
+describe('isValidIfsc', () => {
+  it('takes a bank code, a zero and a branch code', () => {
+    expect(isValidIfsc('SBIN0001234')).toBe(true);
+    expect(isValidIfsc('HDFC0ABC123')).toBe(true);
+    expect(isValidIfsc('SBIN1001234')).toBe(false);
+    expect(isValidIfsc('SBI00001234')).toBe(false);
+    expect(isValidIfsc('SBIN000123')).toBe(false);
+    expect(isValidIfsc('sbin0001234')).toBe(false);
+  });
+});
+
+describe('isValidGstin', () => {
+  it.each(['27AAPFU0939F1ZV', '29AAGCB7383J1Z4', '07AAACR5055K1Z9'])('accepts %s', gstin => {
+    expect(isValidGstin(gstin)).toBe(true);
+  });
+
+  it('checks the check digit', () => {
+    expect(isValidGstin('27AAPFU0939F1ZW')).toBe(false);
+    // Two characters swapped
+    expect(isValidGstin('27AAPFU0993F1ZV')).toBe(false);
+  });
+
+  it('checks the state code and layout', () => {
+    expect(isValidGstin('00AAPFU0939F1ZV')).toBe(false);
+    expect(isValidGstin('39AAPFU0939F1ZV')).toBe(false);
+    expect(isValidGstin('27AAPFU0939F1XV')).toBe(false);
+    expect(isValidGstin('27AAPFU0939F0ZV')).toBe(false);
+    expect(isValidGstin('27aapfu0939f1zv')).toBe(false);
+  });
+});
+
+describe('isValidAadhaar', () => {
+  it('accepts numbers whose Verhoeff check digit matches, with or without spaces', () => {
+    expect(isValidAadhaar('234123412346')).toBe(true);
+    expect(isValidAadhaar('2341 2341 2346')).toBe(true);
+  });
+
+  it('rejects wrong check digits, swapped digits and numbers starting with 0 or 1', () => {
+    expect(isValidAadhaar('234123412347')).toBe(false);
+    expect(isValidAadhaar('243123412346')).toBe(false);
+    expect(isValidAadhaar('123412341234')).toBe(false);
+    expect(isValidAadhaar('23412341234')).toBe(false);
+  });
+
+  it('masks all but the last four digits', () => {
+    expect(maskAadhaar('2341 2341 2346')).toBe('XXXX XXXX 2346');
+    expect(maskAadhaar('2341')).toBe('2341');
+  });
+});
+
+describe('isValidSignature', () => {
+  it('takes PNG and JPEG data URLs', () => {
+    expect(isValidSignature('data:image/png;base64,iVBORw0KGgo=')).toBe(true);
+    expect(isValidSignature('data:image/jpeg;base64,/9j/4AAQ')).toBe(true);
+    expect(isValidSignature('data:image/svg+xml;base64,PHN2Zz4=')).toBe(false);
+    expect(isValidSignature('https://example.com/sign.png')).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+// Format checks for Indian identifiers collected by document forms
+
+export const INDIAN_STATES = [
+  'Andaman and Nicobar Islands', 'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chandigarh',
+  'Chhattisgarh', 'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Goa', 'Gujarat', 'Haryana',
+  'Himachal Pradesh', 'Jammu and Kashmir', 'Jharkhand', 'Karnataka', 'Kerala', 'Ladakh', 'Lakshadweep',
+  'Madhya Pradesh', 'Maharashtra', 'Manipur', 'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Puducherry',
+  'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand',
+  'West Bengal'
+];
+
+// Postal circles by PIN prefix. Longer prefixes are exceptions within a
+// circle (Goa within Maharashtra, Puducherry within Tamil Nadu and so on),
+// so lookups try the longest prefix first. Union territories that share a
+// circle with a state are listed down to the districts or offices they
+// cover, as neighbouring districts share their shorter prefixes.
+const PINCODE_PREFIXES: Record<string, string> = {
+  '11': 'Delhi',
+  '12': 'Haryana', '13': 'Haryana',
+  '14': 'Punjab', '15': 'Punjab', '16': 'Punjab',
+  '16000': 'Chandigarh', '16001': 'Chandigarh', '16002': 'Chandigarh', '16003': 'Chandigarh', '16010': 'Chandigarh',
+  '17': 'Himachal Pradesh',
+  '18': 'Jammu and Kashmir', '19': 'Jammu and Kashmir', '194': 'Ladakh',
+  '20': 'Uttar Pradesh', '21': 'Uttar Pradesh', '22': 'Uttar Pradesh', '23': 'Uttar Pradesh',
+  '24': 'Uttar Pradesh', '25': 'Uttar Pradesh', '26': 'Uttar Pradesh', '27': 'Uttar Pradesh', '28': 'Uttar Pradesh',
+  '2447': 'Uttarakhand', '246': 'Uttarakhand', '2467': 'Uttar Pradesh', '2476': 'Uttarakhand',
+  '248': 'Uttarakhand', '249': 'Uttarakhand', '2623': 'Uttarakhand', '2624': 'Uttarakhand', '2625': 'Uttarakhand',
+  '2626': 'Uttarakhand', '263': 'Uttarakhand',
+  '30': 'Rajasthan', '31': 'Rajasthan', '32': 'Rajasthan', '33': 'Rajasthan', '34': 'Rajasthan',
+  '36': 'Gujarat', '37': 'Gujarat', '38': 'Gujarat', '39': 'Gujarat',
+  '362520': 'Dadra and Nagar Haveli and Daman and Diu', '396193': 'Dadra and Nagar Haveli and Daman and Diu',
+  '3962': 'Dadra and Nagar Haveli and Daman and Diu',
+  '40': 'Maharashtra', '41': 'Maharashtra', '42': 'Maharashtra', '43': 'Maharashtra', '44': 'Maharashtra',
+  '403': 'Goa',
+  '45': 'Madhya Pradesh', '46': 'Madhya Pradesh', '47': 'Madhya Pradesh', '48': 'Madhya Pradesh',
+  '49': 'Chhattisgarh',
+  '50': 'Telangana',
+  '51': 'Andhra Pradesh', '52': 'Andhra Pradesh', '53': 'Andhra Pradesh', '533464': 'Puducherry',
+  '56': 'Karnataka', '57': 'Karnataka', '58': 'Karnataka', '59': 'Karnataka',
+  '60': 'Tamil Nadu', '61': 'Tamil Nadu', '62': 'Tamil Nadu', '63': 'Tamil Nadu', '64': 'Tamil Nadu',
+  '6050': 'Puducherry', '60960': 'Puducherry',
+  '67': 'Kerala', '68': 'Kerala', '69': 'Kerala', '673310': 'Puducherry', '68255': 'Lakshadweep',
+  '70': 'West Bengal', '71': 'West Bengal', '72': 'West Bengal', '73': 'West Bengal', '74': 'West Bengal',
+  '737': 'Sikkim', '744': 'Andaman and Nicobar Islands',
+  '75': 'Odisha', '76': 'Odisha', '77': 'Odisha',
+  '78': 'Assam',
+  '790': 'Arunachal Pradesh', '791': 'Arunachal Pradesh', '792': 'Arunachal Pradesh',
+  '793': 'Meghalaya', '794': 'Meghalaya', '795': 'Manipur', '796': 'Mizoram',
+  '797': 'Nagaland', '798': 'Nagaland', '799': 'Tripura',
+  '80': 'Bihar', '81': 'Bihar', '82': 'Bihar', '83': 'Jharkhand', '84': 'Bihar', '85': 'Bihar',
+  '814': 'Jharkhand', '815': 'Jharkhand', '816': 'Jharkhand', '822': 'Jharkhand', '825': 'Jharkhand',
+  '826': 'Jharkhand', '827': 'Jharkhand', '828': 'Jharkhand', '829': 'Jharkhand'
+};
+
+export const isValidPincode = (value: string) => /^[1-9]\d{5}$/.test(value);
+
+export const stateForPincode = (value: string): string | null => {
+  if (!isValidPincode(value)) return null;
+  for (const length of [6, 5, 4, 3, 2]) {
+    const state = PINCODE_PREFIXES[value.slice(0, length)];
+    if (state) return state;
+  }
+  return null;
+};
+
+// Fourth character is the holder type: Person, Company, Firm, HUF and so on
+export const isValidPan = (value: string) => /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(value);
+
+export const isValidIfsc = (value: string) => /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value);
+
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// State code, the holder's PAN, entity number, "Z" and a base-36 check digit
+export const isValidGstin = (value: string) => {
+  if (!/^\d{2}[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value)) return false;
+  const stateCode = Number(value.slice(0, 2));
+  if ((stateCode < 1 || stateCode > 38) && stateCode !== 97 && stateCode !== 99) return false;
+
+  const sum = Array.from(value.slice(0, 14)).reduce((total, char, index) => {
+    const product = GSTIN_CHARS.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36] === value[14];
+};
+
+// Verhoeff checksum tables, as used for the Aadhaar check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+export const isValidAadhaar = (value: string) => {
+  const digits = value.replace(/\s/g, '');
+  if (!/^[2-9]\d{11}$/.test(digits)) return false;
+  const check = Array.from(digits)
+    .reverse()
+    .reduce((c, digit, index) => VERHOEFF_D[c][VERHOEFF_P[index % 8][Number(digit)]], 0);
+  return check === 0;
+};
+
+// Only the last four digits may appear on documents
+export const maskAadhaar = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 12 ? `XXXX XXXX ${digits.slice(-4)}` : value;
+};
+
+export const isValidSignature = (value: string) => /^data:image\/(png|jpe?g);base64,/.test(value);
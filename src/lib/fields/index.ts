@@ -0,0 +1,44 @@
+// Form field schema shared by the document form, the chat document form,
+// their validation, the admin field editor and the template engine, which
+// renders groups as {{#each group_id}} loops over their rows.
+
+export {
+  createGroupRow,
+  createInitialValues,
+  emptyValue,
+  FIELD_TYPES,
+  isGroup,
+  minRows,
+  normalizeFields,
+  rowErrorKey,
+  validateFieldSchema
+} from './schema';
+export { resolveSteps, validateStepSchema } from './steps';
+export { checkPlaceholders } from './placeholders';
+export type { PlaceholderIssues } from './placeholders';
+export { sampleValues } from './sample';
+export { displayValue, isFieldVisible, resolveFieldValues, toTemplateData } from './values';
+export { validateFieldValue, validateFieldValues } from './validate';
+export { compileExpression, ExpressionError } from './expression';
+export {
+  INDIAN_STATES,
+  isValidAadhaar,
+  isValidGstin,
+  isValidIfsc,
+  isValidPan,
+  isValidPincode,
+  maskAadhaar,
+  stateForPincode
+} from './formats';
+export type {
+  AddressValue,
+  FieldErrors,
+  FieldType,
+  FieldValue,
+  FieldValues,
+  GroupRow,
+  ScalarValue,
+  TemplateField,
+  TemplateStep,
+  WizardStep
+} from './types';
@@ -0,0 +1,73 @@
+import { compileExpression } from './expression';
+import { isGroup } from './schema';
+import { TemplateField } from './types';
+
+// The template's view of a placeholder; matches TemplateReference in the
+// template engine
+interface PlaceholderReference {
+  name: string;
+  loops: string[];
+  legacy: boolean;
+}
+
+export interface PlaceholderIssues {
+  // Placeholders no field fills. Unknown [name] placeholders print as
+  // written, so they may be bracketed text rather than mistakes.
+  unknown: { name: string; legacy: boolean }[];
+  // Fields the template never shows, as `id` or `group.child`
+  unused: string[];
+}
+
+const expressionNames = (source: string | undefined) => {
+  if (!source) return [];
+  try {
+    return compileExpression(source).references.map(({ name }) => name);
+  } catch {
+    return [];
+  }
+};
+
+// Checks the placeholders against the fields both ways. Inside a loop over a
+// group, names are looked up in the group's fields first, as when rendering.
+// Fields read only by other fields' visibleIf or compute count as used.
+export const checkPlaceholders = (
+  fields: TemplateField[],
+  references: PlaceholderReference[],
+  builtInNames: string[] = []
+): PlaceholderIssues => {
+  const topLevel = new Map(fields.map(field => [field.id, field]));
+  const used = new Set<string>();
+  const unknown = new Map<string, boolean>();
+
+  for (const reference of references) {
+    const groups = reference.loops.map(name => topLevel.get(name));
+    // Rows of an unknown list cannot be checked; the list itself is reported
+    if (groups.some(group => !group || !isGroup(group))) continue;
+
+    const group = [...groups].reverse().find(candidate => candidate!.fields?.some(child => child.id === reference.name));
+    if (group) {
+      used.add(`${group.id}.${reference.name}`);
+    } else if (topLevel.has(reference.name)) {
+      used.add(reference.name);
+    } else if (!builtInNames.includes(reference.name)) {
+      unknown.set(reference.name, (unknown.get(reference.name) ?? true) && reference.legacy);
+    }
+  }
+
+  for (const field of fields) {
+    [...expressionNames(field.visibleIf), ...expressionNames(field.compute)].forEach(name => used.add(name));
+    for (const child of field.fields ?? []) {
+      [...expressionNames(child.visibleIf), ...expressionNames(child.compute)].forEach(name => {
+        used.add(field.fields!.some(sibling => sibling.id === name) ? `${field.id}.${name}` : name);
+      });
+    }
+  }
+
+  const unused = fields.flatMap(field => {
+    if (!isGroup(field)) return used.has(field.id) ? [] : [field.id];
+    if (!used.has(field.id)) return [field.id];
+    return (field.fields ?? []).map(child => `${field.id}.${child.id}`).filter(id => !used.has(id));
+  });
+
+  return { unknown: Array.from(unknown, ([name, legacy]) => ({ name, legacy })), unused };
+};
@@ -0,0 +1,38 @@
+import { formatDate } from '../indianFormat';
+import { isGroup, minRows } from './schema';
+import { FieldType, FieldValues, GroupRow, ScalarValue, TemplateField } from './types';
+
+// Made-up answers for previewing a template before anyone fills it in
+const SAMPLES: Partial<Record<FieldType, ScalarValue>> = {
+  email: 'name@example.com',
+  tel: '9876543210',
+  number: '12',
+  checkbox: 'true',
+  currency: '25000',
+  percentage: '18',
+  pan: 'ABCDE1234F',
+  gstin: '32ABCDE1234F1Z5',
+  aadhaar: '234123412346',
+  ifsc: 'SBIN0001234',
+  pincode: '676521',
+  signature: ''
+};
+
+const sampleValue = (field: TemplateField): ScalarValue => {
+  if (field.type === 'address') {
+    return { line1: '12 MG Road', line2: 'Near Town Hall', city: 'Manjeri', state: 'Kerala', pincode: '676521' };
+  }
+  if (field.type === 'date') return formatDate(new Date(), 'YYYY-MM-DD');
+  if ((field.type === 'select' || field.type === 'radio') && field.options?.length) return field.options[0];
+  return SAMPLES[field.type] ?? (field.placeholder || field.label || field.id);
+};
+
+// Groups get two rows, within their row limits
+export const sampleValues = (fields: TemplateField[]): FieldValues =>
+  Object.fromEntries(fields.map(field => {
+    if (!isGroup(field)) return [field.id, sampleValue(field)];
+    const rows = Math.min(Math.max(minRows(field), 2), field.maxItems ?? 2);
+    return [field.id, Array.from({ length: rows }, (): GroupRow =>
+      Object.fromEntries((field.fields ?? []).map(child => [child.id, sampleValue(child)]))
+    )];
+  }));
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { createGroupRow, createInitialValues, minRows, normalizeFields, validateFieldSchema } from './schema';
+import { TemplateField } from './types';
+
+const field = (id: string, extra: Partial<TemplateField> = {}): TemplateField =>
+  ({ id, label: id, type: 'text', required: false, ...extra });
+
+const group = (id: string, extra: Partial<TemplateField> = {}) =>
+  field(id, { type: 'group', fields: [field('name')], ...extra });
+
+describe('normalizeFields', () => {
+  it('keeps current fields and treats a missing list as empty', () => {
+    expect(normalizeFields([field('tenant'), group('partners')])).toEqual([field('tenant'), group('partners')]);
+    expect(normalizeFields(null)).toEqual([]);
+    expect(normalizeFields(undefined)).toEqual([]);
+  });
+
+  it('turns unknown types into text, inside groups too', () => {
+    const fields = [
+      { ...field('note'), type: 'paragraph' },
+      group('rows', { fields: [{ ...field('cell'), type: 'rich' } as unknown as TemplateField] })
+    ] as TemplateField[];
+    expect(normalizeFields(fields)).toEqual([field('note'), group('rows', { fields: [field('cell')] })]);
+  });
+
+  it('moves the legacy step into "step"', () => {
+    const legacy = { ...field('tenant'), isRepeatable: false, repeatableGroup: 'step3' };
+    expect(normalizeFields([legacy])).toEqual([field('tenant', { step: 3 })]);
+    expect(normalizeFields([{ ...field('tenant'), repeatableGroup: 'step1' }])).toEqual([field('tenant')]);
+    expect(normalizeFields([{ ...field('tenant', { step: 2 }), repeatableGroup: 'step3' }])).toEqual([field('tenant', { step: 2 })]);
+  });
+
+  it('turns a repeatable field into a group of one field under the same id', () => {
+    const legacy = { ...field('item', { required: true, description: 'One per line' }), isRepeatable: true, repeatableGroup: 'step2' };
+    expect(normalizeFields([legacy])).toEqual([{
+      id: 'item',
+      label: 'item',
+      type: 'group',
+      required: true,
+      description: 'One per line',
+      step: 2,
+      minItems: 1,
+      fields: [field('item', { required: true, description: undefined })]
+    }]);
+    expect(normalizeFields([{ ...field('item'), isRepeatable: true }])[0]).toMatchObject({ type: 'group', minItems: 0 });
+  });
+});
+
+describe('validateFieldSchema', () => {
+  it('accepts a valid schema', () => {
+    expect(validateFieldSchema([
+      field('tenant'),
+      field('type', { type: 'select', options: ['Residential', 'Commercial'] }),
+      group('partners', { minItems: 2, maxItems: 5, fields: [field('name'), field('share', { type: 'percentage' })] })
+    ])).toBeNull();
+    expect(validateFieldSchema([])).toBeNull();
+  });
+
+  it.each([
+    [{ fields: 'nope' }, 'Fields must be a JSON array'],
+    [[null], 'The template field 1 must be an object'],
+    [[field('2nd')], 'The template field 1 needs an "id" made of letters, numbers and underscores'],
+    [[field('tenant', { label: ' ' })], 'Field "tenant" needs a "label"'],
+    [[{ ...field('tenant'), type: 'paragraph' }], 'Field "tenant" has an unknown type; use one of'],
+    [[field('type', { type: 'radio' })], 'Field "type" needs an "options" list'],
+    [[field('tenant', { step: 0 })], 'Field "tenant" has an invalid "step"; use 1, 2, 3...'],
+    [[field('tenant'), field('tenant')], 'The template has more than one field with id "tenant"'],
+    [[group('rows', { fields: [] })], 'Group "rows" needs a "fields" list with at least one field'],
+    [[group('rows', { fields: [group('inner')] })], 'Group "inner" cannot be inside another group'],
+    [[group('rows', { compute: 'a' }), field('a')], 'Group "rows" cannot be computed'],
+    [[group('rows', { minItems: -1 })], 'Group "rows" has an invalid "minItems"'],
+    [[group('rows', { minItems: 1.5 })], 'Group "rows" has an invalid "minItems"'],
+    [[group('rows', { minItems: 3, maxItems: 2 })], 'Group "rows" has a "maxItems" smaller than its "minItems"'],
+    [[group('rows', { maxItems: 0 })], 'Group "rows" has a "maxItems" smaller than its "minItems"'],
+    [[group('rows', { fields: [field('name'), field('name')] })], 'Group "rows" has more than one field with id "name"'],
+    [[group('rows', { fields: [field('x', { label: '' })] })], 'Field "x" needs a "label"']
+  ])('%j', (fields, message) => {
+    expect(validateFieldSchema(fields)).toContain(message);
+  });
+
+  it('lets row fields refer to their row and to top-level fields', () => {
+    expect(validateFieldSchema([
+      field('rate', { type: 'number' }),
+      group('items', { fields: [field('qty', { type: 'number' }), field('total', { compute: 'qty * rate' })] })
+    ])).toBeNull();
+    expect(validateFieldSchema([field('total', { compute: 'qty * 2' }), group('items', { fields: [field('qty')] })]))
+      .toBe('"compute" of field "total" refers to unknown field "qty" (column 1)');
+  });
+});
+
+describe('initial values', () => {
+  it('starts groups with their minimum number of rows', () => {
+    expect(minRows(group('rows'))).toBe(0);
+    expect(minRows(group('rows', { required: true }))).toBe(1);
+    expect(minRows(group('rows', { required: true, minItems: 3 }))).toBe(3);
+
+    const partners = group('partners', { minItems: 2, fields: [field('name'), field('address', { type: 'address' })] });
+    const row = { name: '', address: { line1: '', line2: '', city: '', state: '', pincode: '' } };
+    expect(createGroupRow(partners)).toEqual(row);
+    expect(createInitialValues([field('firm'), partners, group('witnesses')])).toEqual({
+      firm: '',
+      partners: [row, row],
+      witnesses: []
+    });
+  });
+
+  it('gives each row its own values', () => {
+    const { rows } = createInitialValues([group('rows', { minItems: 2, fields: [field('address', { type: 'address' })] })]);
+    expect((rows as { address: object }[])[0].address).not.toBe((rows as { address: object }[])[1].address);
+  });
+});
@@ -0,0 +1,144 @@
+import { compileExpression, ExpressionError } from './expression';
+import { AddressValue, FieldType, FieldValues, GroupRow, ScalarValue, TemplateField } from './types';
+
+export const FIELD_TYPES: FieldType[] = [
+  'text', 'textarea', 'email', 'tel', 'date', 'number', 'select', 'radio', 'checkbox', 'currency',
+  'percentage', 'pan', 'gstin', 'aadhaar', 'ifsc', 'pincode', 'address', 'signature', 'group'
+];
+
+interface LegacyField extends TemplateField {
+  isRepeatable?: boolean;
+  repeatableGroup?: string;
+}
+
+export const isGroup = (field: TemplateField) => field.type === 'group';
+
+export const rowErrorKey = (groupId: string, index: number, childId: string) => `${groupId}.${index}.${childId}`;
+
+const legacyStep = (repeatableGroup?: string) => {
+  const step = Number(repeatableGroup?.match(/^step(\d+)$/)?.[1]);
+  return step > 1 ? step : undefined;
+};
+
+// Converts fields saved before groups had their own schema. `repeatableGroup`
+// held the step ("step2"), and a repeatable field was a group of one value
+// stored under its own id, which is what old templates reference inside
+// <!-- START id --> blocks. Unknown types, e.g. in model-suggested fields for
+// the chat form, become text.
+const normalizeField = (original: LegacyField): TemplateField => {
+  const field: LegacyField = {
+    ...original,
+    type: FIELD_TYPES.includes(original.type) ? original.type : 'text'
+  };
+  if (original.fields) field.fields = normalizeFields(original.fields);
+  if (!('isRepeatable' in field) && !('repeatableGroup' in field)) return field;
+
+  const { isRepeatable, repeatableGroup, ...rest } = field;
+  const step = rest.step ?? legacyStep(repeatableGroup);
+  if (!isRepeatable) return { ...rest, step };
+
+  return {
+    id: rest.id,
+    label: rest.label,
+    type: 'group',
+    required: rest.required,
+    description: rest.description,
+    step,
+    minItems: rest.required ? 1 : 0,
+    fields: [{ ...rest, required: true, description: undefined }]
+  };
+};
+
+export const normalizeFields = (fields: LegacyField[] | null | undefined): TemplateField[] =>
+  (fields ?? []).map(normalizeField);
+
+const checkExpression = (field: TemplateField, key: 'visibleIf' | 'compute', knownIds: Set<string>) => {
+  const source = field[key];
+  if (source === undefined) return null;
+  if (typeof source !== 'string' || !source.trim()) return `Field "${field.id}" has an empty "${key}"`;
+
+  try {
+    const { references } = compileExpression(source);
+    const unknown = references.find(({ name }) => !knownIds.has(name));
+    if (unknown) return `"${key}" of field "${field.id}" refers to unknown field "${unknown.name}" (column ${unknown.column})`;
+    if (key === 'compute' && references.some(({ name }) => name === field.id)) {
+      return `"compute" of field "${field.id}" cannot refer to the field itself`;
+    }
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return `"${key}" of field "${field.id}", column ${error.column}: ${error.message}`;
+    }
+    throw error;
+  }
+  return null;
+};
+
+const checkField = (field: TemplateField, path: string, nested: boolean, knownIds: Set<string>): string | null => {
+  if (!field || typeof field !== 'object') return `${path} must be an object`;
+  if (typeof field.id !== 'string' || !/^[A-Za-z_]\w*$/.test(field.id)) {
+    return `${path} needs an "id" made of letters, numbers and underscores`;
+  }
+  if (typeof field.label !== 'string' || !field.label.trim()) return `Field "${field.id}" needs a "label"`;
+  if (!FIELD_TYPES.includes(field.type)) {
+    return `Field "${field.id}" has an unknown type; use one of ${FIELD_TYPES.join(', ')}`;
+  }
+  if ((field.type === 'select' || field.type === 'radio') && (!Array.isArray(field.options) || field.options.length === 0)) {
+    return `Field "${field.id}" needs an "options" list`;
+  }
+  if (field.step !== undefined && (!Number.isInteger(field.step) || field.step < 1)) {
+    return `Field "${field.id}" has an invalid "step"; use 1, 2, 3...`;
+  }
+  const expressionError = checkExpression(field, 'visibleIf', knownIds) ?? checkExpression(field, 'compute', knownIds);
+  if (expressionError) return expressionError;
+  if (!isGroup(field)) return null;
+
+  if (field.compute) return `Group "${field.id}" cannot be computed`;
+  if (nested) return `Group "${field.id}" cannot be inside another group`;
+  if (!Array.isArray(field.fields) || field.fields.length === 0) {
+    return `Group "${field.id}" needs a "fields" list with at least one field`;
+  }
+  const { minItems = 0, maxItems } = field;
+  if (!Number.isInteger(minItems) || minItems < 0) return `Group "${field.id}" has an invalid "minItems"`;
+  if (maxItems !== undefined && (!Number.isInteger(maxItems) || maxItems < Math.max(minItems, 1))) {
+    return `Group "${field.id}" has a "maxItems" smaller than its "minItems"`;
+  }
+
+  // Fields in a row can refer to the row's other fields as well
+  const rowIds = new Set([...knownIds, ...field.fields.map(child => child?.id)]);
+  return checkFieldList(field.fields, `Group "${field.id}"`, true, rowIds);
+};
+
+const checkFieldList = (fields: TemplateField[], owner: string, nested: boolean, knownIds: Set<string>): string | null => {
+  const seen = new Set<string>();
+  for (const [index, field] of fields.entries()) {
+    const error = checkField(field, `${owner} field ${index + 1}`, nested, knownIds);
+    if (error) return error;
+    if (seen.has(field.id)) return `${owner} has more than one field with id "${field.id}"`;
+    seen.add(field.id);
+  }
+  return null;
+};
+
+// For the admin field editor; returns the first problem found
+export const validateFieldSchema = (fields: unknown): string | null => {
+  if (!Array.isArray(fields)) return 'Fields must be a JSON array';
+  return checkFieldList(fields, 'The template', false, new Set(fields.map(field => field?.id)));
+};
+
+export const minRows = (group: TemplateField) => Math.max(group.minItems ?? 0, group.required ? 1 : 0);
+
+const EMPTY_ADDRESS: AddressValue = { line1: '', line2: '', city: '', state: '', pincode: '' };
+
+export const emptyValue = (field: TemplateField): ScalarValue =>
+  field.type === 'address' ? { ...EMPTY_ADDRESS } : '';
+
+export const createGroupRow = (group: TemplateField): GroupRow =>
+  Object.fromEntries((group.fields ?? []).map(child => [child.id, emptyValue(child)]));
+
+export const createInitialValues = (fields: TemplateField[]): FieldValues =>
+  Object.fromEntries(fields.map(field => [
+    field.id,
+    isGroup(field)
+      ? Array.from({ length: minRows(field) }, () => createGroupRow(field))
+      : emptyValue(field)
+  ]));
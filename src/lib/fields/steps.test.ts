@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { resolveSteps, validateStepSchema } from './steps';
+import { TemplateField } from './types';
+
+const field = (id: string, step?: number): TemplateField =>
+  ({ id, label: id, type: 'text', required: false, step });
+
+const ids = (steps: { id: string; title: string; fields: TemplateField[] }[]) =>
+  steps.map(step => ({ id: step.id, title: step.title, fields: step.fields.map(({ id }) => id) }));
+
+describe('resolveSteps', () => {
+  it('puts every field on one step when none are numbered', () => {
+    expect(ids(resolveSteps(null, [field('tenant'), field('rent')])))
+      .toEqual([{ id: 'step1', title: 'Details', fields: ['tenant', 'rent'] }]);
+    expect(ids(resolveSteps([], []))).toEqual([{ id: 'step1', title: 'Details', fields: [] }]);
+  });
+
+  it('groups fields by their step numbers, in order', () => {
+    expect(ids(resolveSteps(undefined, [field('rent', 3), field('tenant'), field('deposit', 3), field('landlord', 1)]))).toEqual([
+      { id: 'step1', title: 'Step 1', fields: ['tenant', 'landlord'] },
+      { id: 'step3', title: 'Step 2', fields: ['rent', 'deposit'] }
+    ]);
+  });
+
+  it('follows declared steps and puts fields they leave out on the last step', () => {
+    const steps = [
+      { id: 'parties', title: 'Parties', description: 'Who is signing', fields: ['landlord', 'tenant'] },
+      { id: 'terms', title: 'Terms', fields: ['rent', 'removed'] }
+    ];
+    const resolved = resolveSteps(steps, [field('tenant'), field('rent'), field('landlord'), field('deposit', 1)]);
+    expect(ids(resolved)).toEqual([
+      { id: 'parties', title: 'Parties', fields: ['landlord', 'tenant'] },
+      { id: 'terms', title: 'Terms', fields: ['rent', 'deposit'] }
+    ]);
+    expect(resolved[0].description).toBe('Who is signing');
+  });
+});
+
+describe('validateStepSchema', () => {
+  const fields = [field('tenant'), field('rent')];
+
+  it('accepts no steps or steps that place every field once', () => {
+    expect(validateStepSchema(null, fields)).toBeNull();
+    expect(validateStepSchema(undefined, fields)).toBeNull();
+    expect(validateStepSchema([], fields)).toBeNull();
+    expect(validateStepSchema([
+      { id: 'parties', title: 'Parties', description: 'Who is signing', fields: ['tenant'] },
+      { id: 'step-2', title: 'Terms', fields: ['rent'] }
+    ], fields)).toBeNull();
+  });
+
+  it.each([
+    [{}, 'Steps must be a JSON array'],
+    [[null], 'Step 1 must be an object'],
+    [[{ id: '1st', title: 'x', fields: ['tenant', 'rent'] }], 'Step 1 needs an "id" made of letters, numbers, dashes and underscores'],
+    [[{ id: 'a', title: ' ', fields: ['tenant', 'rent'] }], 'Step "a" needs a "title"'],
+    [[{ id: 'a', title: 'A', description: 3, fields: ['tenant', 'rent'] }], 'Step "a" has a "description" that is not text'],
+    [[{ id: 'a', title: 'A', fields: [] }], 'Step "a" needs a "fields" list with at least one field id'],
+    [[{ id: 'a', title: 'A', fields: ['tenant', 'rent', 'deposit'] }], 'Step "a" refers to unknown field "deposit"'],
+    [[{ id: 'a', title: 'A', fields: ['tenant'] }, { id: 'a', title: 'B', fields: ['rent'] }], 'There is more than one step with id "a"'],
+    [[{ id: 'a', title: 'A', fields: ['tenant', 'rent'] }, { id: 'b', title: 'B', fields: ['rent'] }], 'Field "rent" is on both step "a" and step "b"'],
+    [[{ id: 'a', title: 'A', fields: ['tenant'] }], 'Field "rent" is not on any step']
+  ])('%j', (steps, message) => {
+    expect(validateStepSchema(steps, fields)).toBe(message);
+  });
+});
@@ -0,0 +1,77 @@
+import { TemplateField, TemplateStep, WizardStep } from './types';
+
+// Templates saved before steps were declared number them on each field
+const deriveSteps = (fields: TemplateField[]): WizardStep[] => {
+  const numbers = [...new Set(fields.map(field => field.step ?? 1))].sort((a, b) => a - b);
+  if (numbers.length === 0) return [{ id: 'step1', title: 'Details', fields: [] }];
+
+  return numbers.map((number, index) => ({
+    id: `step${number}`,
+    title: numbers.length === 1 ? 'Details' : `Step ${index + 1}`,
+    fields: fields.filter(field => (field.step ?? 1) === number)
+  }));
+};
+
+// The steps the form walks through. Fields a template's steps leave out,
+// e.g. ones added since the steps were saved, go on the last step.
+export const resolveSteps = (steps: TemplateStep[] | null | undefined, fields: TemplateField[]): WizardStep[] => {
+  if (!Array.isArray(steps) || steps.length === 0) return deriveSteps(fields);
+
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const resolved = steps.map(step => ({
+    id: step.id,
+    title: step.title,
+    description: step.description,
+    fields: step.fields.flatMap(id => byId.get(id) ?? [])
+  }));
+
+  const placed = new Set(steps.flatMap(step => step.fields));
+  const unplaced = fields.filter(field => !placed.has(field.id));
+  resolved[resolved.length - 1].fields.push(...unplaced);
+  return resolved;
+};
+
+const checkStep = (step: TemplateStep, path: string, fieldIds: Set<string>): string | null => {
+  if (!step || typeof step !== 'object') return `${path} must be an object`;
+  if (typeof step.id !== 'string' || !/^[A-Za-z_][\w-]*$/.test(step.id)) {
+    return `${path} needs an "id" made of letters, numbers, dashes and underscores`;
+  }
+  if (typeof step.title !== 'string' || !step.title.trim()) return `Step "${step.id}" needs a "title"`;
+  if (step.description !== undefined && typeof step.description !== 'string') {
+    return `Step "${step.id}" has a "description" that is not text`;
+  }
+  if (!Array.isArray(step.fields) || step.fields.length === 0) {
+    return `Step "${step.id}" needs a "fields" list with at least one field id`;
+  }
+  const unknown = step.fields.find(id => !fieldIds.has(id));
+  if (unknown !== undefined) return `Step "${step.id}" refers to unknown field "${unknown}"`;
+  return null;
+};
+
+// For the admin step editor; no steps (null or an empty list) means the
+// fields' "step" numbers are used. Returns the first problem found.
+export const validateStepSchema = (steps: unknown, fields: TemplateField[]): string | null => {
+  if (steps === null || steps === undefined) return null;
+  if (!Array.isArray(steps)) return 'Steps must be a JSON array';
+  if (steps.length === 0) return null;
+
+  const fieldIds = new Set(fields.map(field => field.id));
+  const stepIds = new Set<string>();
+  const placed = new Map<string, string>();
+
+  for (const [index, step] of (steps as TemplateStep[]).entries()) {
+    const error = checkStep(step, `Step ${index + 1}`, fieldIds);
+    if (error) return error;
+    if (stepIds.has(step.id)) return `There is more than one step with id "${step.id}"`;
+    stepIds.add(step.id);
+
+    for (const id of step.fields) {
+      const other = placed.get(id);
+      if (other) return `Field "${id}" is on both step "${other}" and step "${step.id}"`;
+      placed.set(id, step.id);
+    }
+  }
+
+  const missing = fields.find(field => !placed.has(field.id));
+  return missing ? `Field "${missing.id}" is not on any step` : null;
+};
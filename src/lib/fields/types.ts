@@ -0,0 +1,80 @@
+export type FieldType =
+  | 'text'
+  | 'textarea'
+  | 'email'
+  | 'tel'
+  | 'date'
+  | 'number'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'currency'
+  | 'percentage'
+  | 'pan'
+  | 'gstin'
+  | 'aadhaar'
+  | 'ifsc'
+  | 'pincode'
+  | 'address'
+  | 'signature'
+  | 'group';
+
+export interface TemplateField {
+  id: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  placeholder?: string;
+  description?: string;
+  // Choices for select and radio fields
+  options?: string[];
+  // Expressions over other fields, e.g. `deposit == "yes"` or
+  // `monthly_rent * months`. Computed fields are read-only.
+  visibleIf?: string;
+  compute?: string;
+  // 1-based form step, for templates that do not declare their own steps;
+  // fields without one go on the first step
+  step?: number;
+  // Repeatable sections (type "group"): each row holds a value per child field
+  fields?: TemplateField[];
+  minItems?: number;
+  maxItems?: number;
+  itemLabel?: string;
+}
+
+// A form step as saved on the template; `fields` holds top-level field ids
+// in the order they are asked
+export interface TemplateStep {
+  id: string;
+  title: string;
+  description?: string;
+  fields: string[];
+}
+
+// A step with its fields looked up, as the form shows it
+export interface WizardStep {
+  id: string;
+  title: string;
+  description?: string;
+  fields: TemplateField[];
+}
+
+export interface AddressValue {
+  line1: string;
+  line2: string;
+  city: string;
+  state: string;
+  pincode: string;
+}
+
+// Checkboxes hold "true" or "", signatures an image data URL
+export type ScalarValue = string | AddressValue;
+
+export type GroupRow = Record<string, ScalarValue>;
+
+export type FieldValue = ScalarValue | GroupRow[];
+
+export type FieldValues = Record<string, FieldValue>;
+
+// Keyed by field id, or `group.index.child` for a field in a group row
+export type FieldErrors = Record<string, string>;
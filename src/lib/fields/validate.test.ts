@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateField } from './types';
+import { validateFieldValue, validateFieldValues } from './validate';
+
+const field = (id: string, extra: Partial<TemplateField> = {}): TemplateField =>
+  ({ id, label: id, type: 'text', required: false, ...extra });
+
+describe('group rows', () => {
+  const partners = field('partners', {
+    type: 'group',
+    label: 'Partners',
+    itemLabel: 'partner',
+    fields: [field('name', { label: 'Name', required: true }), field('share', { type: 'percentage' })]
+  });
+  const row = (name: string, share = '') => ({ name, share });
+
+  it('asks for the minimum number of rows', () => {
+    expect(validateFieldValues([{ ...partners, required: true }], { partners: [] }))
+      .toEqual({ partners: 'Add at least one partner' });
+    expect(validateFieldValues([{ ...partners, minItems: 2 }], { partners: [row('Asha')] }))
+      .toEqual({ partners: 'Add at least 2 entries to Partners' });
+    expect(validateFieldValues([{ ...partners, minItems: 2 }], { partners: 'not rows' }))
+      .toEqual({ partners: 'Add at least 2 entries to Partners' });
+    expect(validateFieldValues([partners], {})).toEqual({});
+  });
+
+  it('limits the number of rows', () => {
+    expect(validateFieldValues([{ ...partners, maxItems: 2 }], { partners: [row('A'), row('B'), row('C')] }))
+      .toEqual({ partners: 'Partners can have at most 2 entries' });
+    expect(validateFieldValues([{ ...partners, maxItems: 2 }], { partners: [row('A'), row('B')] })).toEqual({});
+  });
+
+  it('checks the fields of each row under their own key', () => {
+    expect(validateFieldValues([partners], { partners: [row('Asha', '60'), row('', '140')] })).toEqual({
+      'partners.1.name': 'Name is required',
+      'partners.1.share': 'Please enter a percentage between 0 and 100'
+    });
+  });
+});
+
+describe('validateFieldValue', () => {
+  it('only checks optional fields once they are filled in', () => {
+    expect(validateFieldValue(field('pan', { type: 'pan' }), '')).toBeNull();
+    expect(validateFieldValue(field('pan', { type: 'pan' }), '  ')).toBeNull();
+    expect(validateFieldValue(field('pan', { type: 'pan', label: 'PAN', required: true }), '')).toBe('PAN is required');
+    expect(validateFieldValue(field('agree', { type: 'checkbox', label: 'The Terms', required: true }), ''))
+      .toBe('Please confirm the terms');
+  });
+
+  it.each([
+    ['pan', 'ABCPE1234F', 'ABCDE1234F', 'Please enter a valid PAN, e.g. ABCPE1234F'],
+    ['gstin', '27AAPFU0939F1ZV', '27AAPFU0939F1ZW', 'Please enter a valid 15-character GSTIN'],
+    ['aadhaar', '2341 2341 2346', '2341 2341 2347', 'Please enter a valid 12-digit Aadhaar number'],
+    ['ifsc', 'SBIN0001234', 'SBIN1001234', 'Please enter a valid IFSC, e.g. SBIN0001234'],
+    ['pincode', '682001', '082001', 'Please enter a valid 6-digit PIN code'],
+    ['email', 'asha@example.in', 'asha@example', 'Please enter a valid email address'],
+    ['tel', '+91 98765 43210', '98765', 'Please enter a valid phone number'],
+    ['date', '2025-04-01', 'soon', 'Please enter a valid date'],
+    ['number', '-12.5', 'twelve', 'Please enter a valid number'],
+    ['currency', '1,25,000.50', '100.505', 'Please enter an amount in rupees, with up to two decimals'],
+    ['percentage', '12.5', '101', 'Please enter a percentage between 0 and 100'],
+    ['signature', 'data:image/png;base64,iVBORw0KGgo=', 'data:text/plain;base64,eA==', 'Please upload a PNG or JPEG image of the signature']
+  ] as const)('checks %s values', (type, valid, invalid, message) => {
+    expect(validateFieldValue(field(type, { type }), valid)).toBeNull();
+    expect(validateFieldValue(field(type, { type }), invalid)).toBe(message);
+  });
+
+  it('checks values against the options', () => {
+    const type = field('type', { type: 'select', options: ['Residential', 'Commercial'] });
+    expect(validateFieldValue(type, 'Commercial')).toBeNull();
+    expect(validateFieldValue(type, 'Industrial')).toBe('Please choose one of the options');
+  });
+
+  it('needs every part of an address but the second line', () => {
+    const address = field('address', { type: 'address', label: 'Property address', required: true });
+    const value = { line1: '12 MG Road', line2: '', city: 'Kochi', state: 'Kerala', pincode: '682001' };
+    expect(validateFieldValue(address, value)).toBeNull();
+    expect(validateFieldValue(address, { ...value, city: ' ' })).toBe('Please complete the property address');
+    expect(validateFieldValue(address, { ...value, pincode: '68200' })).toBe('Please enter a valid 6-digit PIN code');
+    expect(validateFieldValue(address, { ...value, line1: '', city: '', state: '', pincode: '' })).toBe('Property address is required');
+  });
+});
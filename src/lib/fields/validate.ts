@@ -0,0 +1,113 @@
+import {
+  isValidAadhaar,
+  isValidGstin,
+  isValidIfsc,
+  isValidPan,
+  isValidPincode,
+  isValidSignature
+} from './formats';
+import { isGroup, minRows, rowErrorKey } from './schema';
+import { isFieldVisible, resolveFieldValues } from './values';
+import { AddressValue, FieldErrors, FieldValue, FieldValues, GroupRow, TemplateField } from './types';
+
+const isAddress = (value: unknown): value is AddressValue =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) => {
+  if (isAddress(value)) return Object.values(value).every(part => !part.trim());
+  return typeof value !== 'string' || value.trim() === '';
+};
+
+const checkFormat = (field: TemplateField, value: string): string | null => {
+  const number = Number(value.replace(/,/g, ''));
+
+  switch (field.type) {
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : 'Please enter a valid email address';
+    case 'tel':
+      return /^\+?[\d\s\-()]+$/.test(value) && value.replace(/\D/g, '').length >= 10
+        ? null
+        : 'Please enter a valid phone number';
+    case 'date':
+      return isNaN(Date.parse(value)) ? 'Please enter a valid date' : null;
+    case 'number':
+      return isNaN(number) ? 'Please enter a valid number' : null;
+    case 'currency':
+      return isNaN(number) || number < 0 || !/^\d*(\.\d{1,2})?$/.test(value.replace(/,/g, ''))
+        ? 'Please enter an amount in rupees, with up to two decimals'
+        : null;
+    case 'percentage':
+      return isNaN(number) || number < 0 || number > 100 ? 'Please enter a percentage between 0 and 100' : null;
+    case 'select':
+    case 'radio':
+      return field.options?.includes(value) ? null : 'Please choose one of the options';
+    case 'pan':
+      return isValidPan(value) ? null : 'Please enter a valid PAN, e.g. ABCPE1234F';
+    case 'gstin':
+      return isValidGstin(value) ? null : 'Please enter a valid 15-character GSTIN';
+    case 'aadhaar':
+      return isValidAadhaar(value) ? null : 'Please enter a valid 12-digit Aadhaar number';
+    case 'ifsc':
+      return isValidIfsc(value) ? null : 'Please enter a valid IFSC, e.g. SBIN0001234';
+    case 'pincode':
+      return isValidPincode(value) ? null : 'Please enter a valid 6-digit PIN code';
+    case 'signature':
+      return isValidSignature(value) ? null : 'Please upload a PNG or JPEG image of the signature';
+    default:
+      return null;
+  }
+};
+
+const checkAddress = (field: TemplateField, value: AddressValue) => {
+  if (!value.line1.trim() || !value.city.trim() || !value.state.trim() || !value.pincode.trim()) {
+    return `Please complete the ${field.label.toLowerCase()}`;
+  }
+  return isValidPincode(value.pincode) ? null : 'Please enter a valid 6-digit PIN code';
+};
+
+// A single value; optional fields are only checked when filled in
+export const validateFieldValue = (field: TemplateField, value: FieldValue | undefined): string | null => {
+  if (isBlank(value)) {
+    if (!field.required) return null;
+    return field.type === 'checkbox' ? `Please confirm ${field.label.toLowerCase()}` : `${field.label} is required`;
+  }
+  if (field.type === 'address') return isAddress(value) ? checkAddress(field, value) : null;
+  return typeof value === 'string' ? checkFormat(field, value.trim()) : null;
+};
+
+// Checks each value, group row counts and each group row's fields. Hidden
+// and computed fields are skipped.
+export const validateFieldValues = (fields: TemplateField[], input: FieldValues): FieldErrors => {
+  const errors: FieldErrors = {};
+  const values = resolveFieldValues(fields, input);
+
+  for (const field of fields) {
+    if (field.compute || !isFieldVisible(field, values)) continue;
+
+    if (!isGroup(field)) {
+      const error = validateFieldValue(field, values[field.id]);
+      if (error) errors[field.id] = error;
+      continue;
+    }
+
+    const rows = (Array.isArray(values[field.id]) ? values[field.id] : []) as GroupRow[];
+    const itemLabel = field.itemLabel ?? field.label;
+    const min = minRows(field);
+
+    if (rows.length < min) {
+      errors[field.id] = min === 1 ? `Add at least one ${itemLabel}` : `Add at least ${min} entries to ${field.label}`;
+    } else if (field.maxItems !== undefined && rows.length > field.maxItems) {
+      errors[field.id] = `${field.label} can have at most ${field.maxItems} entries`;
+    }
+
+    rows.forEach((row, index) => {
+      for (const child of field.fields ?? []) {
+        if (child.compute || !isFieldVisible(child, values, row)) continue;
+        const error = validateFieldValue(child, row[child.id]);
+        if (error) errors[rowErrorKey(field.id, index, child.id)] = error;
+      }
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateField } from './types';
+import { isFieldVisible, resolveFieldValues } from './values';
+
+const field = (id: string, extra: Partial<TemplateField> = {}): TemplateField =>
+  ({ id, label: id, type: 'text', required: false, ...extra });
+
+describe('field lookups', () => {
+  it('does not read properties every object inherits', () => {
+    // Missing fields compare equal to empty text
+    expect(isFieldVisible(field('note', { visibleIf: 'constructor == ""' }), {})).toBe(true);
+    expect(isFieldVisible(field('note', { visibleIf: 'tenant.toString == ""' }), { tenant: 'Asha' })).toBe(true);
+    expect(resolveFieldValues([field('total', { compute: 'constructor + valueOf' })], {}).total).toBe('');
+  });
+});
+
+describe('isFieldVisible', () => {
+  const values = { deposit: 'yes', note: '  ', partners: [] };
+
+  it.each([
+    ['deposit == "yes"', true],
+    ['deposit', true],
+    ['missing', false],
+    ['missing == "yes"', false],
+    ['missing != "yes"', true],
+    ['not missing', true],
+    ['note', false],
+    ['partners', false],
+    ['count(partners) == 0', true],
+    ['1 / 0', true],
+    ['0 / 0', false]
+  ])('%s gives %s', (visibleIf, visible) => {
+    expect(isFieldVisible(field('x', { visibleIf }), values)).toBe(visible);
+  });
+
+  it('shows fields whose expression is invalid', () => {
+    expect(isFieldVisible(field('x', { visibleIf: 'deposit ==' }), values)).toBe(true);
+    expect(isFieldVisible(field('x', { visibleIf: 'shout(deposit)' }), values)).toBe(true);
+  });
+
+  it('reads the row first inside a group', () => {
+    const witness = field('witness', { visibleIf: 'deposit == "yes"' });
+    expect(isFieldVisible(witness, values, { deposit: 'no' })).toBe(false);
+    expect(isFieldVisible(witness, values, {})).toBe(true);
+  });
+});
+
+describe('resolveFieldValues', () => {
+  it('computes fields in order, settling ones that refer to later fields', () => {
+    const fields = [
+      field('total', { compute: 'monthly_rent * months' }),
+      field('months', { compute: 'lease_years * 12' }),
+      field('monthly_rent'),
+      field('lease_years')
+    ];
+    expect(resolveFieldValues(fields, { monthly_rent: '25,000', lease_years: '1' })).toMatchObject({ total: '300000', months: '12' });
+  });
+
+  it('leaves a computed field empty when it divides by zero or is invalid', () => {
+    const fields = [
+      field('share', { compute: 'total / partners' }),
+      field('broken', { compute: 'total *' }),
+      field('total'),
+      field('partners')
+    ];
+    expect(resolveFieldValues(fields, { total: '1000', partners: '0' })).toMatchObject({ share: '', broken: '' });
+    expect(resolveFieldValues(fields, { total: '1000', partners: '3' }).share).toBe('333.33');
+  });
+});
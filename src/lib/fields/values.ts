@@ -0,0 +1,136 @@
+import { formatIndianDate, formatIndianNumber } from '../indianFormat';
+import { compileExpression, ExpressionError, isTruthy, Lookup } from './expression';
+import { maskAadhaar } from './formats';
+import { emptyValue, isGroup } from './schema';
+import { FieldValue, FieldValues, GroupRow, ScalarValue, TemplateField } from './types';
+
+// Own properties only, so names like `constructor` read as missing fields
+const ownValue = (source: unknown, key: string) =>
+  source !== null && typeof source === 'object' && Object.hasOwn(source, key)
+    ? (source as Record<string, unknown>)[key]
+    : undefined;
+
+// Inside a group row, the row's own fields shadow top-level ones
+const createLookup = (values: FieldValues, row?: GroupRow): Lookup => ([head, ...rest]) => {
+  const value = row && Object.hasOwn(row, head) ? row[head] : ownValue(values, head);
+  return rest.reduce<unknown>(ownValue, value);
+};
+
+// Invalid expressions are reported by the admin field editor; here they
+// leave the field visible and uncomputed rather than breaking the form
+const INVALID = Symbol('invalid expression');
+
+const evaluate = (source: string, lookup: Lookup): unknown => {
+  try {
+    return compileExpression(source).evaluate(lookup);
+  } catch (error) {
+    if (error instanceof ExpressionError) return INVALID;
+    throw error;
+  }
+};
+
+const toFieldValue = (value: unknown): string => {
+  if (typeof value === 'number') return isFinite(value) ? String(Math.round(value * 100) / 100) : '';
+  if (typeof value === 'boolean') return value ? 'true' : '';
+  return typeof value === 'string' ? value : '';
+};
+
+export const isFieldVisible = (field: TemplateField, values: FieldValues, row?: GroupRow) => {
+  if (!field.visibleIf) return true;
+  const result = evaluate(field.visibleIf, createLookup(values, row));
+  return result === INVALID || isTruthy(result);
+};
+
+const computeRow = (group: TemplateField, row: GroupRow, values: FieldValues): GroupRow => {
+  const computed = { ...row };
+  for (const child of group.fields ?? []) {
+    if (child.compute) computed[child.id] = toFieldValue(evaluate(child.compute, createLookup(values, computed)));
+  }
+  return computed;
+};
+
+// Fills in computed fields, in field order. A second pass settles computed
+// fields that refer to ones declared after them.
+export const resolveFieldValues = (fields: TemplateField[], values: FieldValues): FieldValues => {
+  const resolved = { ...values };
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (const field of fields) {
+      if (field.compute) {
+        resolved[field.id] = toFieldValue(evaluate(field.compute, createLookup(resolved)));
+      } else if (isGroup(field) && Array.isArray(resolved[field.id])) {
+        resolved[field.id] = (resolved[field.id] as GroupRow[]).map(row => computeRow(field, row, resolved));
+      }
+    }
+  }
+
+  return resolved;
+};
+
+const templateValue = (field: TemplateField, value: FieldValue | undefined): FieldValue | undefined => {
+  if (typeof value !== 'string') return value;
+  if (field.type === 'aadhaar') return maskAadhaar(value);
+  if (field.type === 'checkbox') return value === 'true' ? 'Yes' : '';
+  return value;
+};
+
+const templateRow = (group: TemplateField, row: GroupRow, values: FieldValues): GroupRow => {
+  const data = { ...row };
+  for (const child of group.fields ?? []) {
+    data[child.id] = isFieldVisible(child, values, row)
+      ? (templateValue(child, row[child.id]) as ScalarValue | undefined) ?? emptyValue(child)
+      : emptyValue(child);
+  }
+  return data;
+};
+
+// What templates and the document generator see: computed fields filled in,
+// hidden fields emptied, Aadhaar numbers masked and checkboxes as "Yes" or
+// empty
+export const toTemplateData = (fields: TemplateField[], values: FieldValues): FieldValues => {
+  const resolved = resolveFieldValues(fields, values);
+  const data = { ...resolved };
+
+  for (const field of fields) {
+    const value = resolved[field.id];
+    if (!isFieldVisible(field, resolved)) {
+      data[field.id] = isGroup(field) ? [] : emptyValue(field);
+    } else if (isGroup(field)) {
+      data[field.id] = Array.isArray(value) ? value.map(row => templateRow(field, row, resolved)) : [];
+    } else {
+      data[field.id] = templateValue(field, value) ?? emptyValue(field);
+    }
+  }
+
+  return data;
+};
+
+// A value as the review step shows it; empty when nothing was entered.
+// Signatures are shown as images, so they have no text.
+export const displayValue = (field: TemplateField, value: FieldValue | undefined): string => {
+  if (value === undefined || Array.isArray(value)) return '';
+  if (typeof value === 'object') {
+    const { line1, line2, city, state, pincode } = value;
+    return [line1, line2, city, [state, pincode].filter(Boolean).join(' ')].filter(part => part.trim()).join(', ');
+  }
+
+  const text = value.trim();
+  if (field.type === 'checkbox') return text === 'true' ? 'Yes' : 'No';
+  if (!text || field.type === 'signature') return '';
+
+  const number = Number(text.replace(/,/g, ''));
+  switch (field.type) {
+    case 'currency':
+      return isNaN(number) ? text : `₹${formatIndianNumber(number)}`;
+    case 'percentage':
+      return `${text}%`;
+    case 'date': {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? text : formatIndianDate(date, 'long');
+    }
+    case 'aadhaar':
+      return maskAadhaar(text);
+    default:
+      return text;
+  }
+};
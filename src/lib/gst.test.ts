@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGst, formatGstBreakdown } from './gst';
+
+describe('calculateGst', () => {
+  it('adds GST to the amount and splits it for intra-state supplies', () => {
+    expect(calculateGst(10000, 18)).toEqual({
+      taxableValue: 10000, rate: 18, cgst: 900, sgst: 900, igst: 0, totalTax: 1800, totalValue: 11800
+    });
+  });
+
+  it('backs GST out of an inclusive amount and charges IGST across states', () => {
+    expect(calculateGst(11800, 18, { inclusive: true, interState: true })).toEqual({
+      taxableValue: 10000, rate: 18, cgst: 0, sgst: 0, igst: 1800, totalTax: 1800, totalValue: 11800
+    });
+  });
+
+  it('keeps CGST and SGST adding up to the tax when it does not split evenly', () => {
+    const { cgst, sgst, totalTax } = calculateGst(100.01, 5);
+    expect(totalTax).toBe(5);
+    expect(cgst + sgst).toBe(5);
+  });
+});
+
+describe('formatGstBreakdown', () => {
+  it('writes the amounts in rupees with Indian grouping', () => {
+    const table = formatGstBreakdown(calculateGst(125000.5, 18), false);
+    expect(table).toContain('| Taxable value | ₹1,25,000.50 |');
+    expect(table).toContain('| CGST @ 9% | ₹11,250.05 |');
+    expect(table).toContain('| SGST @ 9% | ₹11,250.04 |');
+    expect(table).toContain('| **Invoice value** | **₹1,47,500.59** |');
+  });
+
+  it('shows IGST alone for inter-state supplies', () => {
+    const table = formatGstBreakdown(calculateGst(10000, 12, { interState: true }), true);
+    expect(table).toContain('| IGST @ 12% | ₹1,200/- |');
+    expect(table).not.toContain('CGST @');
+    expect(table).toContain('(inter-state supply)');
+  });
+});
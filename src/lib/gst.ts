@@ -0,0 +1,59 @@
+import { formatRupees } from './indianFormat';
+
+export interface GstBreakdown {
+  taxableValue: number;
+  rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  totalValue: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// `inclusive` treats the amount as already containing GST and backs it out.
+// Intra-state supplies split the tax equally into CGST and SGST.
+export const calculateGst = (
+  amount: number,
+  rate: number,
+  { inclusive = false, interState = false }: { inclusive?: boolean; interState?: boolean } = {}
+): GstBreakdown => {
+  const taxableValue = round2(inclusive ? amount / (1 + rate / 100) : amount);
+  const totalTax = round2(inclusive ? amount - taxableValue : (amount * rate) / 100);
+  const half = round2(totalTax / 2);
+
+  return {
+    taxableValue,
+    rate,
+    cgst: interState ? 0 : half,
+    sgst: interState ? 0 : round2(totalTax - half),
+    igst: interState ? totalTax : 0,
+    totalTax,
+    totalValue: round2(taxableValue + totalTax)
+  };
+};
+
+export const formatGstBreakdown = (breakdown: GstBreakdown, interState: boolean) => {
+  const taxRows = interState
+    ? [`| IGST @ ${breakdown.rate}% | ${formatRupees(breakdown.igst)} |`]
+    : [
+        `| CGST @ ${breakdown.rate / 2}% | ${formatRupees(breakdown.cgst)} |`,
+        `| SGST @ ${breakdown.rate / 2}% | ${formatRupees(breakdown.sgst)} |`
+      ];
+
+  return [
+    `**GST calculation (${interState ? 'inter-state' : 'intra-state'} supply)**`,
+    '',
+    '| Particulars | Amount |',
+    '| --- | ---: |',
+    `| Taxable value | ${formatRupees(breakdown.taxableValue)} |`,
+    ...taxRows,
+    `| Total GST | ${formatRupees(breakdown.totalTax)} |`,
+    `| **Invoice value** | **${formatRupees(breakdown.totalValue)}** |`,
+    '',
+    interState
+      ? 'Mention "intra-state" to see the CGST/SGST split instead.'
+      : 'Mention "inter-state" or "IGST" to see the IGST calculation instead.'
+  ].join('\n');
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  amountInWords,
+  financialYear,
+  formatDate,
+  formatIndianDate,
+  formatIndianNumber,
+  formatRupees,
+  numberToWords,
+  ordinal
+} from './indianFormat';
+
+describe('formatIndianNumber', () => {
+  it.each([
+    [0, '0'],
+    [999, '999'],
+    [1000, '1,000'],
+    [125000, '1,25,000'],
+    [123456789, '12,34,56,789'],
+    [1234.5, '1,234.5'],
+    [1234.567, '1,234.57'],
+    [-9876543, '-98,76,543']
+  ])('%d → %s', (value, expected) => {
+    expect(formatIndianNumber(value)).toBe(expected);
+  });
+
+  it('pads to a fixed number of decimals', () => {
+    expect(formatIndianNumber(1500, 2)).toBe('1,500.00');
+    expect(formatIndianNumber(1500.456, 0)).toBe('1,500');
+  });
+
+  it('writes very large values in full', () => {
+    expect(formatIndianNumber(1e21)).toBe('1,00,00,00,00,00,00,00,00,00,000');
+    expect(formatIndianNumber(Number.MAX_SAFE_INTEGER)).toBe('9,00,71,99,25,47,40,991');
+  });
+
+  it('does not write negative zero', () => {
+    expect(formatIndianNumber(-0.001)).toBe('0');
+  });
+
+  it('leaves values that are not finite as they are', () => {
+    expect(formatIndianNumber(NaN)).toBe('NaN');
+    expect(formatIndianNumber(Infinity)).toBe('Infinity');
+  });
+});
+
+describe('formatRupees', () => {
+  it.each([
+    [0, '₹0/-'],
+    [1500, '₹1,500/-'],
+    [125000, '₹1,25,000/-'],
+    [1500.5, '₹1,500.50'],
+    [1500.004, '₹1,500/-'],
+    [-1500, '-₹1,500/-'],
+    [-1500.25, '-₹1,500.25'],
+    [-0.001, '₹0/-']
+  ])('%d → %s', (value, expected) => {
+    expect(formatRupees(value)).toBe(expected);
+  });
+});
+
+describe('numberToWords', () => {
+  it.each([
+    [0, 'Zero'],
+    [7, 'Seven'],
+    [45, 'Forty-Five'],
+    [100, 'One Hundred'],
+    [101, 'One Hundred and One'],
+    [1000, 'One Thousand'],
+    [125000, 'One Lakh Twenty-Five Thousand'],
+    [10000000, 'One Crore'],
+    [1234567890, 'One Hundred and Twenty-Three Crore Forty-Five Lakh Sixty-Seven Thousand Eight Hundred and Ninety']
+  ])('%d in English', (value, expected) => {
+    expect(numberToWords(value)).toBe(expected);
+  });
+
+  it('writes Hindi', () => {
+    expect(numberToWords(125000, 'hi')).toBe('एक लाख पच्चीस हज़ार');
+    expect(numberToWords(99, 'hi')).toBe('निन्यानवे');
+  });
+
+  it('writes Malayalam with joined forms', () => {
+    expect(numberToWords(25, 'ml')).toBe('ഇരുപത്തിയഞ്ച്');
+    expect(numberToWords(125, 'ml')).toBe('നൂറ്റി ഇരുപത്തിയഞ്ച്');
+    expect(numberToWords(100000, 'ml')).toBe('ഒരു ലക്ഷം');
+    expect(numberToWords(1000, 'ml')).toBe('ആയിരം');
+  });
+
+  it.each([
+    [1001, 'ആയിരത്തി ഒന്ന്'],
+    [1500, 'ആയിരത്തി അഞ്ഞൂറ്'],
+    [2000, 'രണ്ടായിരം'],
+    [3000, 'മൂവായിരം'],
+    [5000, 'അയ്യായിരം'],
+    [8000, 'എണ്ണായിരം'],
+    [9000, 'ഒൻപതിനായിരം'],
+    [10000, 'പതിനായിരം'],
+    [15000, 'പതിനയ്യായിരം'],
+    [20000, 'ഇരുപതിനായിരം'],
+    [21000, 'ഇരുപത്തൊന്നായിരം'],
+    [22000, 'ഇരുപത്തിരണ്ടായിരം'],
+    [25000, 'ഇരുപത്തയ്യായിരം'],
+    [26000, 'ഇരുപത്താറായിരം'],
+    [90000, 'തൊണ്ണൂറായിരം'],
+    [99000, 'തൊണ്ണൂറ്റൊൻപതിനായിരം'],
+    [2500, 'രണ്ടായിരത്തി അഞ്ഞൂറ്'],
+    [45250, 'നാൽപ്പത്തയ്യായിരത്തി ഇരുനൂറ്റി അമ്പത്'],
+    [125000, 'ഒരു ലക്ഷത്തി ഇരുപത്തയ്യായിരം'],
+    [250000, 'രണ്ട് ലക്ഷത്തി അമ്പതിനായിരം'],
+    [1000000, 'പത്ത് ലക്ഷം'],
+    [10000000, 'ഒരു കോടി'],
+    [12500000, 'ഒരു കോടി ഇരുപത്തിയഞ്ച് ലക്ഷം']
+  ])('%d in Malayalam', (value, expected) => {
+    expect(numberToWords(value, 'ml')).toBe(expected);
+  });
+
+  it('ignores the sign and fraction', () => {
+    expect(numberToWords(-12.9)).toBe('Twelve');
+  });
+});
+
+describe('amountInWords', () => {
+  it('writes rupees and paise', () => {
+    expect(amountInWords(125000)).toBe('Rupees One Lakh Twenty-Five Thousand only');
+    expect(amountInWords(101.5)).toBe('Rupees One Hundred and One and Paise Fifty only');
+    expect(amountInWords(1500.05)).toBe('Rupees One Thousand Five Hundred and Paise Five only');
+    expect(amountInWords(0.75)).toBe('Rupees Zero and Paise Seventy-Five only');
+    expect(amountInWords(0)).toBe('Rupees Zero only');
+  });
+
+  it('writes Hindi and Malayalam', () => {
+    expect(amountInWords(500, 'hi')).toBe('पाँच सौ रुपये मात्र');
+    expect(amountInWords(2.5, 'hi')).toBe('दो रुपये और पचास पैसे मात्र');
+    expect(amountInWords(500, 'ml')).toBe('അഞ്ഞൂറ് രൂപ മാത്രം');
+  });
+});
+
+describe('dates', () => {
+  const date = new Date(2025, 3, 1);
+
+  it.each([[1, '1st'], [2, '2nd'], [3, '3rd'], [4, '4th'], [11, '11th'], [12, '12th'], [13, '13th'], [21, '21st'], [112, '112th']])(
+    'ordinal(%d) → %s',
+    (n, expected) => {
+      expect(ordinal(n)).toBe(expected);
+    }
+  );
+
+  it('formats tokens', () => {
+    expect(formatDate(date, 'Do MMM YY, DD/MM/YYYY (D/M)')).toBe('1st Apr 25, 01/04/2025 (1/4)');
+  });
+
+  it('leaves literal text alone', () => {
+    expect(formatDate(date, 'Dated: DD/MM/YYYY')).toBe('Dated: 01/04/2025');
+    expect(formatDate(date, 'Do [day of] MMMM, YYYY')).toBe('1st day of April, 2025');
+    expect(formatDate(date, '[DD] DD [YYYY] Mon')).toBe('DD 01 YYYY Mon');
+  });
+
+  it('formats the document date styles', () => {
+    expect(formatIndianDate(date)).toBe('01/04/2025');
+    expect(formatIndianDate(date, 'long')).toBe('1 April 2025');
+    expect(formatIndianDate(date, 'ordinal')).toBe('1st April 2025');
+    expect(formatIndianDate(date, 'legal')).toBe('1st day of April, 2025');
+  });
+
+  it('finds the April-to-March financial year', () => {
+    expect(financialYear(new Date(2025, 2, 31))).toBe('2024-25');
+    expect(financialYear(date)).toBe('2025-26');
+    expect(financialYear(new Date(2099, 11, 31))).toBe('2099-00');
+  });
+});
@@ -0,0 +1,234 @@
+// Number, currency and date formatting the way Indian legal and financial
+// documents write them: lakh/crore digit grouping, "₹1,25,000/-", amounts in
+// words ("Rupees One Lakh Twenty-Five Thousand only") and ordinal dates.
+
+export type WordsLanguage = 'en' | 'hi' | 'ml';
+
+export type IndianDateStyle = 'short' | 'long' | 'ordinal' | 'legal';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Groups the integer part as 12,34,56,789: the last three digits, then pairs
+const groupIndian = (digits: string) => {
+  if (digits.length <= 3) return digits;
+  const head = digits.slice(0, -3).replace(/\B(?=(\d{2})+$)/g, ',');
+  return `${head},${digits.slice(-3)}`;
+};
+
+// Digits come from toLocaleString so large values are written out in full
+// instead of in exponent form
+export const formatIndianNumber = (value: number, decimals?: number) => {
+  if (!Number.isFinite(value)) return String(value);
+  const fixed = Math.abs(value).toLocaleString('en-IN', {
+    useGrouping: false,
+    minimumFractionDigits: decimals ?? 0,
+    maximumFractionDigits: decimals ?? 2
+  });
+  const [integer, fraction] = fixed.split('.');
+  // No "-0" for values that round to zero
+  const sign = value < 0 && /[1-9]/.test(fixed) ? '-' : '';
+  return `${sign}${groupIndian(integer)}${fraction ? `.${fraction}` : ''}`;
+};
+
+// Whole amounts get the customary "/-" suffix; amounts with paise keep two
+// decimals instead. The sign goes before the rupee symbol: -₹1,500/-
+export const formatRupees = (value: number) => {
+  const paise = Math.round(Math.abs(value) * 100) % 100;
+  const digits = paise === 0
+    ? `₹${formatIndianNumber(Math.round(Math.abs(value)), 0)}/-`
+    : `₹${formatIndianNumber(Math.abs(value), 2)}`;
+  return value < 0 && /[1-9]/.test(digits) ? `-${digits}` : digits;
+};
+
+interface WordsTable {
+  belowHundred: (n: number) => string;
+  // `followed` when tens or units come after, which changes the Malayalam form
+  hundreds: (n: number, followed: boolean) => string;
+  // `count` is the multiplier already in words, `n` the same as a number;
+  // `followed` as for hundreds
+  scale: (count: string, unit: 'thousand' | 'lakh' | 'crore', n: number, followed: boolean) => string;
+  // Joins the spoken parts of a number; English adds "and" before the tens
+  join: (parts: string[], remainder: number) => string;
+}
+
+const EN_ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const EN_TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Hindi numbers below a hundred are not composed regularly, so all are listed
+const HI_BELOW_HUNDRED = [
+  '', 'एक', 'दो', 'तीन', 'चार', 'पाँच', 'छह', 'सात', 'आठ', 'नौ', 'दस',
+  'ग्यारह', 'बारह', 'तेरह', 'चौदह', 'पंद्रह', 'सोलह', 'सत्रह', 'अठारह', 'उन्नीस', 'बीस',
+  'इक्कीस', 'बाईस', 'तेईस', 'चौबीस', 'पच्चीस', 'छब्बीस', 'सत्ताईस', 'अट्ठाईस', 'उनतीस', 'तीस',
+  'इकतीस', 'बत्तीस', 'तैंतीस', 'चौंतीस', 'पैंतीस', 'छत्तीस', 'सैंतीस', 'अड़तीस', 'उनतालीस', 'चालीस',
+  'इकतालीस', 'बयालीस', 'तैंतालीस', 'चवालीस', 'पैंतालीस', 'छियालीस', 'सैंतालीस', 'अड़तालीस', 'उनचास', 'पचास',
+  'इक्यावन', 'बावन', 'तिरपन', 'चौवन', 'पचपन', 'छप्पन', 'सत्तावन', 'अट्ठावन', 'उनसठ', 'साठ',
+  'इकसठ', 'बासठ', 'तिरसठ', 'चौंसठ', 'पैंसठ', 'छियासठ', 'सड़सठ', 'अड़सठ', 'उनहत्तर', 'सत्तर',
+  'इकहत्तर', 'बहत्तर', 'तिहत्तर', 'चौहत्तर', 'पचहत्तर', 'छिहत्तर', 'सतहत्तर', 'अठहत्तर', 'उन्यासी', 'अस्सी',
+  'इक्यासी', 'बयासी', 'तिरासी', 'चौरासी', 'पचासी', 'छियासी', 'सत्तासी', 'अट्ठासी', 'नवासी', 'नब्बे',
+  'इक्यानवे', 'बानवे', 'तिरानवे', 'चौरानवे', 'पचानवे', 'छियानवे', 'सत्तानवे', 'अट्ठानवे', 'निन्यानवे'
+];
+
+const ML_ONES = [
+  '', 'ഒന്ന്', 'രണ്ട്', 'മൂന്ന്', 'നാല്', 'അഞ്ച്', 'ആറ്', 'ഏഴ്', 'എട്ട്', 'ഒൻപത്', 'പത്ത്',
+  'പതിനൊന്ന്', 'പന്ത്രണ്ട്', 'പതിമൂന്ന്', 'പതിനാല്', 'പതിനഞ്ച്', 'പതിനാറ്', 'പതിനേഴ്', 'പതിനെട്ട്', 'പത്തൊൻപത്'
+];
+const ML_TENS = ['', '', 'ഇരുപത്', 'മുപ്പത്', 'നാൽപ്പത്', 'അമ്പത്', 'അറുപത്', 'എഴുപത്', 'എൺപത്', 'തൊണ്ണൂറ്'];
+// Tens followed by a unit, e.g. ഇരുപത്തി + യഞ്ച് = ഇരുപത്തിയഞ്ച് (25)
+const ML_TENS_JOINED = ['', '', 'ഇരുപത്തി', 'മുപ്പത്തി', 'നാൽപ്പത്തി', 'അമ്പത്തി', 'അറുപത്തി', 'എഴുപത്തി', 'എൺപത്തി', 'തൊണ്ണൂറ്റി'];
+const ML_UNITS_JOINED = ['', 'യൊന്ന്', 'രണ്ട്', 'മൂന്ന്', 'നാല്', 'യഞ്ച്', 'യാറ്', 'യേഴ്', 'യെട്ട്', 'യൊൻപത്'];
+const ML_HUNDREDS = ['', 'നൂറ്', 'ഇരുനൂറ്', 'മുന്നൂറ്', 'നാനൂറ്', 'അഞ്ഞൂറ്', 'അറുനൂറ്', 'എഴുനൂറ്', 'എണ്ണൂറ്', 'തൊള്ളായിരം'];
+const ML_HUNDREDS_JOINED = ['', 'നൂറ്റി', 'ഇരുനൂറ്റി', 'മുന്നൂറ്റി', 'നാനൂറ്റി', 'അഞ്ഞൂറ്റി', 'അറുനൂറ്റി', 'എഴുനൂറ്റി', 'എണ്ണൂറ്റി', 'തൊള്ളായിരത്തി'];
+// Thousands join onto their multiplier: രണ്ടായിരം (2000), അയ്യായിരം (5000)
+const ML_THOUSANDS = [
+  '', 'ആയിരം', 'രണ്ടായിരം', 'മൂവായിരം', 'നാലായിരം', 'അയ്യായിരം', 'ആറായിരം', 'ഏഴായിരം', 'എണ്ണായിരം', 'ഒൻപതിനായിരം',
+  'പതിനായിരം', 'പതിനൊന്നായിരം', 'പന്ത്രണ്ടായിരം', 'പതിമൂവായിരം', 'പതിനാലായിരം', 'പതിനയ്യായിരം', 'പതിനാറായിരം',
+  'പതിനേഴായിരം', 'പതിനെട്ടായിരം', 'പത്തൊൻപതിനായിരം'
+];
+const ML_TENS_THOUSANDS = ['', '', 'ഇരുപതിനായിരം', 'മുപ്പതിനായിരം', 'നാൽപ്പതിനായിരം', 'അമ്പതിനായിരം', 'അറുപതിനായിരം', 'എഴുപതിനായിരം', 'എൺപതിനായിരം', 'തൊണ്ണൂറായിരം'];
+// Tens and units of thousands: the stem ഇരുപത്ത + യ്യായിരം = ഇരുപത്തയ്യായിരം
+// (25,000), + ിരണ്ടായിരം = ഇരുപത്തിരണ്ടായിരം (22,000)
+const ML_TENS_STEM = ['', '', 'ഇരുപത്ത', 'മുപ്പത്ത', 'നാൽപ്പത്ത', 'അമ്പത്ത', 'അറുപത്ത', 'എഴുപത്ത', 'എൺപത്ത', 'തൊണ്ണൂറ്റ'];
+const ML_UNIT_THOUSANDS_JOINED = ['', 'ൊന്നായിരം', 'ിരണ്ടായിരം', 'ിമൂവായിരം', 'ിനാലായിരം', 'യ്യായിരം', 'ാറായിരം', 'േഴായിരം', 'െട്ടായിരം', 'ൊൻപതിനായിരം'];
+
+const mlThousands = (n: number) => {
+  if (n < 20) return ML_THOUSANDS[n];
+  if (n % 10 === 0) return ML_TENS_THOUSANDS[n / 10];
+  return ML_TENS_STEM[Math.floor(n / 10)] + ML_UNIT_THOUSANDS_JOINED[n % 10];
+};
+
+// ആയിരം and ലക്ഷം take -ത്തി when more of the number follows: ആയിരത്തി
+// അഞ്ഞൂറ് (1,500), ഒരു ലക്ഷത്തി ഇരുപത്തയ്യായിരം (1,25,000)
+const mlJoined = (words: string, followed: boolean) => (followed ? words.replace(/ം$/, 'ത്തി') : words);
+
+const SCALE_WORDS: Record<WordsLanguage, Record<'thousand' | 'lakh' | 'crore', string>> = {
+  en: { thousand: 'Thousand', lakh: 'Lakh', crore: 'Crore' },
+  hi: { thousand: 'हज़ार', lakh: 'लाख', crore: 'करोड़' },
+  ml: { thousand: 'ആയിരം', lakh: 'ലക്ഷം', crore: 'കോടി' }
+};
+
+const WORDS: Record<WordsLanguage, WordsTable> = {
+  en: {
+    belowHundred: n => (n < 20 ? EN_ONES[n] : [EN_TENS[Math.floor(n / 10)], EN_ONES[n % 10]].filter(Boolean).join('-')),
+    hundreds: n => `${EN_ONES[n]} Hundred`,
+    scale: (count, unit) => `${count} ${SCALE_WORDS.en[unit]}`,
+    join: (parts, remainder) =>
+      parts.length > 1 && remainder > 0
+        ? `${parts.slice(0, -1).join(' ')} and ${parts[parts.length - 1]}`
+        : parts.join(' ')
+  },
+  hi: {
+    belowHundred: n => HI_BELOW_HUNDRED[n],
+    hundreds: n => `${HI_BELOW_HUNDRED[n]} सौ`,
+    scale: (count, unit) => `${count} ${SCALE_WORDS.hi[unit]}`,
+    join: parts => parts.join(' ')
+  },
+  ml: {
+    belowHundred: n =>
+      n < 20 ? ML_ONES[n] : n % 10 === 0 ? ML_TENS[n / 10] : ML_TENS_JOINED[Math.floor(n / 10)] + ML_UNITS_JOINED[n % 10],
+    hundreds: (n, followed) => (followed ? ML_HUNDREDS_JOINED : ML_HUNDREDS)[n],
+    // "ഒരു ലക്ഷം" (one lakh) uses the adjectival form of one
+    scale: (count, unit, n, followed) => {
+      if (unit === 'thousand') return mlJoined(mlThousands(n), followed);
+      return mlJoined(`${n === 1 ? 'ഒരു' : count} ${SCALE_WORDS.ml[unit]}`, followed);
+    },
+    join: parts => parts.join(' ')
+  }
+};
+
+const ZERO: Record<WordsLanguage, string> = { en: 'Zero', hi: 'शून्य', ml: 'പൂജ്യം' };
+
+const integerToWords = (n: number, table: WordsTable): string => {
+  const parts: string[] = [];
+  const crores = Math.floor(n / 1e7);
+  const lakhs = Math.floor((n % 1e7) / 1e5);
+  const thousands = Math.floor((n % 1e5) / 1e3);
+  const hundreds = Math.floor((n % 1e3) / 100);
+  const remainder = n % 100;
+
+  // Amounts of a hundred crore and above repeat the crore unit
+  if (crores) parts.push(table.scale(integerToWords(crores, table), 'crore', crores, n % 1e7 > 0));
+  if (lakhs) parts.push(table.scale(table.belowHundred(lakhs), 'lakh', lakhs, n % 1e5 > 0));
+  if (thousands) parts.push(table.scale(table.belowHundred(thousands), 'thousand', thousands, n % 1e3 > 0));
+  if (hundreds) parts.push(table.hundreds(hundreds, remainder > 0));
+  if (remainder) parts.push(table.belowHundred(remainder));
+
+  return table.join(parts, remainder);
+};
+
+export const numberToWords = (value: number, language: WordsLanguage = 'en') => {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return ZERO[language];
+  return integerToWords(n, WORDS[language]);
+};
+
+// "Rupees One Lakh Twenty-Five Thousand only", with paise when present:
+// "Rupees One Hundred and One and Paise Fifty only"
+export const amountInWords = (value: number, language: WordsLanguage = 'en') => {
+  const rupees = Math.floor(Math.abs(value));
+  const paise = Math.round(Math.abs(value) * 100) % 100;
+  const rupeeWords = numberToWords(rupees, language);
+  const paiseWords = paise ? numberToWords(paise, language) : '';
+
+  switch (language) {
+    case 'hi':
+      return paise ? `${rupeeWords} रुपये और ${paiseWords} पैसे मात्र` : `${rupeeWords} रुपये मात्र`;
+    case 'ml':
+      return paise ? `${rupeeWords} രൂപ ${paiseWords} പൈസ മാത്രം` : `${rupeeWords} രൂപ മാത്രം`;
+    default:
+      return paise ? `Rupees ${rupeeWords} and Paise ${paiseWords} only` : `Rupees ${rupeeWords} only`;
+  }
+};
+
+const ORDINAL_SUFFIXES: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+
+export const ordinal = (n: number) => {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+  return `${n}${ORDINAL_SUFFIXES[n % 10] ?? 'th'}`;
+};
+
+// Supports YYYY, YY, MMMM, MMM, MM, M, DD, D and Do (ordinal day). Tokens
+// inside longer words are left alone, and text in [brackets] is printed as
+// written: "[Dated]: DD/MM/YYYY" or "Dated: DD/MM/YYYY"
+export const formatDate = (date: Date, format: string) =>
+  format.replace(/\[([^\]]*)\]|(?<![A-Za-z])(?:YYYY|YY|MMMM|MMM|MM|M|DD|Do|D)(?![A-Za-z])/g, (token, literal?: string) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTHS[date.getMonth()];
+      case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+      case 'MM': return String(date.getMonth() + 1).padStart(2, '0');
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return String(date.getDate()).padStart(2, '0');
+      case 'Do': return ordinal(date.getDate());
+      default: return String(date.getDate());
+    }
+  });
+
+export const INDIAN_DATE_STYLES: IndianDateStyle[] = ['short', 'long', 'ordinal', 'legal'];
+
+const DATE_FORMATS: Record<Exclude<IndianDateStyle, 'legal'>, string> = {
+  short: 'DD/MM/YYYY',
+  long: 'D MMMM YYYY',
+  ordinal: 'Do MMMM YYYY'
+};
+
+// short: 01/04/2025, long: 1 April 2025, ordinal: 1st April 2025,
+// legal: 1st day of April, 2025
+export const formatIndianDate = (date: Date, style: IndianDateStyle = 'short') =>
+  style === 'legal'
+    ? `${ordinal(date.getDate())} day of ${formatDate(date, 'MMMM, YYYY')}`
+    : formatDate(date, DATE_FORMATS[style]);
+
+// The April-to-March financial year a date falls in, e.g. "2025-26"
+export const financialYear = (date: Date) => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String(start + 1).slice(-2)}`;
+};
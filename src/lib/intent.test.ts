@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyIntent, Intent, routeIntent, TemplateCandidate } from './intent';
+import { LLMProvider } from './llm';
+
+const TEMPLATES: TemplateCandidate[] = [
+  { id: 'rent', name: 'Rental Agreement', keywords: ['rent agreement', 'lease deed', 'tenancy'] },
+  { id: 'nda', name: 'Non-Disclosure Agreement', keywords: ['nda', 'confidentiality agreement'] },
+  { id: 'partnership', name: 'Partnership Deed', keywords: ['partnership', 'firm deed'] },
+  { id: 'gst-letter', name: 'GST Authorised Signatory Letter', keywords: ['authorised signatory', 'authorized signatory'] }
+];
+
+// The part of the intent the fixtures pin down; confidences are checked
+// separately
+const summarise = (intent: Intent) => {
+  switch (intent.type) {
+    case 'document_request':
+      return { type: intent.type, template: intent.template?.id ?? null };
+    case 'firm_info':
+      return { type: intent.type, topic: intent.topic };
+    case 'calculator':
+      return { type: intent.type, amount: intent.amount, rate: intent.rate, inclusive: intent.inclusive, interState: intent.interState };
+    default:
+      return { type: intent.type };
+  }
+};
+
+const FIXTURES: [string, ReturnType<typeof summarise>][] = [
+  // Tax questions, including ones that mention documents or numbers
+  ['What is the due date for GSTR-3B?', { type: 'tax_question' }],
+  ['What is the GST rate on a rent agreement?', { type: 'tax_question' }],
+  ['Can I claim ITC under section 16 for 2023-24?', { type: 'tax_question' }],
+  ['Explain the difference between CGST and IGST', { type: 'tax_question' }],
+  ['What is a contact note under GST?', { type: 'tax_question' }],
+  ['How is TDS deducted on salary?', { type: 'tax_question' }],
+
+  // Document requests, with and without a matching template
+  ['Draft a rent agreement for my flat', { type: 'document_request', template: 'rent' }],
+  ['Please prepare an NDA', { type: 'document_request', template: 'nda' }],
+  ['I need a partnership deed', { type: 'document_request', template: 'partnership' }],
+  ['Create an authorized signatory letter for GST', { type: 'document_request', template: 'gst-letter' }],
+  ['Draft a reply to a GST show cause notice', { type: 'document_request', template: null }],
+
+  // Questions about the firm
+  ['How can I contact you?', { type: 'firm_info', topic: 'contact' }],
+  ['What is your office address?', { type: 'firm_info', topic: 'contact' }],
+  ['Tell me about Finacco', { type: 'firm_info', topic: 'about' }],
+  ['What services does Finacco offer?', { type: 'firm_info', topic: 'about' }],
+
+  // GST calculations
+  ['Calculate GST on 50000 at 18%', { type: 'calculator', amount: 50000, rate: 18, inclusive: false, interState: false }],
+  ['What is 18% GST on ₹1,18,000 inclusive?', { type: 'calculator', amount: 118000, rate: 18, inclusive: true, interState: false }],
+  ['IGST at 12% on Rs. 2.5 lakh', { type: 'calculator', amount: 250000, rate: 12, inclusive: false, interState: true }],
+  ['How much GST is payable on 10k at 5 percent?', { type: 'calculator', amount: 10000, rate: 5, inclusive: false, interState: false }],
+
+  // A rate alone is not a calculation: section and rule numbers are not amounts
+  ['Is GST 18% applicable on commercial rent under section 9(3)?', { type: 'calculator', amount: null, rate: 18, inclusive: false, interState: false }],
+  ['Is 5% GST payable under rule 36(4) for 2024-25?', { type: 'calculator', amount: null, rate: 5, inclusive: false, interState: false }],
+  ['Does GST at 28% apply to 3 cars?', { type: 'calculator', amount: null, rate: 28, inclusive: false, interState: false }]
+];
+
+// Without a model, as for users who have not set one up
+describe('routing fixtures', () => {
+  it.each(FIXTURES)('%s', async (query, expected) => {
+    expect(summarise(await routeIntent(query, { templates: TEMPLATES }))).toEqual(expected);
+  });
+});
+
+describe('classifyIntent', () => {
+  it('leaves document mentions without an ask as ambiguous', () => {
+    const intent = classifyIntent('What is the GST rate on a rent agreement?', TEMPLATES);
+    expect(intent.type).toBe('document_request');
+    expect(intent.confidence).toBeLessThan(0.6);
+  });
+
+  it('is confident only about calculations it can complete', () => {
+    expect(classifyIntent('Calculate GST on 50000 at 18%').confidence).toBe(0.9);
+    expect(classifyIntent('Is GST 18% applicable on commercial rent under section 9(3)?').confidence).toBe(0.5);
+  });
+
+  it('treats an empty message as a question', () => {
+    expect(classifyIntent('   ')).toEqual({ type: 'tax_question', confidence: 1 });
+  });
+});
+
+describe('routeIntent', () => {
+  const providerAnswering = (answer: string) => {
+    const generate = vi.fn().mockResolvedValue(answer);
+    return { provider: { id: 'gemini', model: 'test', generate } as unknown as LLMProvider, generate };
+  };
+
+  // No verb, so keyword scoring alone cannot tell
+  const AMBIGUOUS = 'rent agreement for shop';
+
+  it('does not call the model for clear cases', async () => {
+    const { provider, generate } = providerAnswering('{"intent": "tax_question"}');
+    const intent = await routeIntent('Draft a rent agreement', { templates: TEMPLATES, provider });
+    expect(summarise(intent)).toEqual({ type: 'document_request', template: 'rent' });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('asks the model when the message is ambiguous', async () => {
+    const { provider, generate } = providerAnswering('Sure: {"intent": "document_request", "documentType": "Shop rent agreement", "templateId": "rent", "topic": null}');
+    const intent = await routeIntent(AMBIGUOUS, { templates: TEMPLATES, provider });
+    expect(generate).toHaveBeenCalledOnce();
+    expect(intent).toEqual({
+      type: 'document_request',
+      documentType: 'Rental Agreement',
+      template: { id: 'rent', name: 'Rental Agreement', score: 1 },
+      confidence: 0.7
+    });
+  });
+
+  it('falls back to a tax question without a model or a usable answer', async () => {
+    expect((await routeIntent(AMBIGUOUS, { templates: TEMPLATES })).type).toBe('tax_question');
+
+    const { provider } = providerAnswering('not json');
+    expect((await routeIntent(AMBIGUOUS, { templates: TEMPLATES, provider })).type).toBe('tax_question');
+  });
+
+  it('falls back to a tax question when the model call fails', async () => {
+    const generate = vi.fn().mockRejectedValue(new Error('offline'));
+    const provider = { id: 'gemini', model: 'test', generate } as unknown as LLMProvider;
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect((await routeIntent(AMBIGUOUS, { templates: TEMPLATES, provider })).type).toBe('tax_question');
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,302 @@
+import { LLMProvider } from './llm';
+
+// Routes a chat message to what the assistant should do with it. Keyword
+// scoring decides clear cases without a model call; only ambiguous messages
+// fall back to a structured classification by the model, when one is given.
+
+export type FirmInfoTopic = 'about' | 'contact' | 'connect' | 'advisory';
+
+export interface TemplateCandidate {
+  id: string;
+  name: string;
+  keywords?: string[] | null;
+}
+
+export interface TemplateMatch {
+  id: string;
+  name: string;
+  score: number;
+}
+
+export type Intent =
+  | { type: 'tax_question'; confidence: number }
+  | { type: 'document_request'; documentType: string; template: TemplateMatch | null; confidence: number }
+  | { type: 'firm_info'; topic: FirmInfoTopic; confidence: number }
+  | {
+      type: 'calculator';
+      calculator: 'gst';
+      amount: number | null;
+      rate: number | null;
+      inclusive: boolean;
+      interState: boolean;
+      confidence: number;
+    };
+
+export interface RouteIntentOptions {
+  templates?: TemplateCandidate[];
+  // Consulted only when keyword scoring is inconclusive
+  provider?: LLMProvider | null;
+}
+
+const DOCUMENT_THRESHOLD = 0.6;
+const AMBIGUOUS_THRESHOLD = 0.35;
+const TEMPLATE_THRESHOLD = 0.75;
+const FIRM_INFO_THRESHOLD = 0.7;
+
+const DOCUMENT_VERBS: Record<string, number> = {
+  draft: 0.5, prepare: 0.5, generate: 0.5, create: 0.4, write: 0.4, make: 0.3, need: 0.2, want: 0.2
+};
+
+const DOCUMENT_NOUNS = [
+  'agreement', 'deed', 'letter', 'notice', 'affidavit', 'resolution', 'declaration', 'undertaking',
+  'nda', 'contract', 'authorisation', 'authorization', 'power of attorney', 'lease', 'mou',
+  'certificate', 'reply', 'bond', 'will', 'document', 'format', 'template'
+];
+
+const QUESTION_WORDS = new Set([
+  'what', 'why', 'how', 'when', 'where', 'which', 'who', 'is', 'are', 'can', 'does', 'do',
+  'should', 'explain', 'difference'
+]);
+
+const FIRM_TOPICS: Record<FirmInfoTopic, string[]> = {
+  contact: ['contact', 'phone', 'email', 'address', 'reach', 'call', 'whatsapp', 'location', 'office hours', 'timings'],
+  connect: ['tally', 'connect', 'utility software', 'data import', 'bank statement import'],
+  advisory: ['advisory', 'financial services', 'consultancy'],
+  about: ['about', 'who are', 'services', 'company information']
+};
+
+// Words that make "contact" or "services" about the firm rather than, say, a
+// "contact note under GST". A bare "you" is too common ("can you explain...")
+// to count on its own.
+const FIRM_REFERENCES: Record<string, number> = { finacco: 0.5, your: 0.3, yours: 0.3 };
+const CONTACT_PHRASES = ['contact you', 'reach you', 'call you', 'email you', 'visit you', 'meet you'];
+
+const tokenize = (text: string) =>
+  text.toLowerCase().normalize('NFKD').match(/[a-z0-9]+(?:\.[0-9]+)?/g) ?? [];
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly ("nda" is not "and"); longer ones tolerate
+// typos and suffixes such as rent/rental or deed/deeds.
+const similarTokens = (a: string, b: string) => {
+  if (a === b) return true;
+  if (a.length <= 3 || b.length <= 3) return false;
+  if (a.startsWith(b) || b.startsWith(a)) return true;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length) >= 0.8;
+};
+
+// Fraction of the phrase's words found (fuzzily) in the query tokens
+const phraseScore = (phrase: string, tokens: string[]) => {
+  const phraseTokens = tokenize(phrase);
+  if (phraseTokens.length === 0) return 0;
+  const matched = phraseTokens.filter(word => tokens.some(token => similarTokens(word, token)));
+  return matched.length / phraseTokens.length;
+};
+
+const exactPhrase = (phrase: string, tokens: string[]) =>
+  ` ${tokens.join(' ')} `.includes(` ${tokenize(phrase).join(' ')} `);
+
+const matchTemplate = (tokens: string[], templates: TemplateCandidate[]): TemplateMatch | null => {
+  let best: TemplateMatch | null = null;
+
+  for (const template of templates) {
+    const phrases = [template.name, ...(template.keywords ?? [])];
+    const score = Math.max(...phrases.map(phrase => phraseScore(phrase, tokens)));
+    if (!best || score > best.score) {
+      best = { id: template.id, name: template.name, score };
+    }
+  }
+
+  return best && best.score >= TEMPLATE_THRESHOLD ? best : null;
+};
+
+const extractDocumentType = (query: string) =>
+  query
+    .replace(/^\s*(please\s+)?(can you\s+|could you\s+)?(help me\s+)?/i, '')
+    .replace(/^(draft|create|generate|write|prepare|make|i need|i want)\s+(me\s+)?(a|an|the)?\s*/i, '')
+    .replace(/\s+for me\b/i, '')
+    .replace(/[?.!]+$/, '')
+    .trim();
+
+const scoreDocumentRequest = (tokens: string[], template: TemplateMatch | null) => {
+  const verb = Math.max(0, ...tokens.map(token => DOCUMENT_VERBS[token] ?? 0));
+  const noun = DOCUMENT_NOUNS.some(noun => exactPhrase(noun, tokens)) ? 0.4 : 0;
+  const templateScore = template ? template.score * 0.4 : 0;
+  const question = QUESTION_WORDS.has(tokens[0]) ? 0.3 : 0;
+  const score = Math.max(0, Math.min(1, verb + noun + templateScore - question));
+  // Without an explicit ask ("GST on rent agreement") it is at most ambiguous
+  return verb === 0 ? Math.min(score, DOCUMENT_THRESHOLD - 0.05) : score;
+};
+
+const scoreFirmInfo = (tokens: string[]): { topic: FirmInfoTopic; confidence: number } | null => {
+  if (CONTACT_PHRASES.some(phrase => exactPhrase(phrase, tokens))) {
+    return { topic: 'contact', confidence: 0.9 };
+  }
+
+  const reference = Math.max(0, ...tokens.map(token => FIRM_REFERENCES[token] ?? 0));
+  if (reference === 0) return null;
+
+  let best: { topic: FirmInfoTopic; score: number } | null = null;
+  for (const [topic, phrases] of Object.entries(FIRM_TOPICS) as [FirmInfoTopic, string[]][]) {
+    const score = phrases.some(phrase => exactPhrase(phrase, tokens)) ? 0.5 : 0;
+    if (score > 0 && (!best || score > best.score)) best = { topic, score };
+  }
+
+  // "Tell me about Finacco" and similar
+  if (!best) return tokens.includes('finacco') ? { topic: 'about', confidence: 0.8 } : null;
+  return { topic: best.topic, confidence: Math.min(1, reference + best.score) };
+};
+
+const AMOUNT_UNITS: Record<string, number> = { k: 1e3, thousand: 1e3, lakh: 1e5, lakhs: 1e5, lac: 1e5, crore: 1e7, crores: 1e7, cr: 1e7 };
+
+// Numbers that cite the law or a return rather than an amount: section 16,
+// 9(3), rule 36(4), GSTR-3B, FY 2024-25
+const REFERENCE_NUMBERS = [
+  /\b(?:sections?|sec|rules?|notifications?|schedules?|chapters?|articles?|entry|item|serial|sl|no|form|para|clause|circular)\.?\s*(?:no\.?\s*)?\d[\w()./-]*/g,
+  /\b\d+[a-z]?(?:\([0-9a-z]+\))+/g,
+  /\bgstr[\s-]*\d+[a-z]*\b/g,
+  /\b(?:fy|ay)?\s*\d{4}\s*-\s*\d{2,4}\b/g
+];
+
+// Wording that makes a bare number an amount: "calculate GST on 50000"
+const CALCULATION_WORDING = /\b(calculat\w*|compute|how much)\b/;
+
+const parseGstCalculation = (query: string) => {
+  const lower = query.toLowerCase();
+  if (!/\bgst\b|\bigst\b/.test(lower) || !/\d/.test(lower)) return null;
+  if (!/(calculat|compute|how much|what is|find|\d\s*%)/.test(lower)) return null;
+
+  const withoutReferences = REFERENCE_NUMBERS.reduce((text, pattern) => text.replace(pattern, ' '), lower);
+  const rateMatch = withoutReferences.match(/(\d+(?:\.\d+)?)\s*(%|percent)/);
+  const rate = rateMatch ? parseFloat(rateMatch[1]) : null;
+  const withoutRate = rateMatch ? withoutReferences.replace(rateMatch[0], ' ') : withoutReferences;
+  const calculation = CALCULATION_WORDING.test(lower);
+
+  // A number counts as money with a currency sign, a unit such as lakh, after
+  // "on" or "of" ("GST on 50000"), or anywhere in an explicit calculation
+  const amounts = Array.from(withoutRate.matchAll(/(₹|\brs\.?|\binr|\bon|\bof)?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|lakhs?|lac|crores?|cr)?\b/g))
+    .filter(([, marker, , unit]) => marker || unit || calculation)
+    .map(([, , digits, unit]) => parseFloat(digits.replace(/,/g, '')) * (AMOUNT_UNITS[unit ?? ''] ?? 1))
+    .filter(value => !isNaN(value));
+
+  return {
+    amount: amounts.length > 0 ? Math.max(...amounts) : null,
+    rate,
+    inclusive: /inclusive|including|incl\b|with gst/.test(lower),
+    interState: /\bigst\b|inter[\s-]?state/.test(lower)
+  };
+};
+
+// Deterministic routing only; see routeIntent for the model fallback
+export const classifyIntent = (query: string, templates: TemplateCandidate[] = []): Intent => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return { type: 'tax_question', confidence: 1 };
+
+  const gst = parseGstCalculation(query);
+  if (gst) {
+    return { type: 'calculator', calculator: 'gst', ...gst, confidence: gst.amount && gst.rate ? 0.9 : 0.5 };
+  }
+
+  const firmInfo = scoreFirmInfo(tokens);
+  if (firmInfo && firmInfo.confidence >= FIRM_INFO_THRESHOLD) {
+    return { type: 'firm_info', ...firmInfo };
+  }
+
+  const template = matchTemplate(tokens, templates);
+  const documentConfidence = scoreDocumentRequest(tokens, template);
+  if (documentConfidence >= AMBIGUOUS_THRESHOLD) {
+    return {
+      type: 'document_request',
+      documentType: template?.name ?? extractDocumentType(query),
+      template,
+      confidence: documentConfidence
+    };
+  }
+
+  return { type: 'tax_question', confidence: 1 - documentConfidence };
+};
+
+interface ModelClassification {
+  intent?: string;
+  documentType?: string | null;
+  templateId?: string | null;
+  topic?: FirmInfoTopic | null;
+}
+
+const classifyWithModel = async (
+  query: string,
+  templates: TemplateCandidate[],
+  provider: LLMProvider
+): Promise<Intent | null> => {
+  const answer = await provider.generate(
+    [{
+      role: 'user',
+      content: `Classify this message sent to the GST / Income Tax assistant of Finacco Solutions, a tax and accounting firm.
+
+Respond with JSON only, in this shape:
+{"intent": "tax_question" | "document_request" | "firm_info", "documentType": string | null, "templateId": string | null, "topic": "about" | "contact" | "connect" | "advisory" | null}
+
+- document_request: the user wants a document drafted. Set documentType, and templateId if one of these templates fits: ${JSON.stringify(templates.map(({ id, name }) => ({ id, name })))}
+- firm_info: the user asks about Finacco Solutions itself (contact details, services, Tally/Connect products, advisory).
+- tax_question: anything else, including questions about documents.
+
+Message: ${JSON.stringify(query)}`
+    }],
+    { temperature: 0, maxOutputTokens: 150, feature: 'intent' }
+  );
+
+  const json = answer.match(/{[\s\S]*}/);
+  if (!json) return null;
+  const result: ModelClassification = JSON.parse(json[0]);
+
+  switch (result.intent) {
+    case 'document_request': {
+      const template = templates.find(t => t.id === result.templateId);
+      return {
+        type: 'document_request',
+        documentType: template?.name ?? result.documentType ?? extractDocumentType(query),
+        template: template ? { id: template.id, name: template.name, score: 1 } : null,
+        confidence: 0.7
+      };
+    }
+    case 'firm_info':
+      return { type: 'firm_info', topic: result.topic ?? 'about', confidence: 0.7 };
+    case 'tax_question':
+      return { type: 'tax_question', confidence: 0.7 };
+    default:
+      return null;
+  }
+};
+
+export const routeIntent = async (query: string, { templates = [], provider }: RouteIntentOptions = {}): Promise<Intent> => {
+  const intent = classifyIntent(query, templates);
+
+  const ambiguous = intent.type === 'document_request' && intent.confidence < DOCUMENT_THRESHOLD;
+  if (!ambiguous) return intent;
+
+  if (provider) {
+    try {
+      const modelIntent = await classifyWithModel(query, templates, provider);
+      if (modelIntent) return modelIntent;
+    } catch (error) {
+      console.error('Error classifying intent:', error);
+    }
+  }
+
+  // Without a confident answer, treat it as a question rather than opening a form
+  return { type: 'tax_question', confidence: 1 - intent.confidence };
+};
@@ -0,0 +1,91 @@
+import { ChatMessage, LLMProvider } from './types';
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+
+export interface ConversationSummary {
+  text: string;
+  // Number of leading history messages folded into `text`
+  messageCount: number;
+}
+
+interface ContextOptions {
+  tokenBudget?: number;
+  summary?: ConversationSummary | null;
+}
+
+// Rough heuristic (~4 characters per token) that is close enough for budgeting
+// across Gemini and OpenAI tokenizers without shipping either.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const mergeConsecutiveTurns = (messages: ChatMessage[]) =>
+  messages.reduce<ChatMessage[]>((merged, message) => {
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role) {
+      merged[merged.length - 1] = { ...last, content: `${last.content}\n\n${message.content}` };
+    } else {
+      merged.push(message);
+    }
+    return merged;
+  }, []);
+
+export const summarizeConversation = async (
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  previousSummary?: string
+) => {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join('\n\n');
+
+  return provider.generate(
+    [{
+      role: 'user',
+      content: `Summarise this GST / Income Tax advisory conversation in under 200 words so it can be continued later.
+Keep the facts the user shared (entity type, turnover, state, financial year, amounts), the questions asked and the conclusions given.
+
+${previousSummary ? `Summary so far:\n${previousSummary}\n\nLater messages:\n` : ''}${transcript}`
+    }],
+    { temperature: 0.2, feature: 'summary' }
+  );
+};
+
+// Fits the most recent turns into the token budget verbatim and folds anything
+// older into a running summary, which is only regenerated when new turns fall
+// out of the window.
+export const buildConversationContext = async (
+  history: ChatMessage[],
+  provider: LLMProvider,
+  { tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET, summary = null }: ContextOptions = {}
+): Promise<{ messages: ChatMessage[]; summary: ConversationSummary | null }> => {
+  let start = history.length;
+  let used = 0;
+
+  while (start > 0) {
+    const tokens = estimateTokens(history[start - 1].content);
+    if (used + tokens > tokenBudget && start < history.length) break;
+    used += tokens;
+    start--;
+  }
+
+  // Chat APIs expect the verbatim window to open with a user turn
+  while (start < history.length - 1 && history[start].role !== 'user') start++;
+
+  let nextSummary = summary;
+  if (start > 0 && (!summary || summary.messageCount < start)) {
+    const unsummarized = history.slice(summary?.messageCount ?? 0, start);
+    nextSummary = {
+      text: await summarizeConversation(provider, unsummarized, summary?.text),
+      messageCount: start
+    };
+  }
+
+  const messages = mergeConsecutiveTurns(history.slice(start));
+  if (nextSummary && start > 0) {
+    messages.unshift({
+      role: 'system',
+      content: `Summary of the earlier part of this conversation:\n${nextSummary.text}`
+    });
+  }
+
+  return { messages, summary: nextSummary };
+};
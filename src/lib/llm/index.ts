@@ -0,0 +1,49 @@
+import { supabase } from '../supabase';
+import { createLocalProvider, DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL } from './local';
+import { createProxyProvider } from './proxy';
+import { ApiKeyStatus, LLMError, LLMProvider, ProviderId, ProviderSettings } from './types';
+
+export * from './types';
+export * from './context';
+export * from './retrieval';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.0-flash' },
+  { id: 'openai', label: 'OpenAI', defaultModel: 'gpt-4o-mini' },
+  { id: 'local', label: 'Local model (Ollama / llama.cpp)', defaultModel: DEFAULT_LOCAL_MODEL }
+];
+
+// Hosted providers go through the ai-proxy edge function, which holds the key.
+// Local servers are called directly since they are only reachable from the
+// user's machine.
+export const createProvider = ({ provider, model, baseUrl }: ProviderSettings): LLMProvider => {
+  switch (provider) {
+    case 'gemini':
+    case 'openai': {
+      const defaultModel = PROVIDER_OPTIONS.find(option => option.id === provider)!.defaultModel;
+      return createProxyProvider(provider, model || defaultModel);
+    }
+    case 'local':
+      return createLocalProvider(baseUrl || DEFAULT_LOCAL_BASE_URL, model || DEFAULT_LOCAL_MODEL);
+    default:
+      throw new LLMError(`Unknown provider: ${provider}`);
+  }
+};
+
+// Reads the user's provider choice from `api_keys`. Returns null when the user
+// has not configured a provider yet.
+export const loadApiKeyStatus = async (userId: string): Promise<ApiKeyStatus | null> => {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('provider, model, base_url, key_last4')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    settings: { provider: data.provider || 'gemini', model: data.model, baseUrl: data.base_url },
+    last4: data.key_last4
+  };
+};
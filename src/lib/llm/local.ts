@@ -0,0 +1,10 @@
+import { createOpenAICompatibleProvider } from './openai';
+import { LLMProvider } from './types';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export const createLocalProvider = (
+  baseUrl = DEFAULT_LOCAL_BASE_URL,
+  model = DEFAULT_LOCAL_MODEL
+): LLMProvider => createOpenAICompatibleProvider({ id: 'local', baseUrl, model });
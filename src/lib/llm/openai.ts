@@ -0,0 +1,65 @@
+import { readEventStream } from './sse';
+import { ChatMessage, GenerateOptions, LLMError, LLMProvider, ProviderId } from './types';
+
+interface OpenAICompatibleConfig {
+  id: ProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey?: string | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  error?: { message?: string };
+}
+
+// Talks to any server exposing the OpenAI /chat/completions contract
+// (Ollama, llama.cpp, vLLM, LM Studio).
+export const createOpenAICompatibleProvider = ({ id, baseUrl, model, apiKey }: OpenAICompatibleConfig): LLMProvider => {
+  const request = async (messages: ChatMessage[], options: GenerateOptions, stream: boolean) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens })
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const data: ChatCompletionChunk = await response.json().catch(() => ({}));
+      throw new LLMError(data.error?.message || `${id} request failed`, response.status);
+    }
+
+    return response;
+  };
+
+  return {
+    id,
+    model,
+
+    async generate(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: ChatCompletionChunk = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      for await (const data of readEventStream(response)) {
+        if (data === '[DONE]') return;
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  };
+};
@@ -0,0 +1,67 @@
+import { supabase } from '../supabase';
+import { readEventStream } from './sse';
+import { ChatMessage, GenerateOptions, LLMError, LLMProvider, ProviderId } from './types';
+
+export const AI_PROXY_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-proxy`;
+
+interface ProxyEvent {
+  text?: string;
+  error?: string;
+}
+
+// Calls the ai-proxy edge function with the current session, so provider keys
+// are only ever read server-side.
+export const callAiProxy = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new LLMError('Not authenticated', 401);
+
+  const response = await fetch(AI_PROXY_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const data: ProxyEvent = await response.json().catch(() => ({}));
+    throw new LLMError(data.error || 'AI request failed', response.status);
+  }
+
+  return response;
+};
+
+export const createProxyProvider = (id: ProviderId, model: string): LLMProvider => {
+  const toBody = (messages: ChatMessage[], options: GenerateOptions, stream: boolean) => ({
+    action: 'generate',
+    messages,
+    options: { temperature: options.temperature, maxOutputTokens: options.maxOutputTokens },
+    stream,
+    feature: options.feature
+  });
+
+  return {
+    id,
+    model,
+
+    async generate(messages, options = {}) {
+      const response = await callAiProxy(toBody(messages, options, false), options.signal);
+      const data: ProxyEvent = await response.json();
+      return data.text ?? '';
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await callAiProxy(toBody(messages, options, true), options.signal);
+
+      for await (const data of readEventStream(response)) {
+        if (data === '[DONE]') return;
+        const event: ProxyEvent = JSON.parse(data);
+        if (event.error) throw new LLMError(event.error);
+        if (event.text) yield event.text;
+      }
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { callAiProxy } from './proxy';
+import { ChatMessage } from './types';
+
+export interface Citation {
+  id: string;
+  // Position in the grounding prompt, i.e. the [n] the model cites
+  number: number;
+  title: string;
+  reference: string | null;
+  heading: string | null;
+  url: string | null;
+  sourceType: string;
+}
+
+export interface RetrievedKnowledge {
+  citations: Citation[];
+  // System message carrying the numbered passages, or null when nothing matched
+  message: ChatMessage | null;
+}
+
+interface Passage {
+  id: string;
+  heading: string | null;
+  content: string;
+  similarity: number;
+  source_title: string;
+  source_type: string;
+  source_reference: string | null;
+  source_url: string | null;
+}
+
+export const citationLabel = (citation: Citation) =>
+  [citation.reference || citation.title, citation.heading].filter(Boolean).join(' — ');
+
+// Looks up knowledge-base passages for a question through the ai-proxy
+// function and turns them into a grounding prompt the model can cite as [n].
+export const retrieveKnowledge = async (query: string, signal?: AbortSignal): Promise<RetrievedKnowledge> => {
+  const response = await callAiProxy({ action: 'retrieve', query }, signal);
+  const { passages = [] }: { passages?: Passage[] } = await response.json();
+
+  if (passages.length === 0) return { citations: [], message: null };
+
+  const citations = passages.map((passage, index) => ({
+    id: passage.id,
+    number: index + 1,
+    title: passage.source_title,
+    reference: passage.source_reference,
+    heading: passage.heading,
+    url: passage.source_url,
+    sourceType: passage.source_type
+  }));
+
+  const sources = passages
+    .map((passage, index) => `[${citations[index].number}] ${citationLabel(citations[index])}\n${passage.content}`)
+    .join('\n\n');
+
+  return {
+    citations,
+    message: {
+      role: 'system',
+      content: `Relevant extracts from the firm's tax knowledge base (statutes, circulars and firm notes):
+
+${sources}
+
+Base your answer on these extracts where they apply and cite them inline as [1], [2] etc. Do not cite sources that are not listed. If the extracts do not cover the question, say so before answering from general knowledge.`
+    }
+  };
+};
+
+// Keeps only the sources the answer actually cites
+export const citedSources = (citations: Citation[], answer: string) =>
+  citations.filter(citation => answer.includes(`[${citation.number}]`));
@@ -0,0 +1,36 @@
+const parseEvent = (event: string) =>
+  event
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+// Yields the `data:` payload of each server-sent event in a fetch response body.
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? '';
+
+      for (const event of events) {
+        const data = parseEvent(event);
+        if (data) yield data;
+      }
+    }
+
+    const data = parseEvent(buffer);
+    if (data) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,45 @@
+export type ProviderId = 'gemini' | 'openai' | 'local';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface GenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+  // Label recorded in the server-side usage ledger, e.g. 'chat' or 'document'
+  feature?: string;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  generate: (messages: ChatMessage[], options?: GenerateOptions) => Promise<string>;
+  stream: (messages: ChatMessage[], options?: GenerateOptions) => AsyncGenerator<string>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model?: string | null;
+  baseUrl?: string | null;
+}
+
+// What the browser may know about a saved key: never the key itself
+export interface ApiKeyStatus {
+  settings: ProviderSettings;
+  last4: string | null;
+}
+
+export class LLMError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,25 @@
+// Assistant replies used to be stored as HTML produced by a regex formatter,
+// always wrapped in this div. Newer replies are stored as the raw markdown.
+const LEGACY_HTML_PREFIX = /^\s*<div class="mb-4">/;
+
+export const isLegacyHtml = (content: string) => LEGACY_HTML_PREFIX.test(content);
+
+// Reduces a legacy HTML reply to its text, keeping block boundaries as line
+// breaks so it still reads sensibly when rendered as markdown.
+const legacyHtmlToText = (html: string) => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  body.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  body.querySelectorAll('li').forEach(li => li.prepend('- '));
+  body.querySelectorAll('td, th').forEach(cell => cell.append(' | '));
+  body.querySelectorAll('div, p, h1, h2, h3, h4, li, tr, pre').forEach(block => block.append('\n'));
+  return (body.textContent ?? '')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Markdown source for a stored assistant message, whichever format it uses
+export const toMarkdownSource = (content: string) =>
+  isLegacyHtml(content) ? legacyHtmlToText(content) : content;
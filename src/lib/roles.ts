@@ -0,0 +1,23 @@
+// Matches the app_role enum. Each role includes the ones before it, so an
+// admin can do everything staff can.
+export const ROLES = ['client', 'staff', 'admin', 'super_admin'] as const;
+
+export type AppRole = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  client: 'Client',
+  staff: 'Staff',
+  admin: 'Admin',
+  super_admin: 'Super admin'
+};
+
+export const hasRoleAtLeast = (role: AppRole, required: AppRole) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+// Roles a user can hand out: admins grant staff, super admins any role
+export const grantableRoles = (role: AppRole): AppRole[] =>
+  hasRoleAtLeast(role, 'super_admin') ? [...ROLES] : hasRoleAtLeast(role, 'admin') ? ['client', 'staff'] : [];
+
+// Invitations are for staff and above; clients sign up on their own
+export const invitableRoles = (role: AppRole): AppRole[] =>
+  grantableRoles(role).filter(grantable => grantable !== 'client');
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, sanitizeHtml } from './sanitizeHtml';
+import { renderTemplate } from './template';
+
+describe('sanitizeHtml', () => {
+  it('keeps ordinary document markup', () => {
+    const html = '<h1 style="text-align: center">Deed</h1><p>Between <strong>A</strong> and <em>B</em></p>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('drops scripts, event handlers and unknown tags', () => {
+    const html = '<p onclick="alert(1)">Hi<script>alert(1)</script></p><iframe src="https://evil"></iframe><custom>text</custom>';
+    expect(sanitizeHtml(html)).toBe('<p>Hi</p>text');
+  });
+
+  it('only keeps safe links and embedded images', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="https://example.com">x</a>'))
+      .toBe('<a href="https://example.com" rel="noopener noreferrer">x</a>');
+    expect(sanitizeHtml('<img src="https://evil/x.png">')).toBe('');
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA">')).toBe('<img src="data:image/png;base64,AAAA">');
+  });
+
+  it('keeps allowed style properties', () => {
+    expect(sanitizeHtml('<table><tr><td style="width: 45%; TEXT-ALIGN: center; padding-top: 40px">x</td></tr></table>'))
+      .toContain('style="width: 45%; text-align: center; padding-top: 40px"');
+  });
+
+  it.each([
+    'background:\\75 rl(https://evil/x.png)',
+    "background-image:image-set('https://evil/x.png' 1x)",
+    'background-color: url(https://evil/x.png)',
+    'color: -webkit-image-set("https://evil/x.png" 1x)',
+    'border: 1px solid src("https://evil/x.png")',
+    'color: u/**/rl(https://evil/x.png)',
+    'width: expression(alert(1))',
+    'list-style-image: url(https://evil/x.png)',
+    'behavior: url(x.htc)',
+    'back\\67 round: red'
+  ])('drops the style %s', style => {
+    expect(sanitizeHtml(`<p style="${style.replace(/"/g, '&quot;')}">x</p>`)).toBe('<p>x</p>');
+  });
+
+  it('keeps the safe declarations next to an unsafe one', () => {
+    expect(sanitizeHtml('<p style="color: red; background: url(https://evil/x.png)">x</p>'))
+      .toBe('<p style="color: red">x</p>');
+  });
+});
+
+describe('templates with malicious input', () => {
+  const fill = (template: string, data: Record<string, unknown>) => sanitizeHtml(renderTemplate(template, data));
+
+  it('escapes field values instead of rendering them as markup', () => {
+    const html = fill('<p>Name: {{ name }}</p>', { name: '<img src=x onerror="alert(1)">' });
+    expect(html).toBe('<p>Name: &lt;img src=x onerror="alert(1)"&gt;</p>');
+  });
+
+  it('cannot break out of an attribute with a field value', () => {
+    const html = fill('<p title="{{ name }}">x</p>', { name: '" onmouseover="alert(1)' });
+    expect(html).toBe('<p title="&quot; onmouseover=&quot;alert(1)">x</p>');
+  });
+
+  it('cannot load outside resources from a field value inside a style', () => {
+    const html = fill('<p style="color: {{ colour }}">x</p>', { colour: 'red; background: \\75 rl(https://evil/x.png)' });
+    expect(html).toBe('<p style="color: red">x</p>');
+  });
+
+  it('strips scripts and tracking styles written into the template itself', () => {
+    const html = fill(
+      '<style>p { background: url(https://evil/x.png) }</style><p style="background-image:image-set(\'https://evil/x.png\' 1x)">{{ name }}</p><script>fetch("https://evil")</script>',
+      { name: 'Asha' }
+    );
+    expect(html).toBe('<p>Asha</p>');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes every character that is special in markup', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
@@ -0,0 +1,126 @@
+// Allow-list sanitiser for document HTML: model-generated documents in the
+// chat and admin-authored templates filled with user input. Anything not
+// listed here is removed before the HTML reaches the DOM or the PDF renderer.
+
+const ALLOWED_TAGS = new Set([
+  'a', 'article', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup', 'div',
+  'em', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'li',
+  'mark', 'ol', 'p', 'pre', 's', 'section', 'small', 'span', 'strong', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+// Removed together with their content; other unknown tags are unwrapped
+const DROPPED_TAGS = new Set([
+  'base', 'button', 'embed', 'form', 'frame', 'frameset', 'head', 'iframe', 'input',
+  'link', 'math', 'meta', 'noscript', 'object', 'option', 'script', 'select', 'style',
+  'svg', 'template', 'textarea', 'title'
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'align', 'alt', 'class', 'colspan', 'height', 'href', 'rowspan', 'src', 'style', 'title',
+  'valign', 'width'
+]);
+
+const SAFE_HREF = /^(https?:|mailto:|tel:|#)/i;
+// Images may only be embedded (e.g. signatures), never fetched from elsewhere
+const SAFE_IMAGE_SRC = /^data:image\/(png|jpe?g|gif|webp);base64,/i;
+
+// Layout and text properties only: nothing that can take an image or other
+// outside resource, so a value can never make the browser fetch anything
+const ALLOWED_CSS_PROPERTIES = new Set([
+  'background-color', 'border', 'border-bottom', 'border-collapse', 'border-color', 'border-left',
+  'border-right', 'border-spacing', 'border-style', 'border-top', 'border-width', 'break-after',
+  'break-before', 'break-inside', 'color', 'font-size', 'font-style', 'font-weight', 'height',
+  'letter-spacing', 'line-height', 'list-style-type', 'margin', 'margin-bottom', 'margin-left',
+  'margin-right', 'margin-top', 'max-height', 'max-width', 'min-height', 'min-width', 'padding',
+  'padding-bottom', 'padding-left', 'padding-right', 'padding-top', 'page-break-after',
+  'page-break-before', 'page-break-inside', 'text-align', 'text-decoration', 'text-indent',
+  'text-transform', 'vertical-align', 'white-space', 'width'
+]);
+// Escapes and comments could hide a function name from a plain match
+const UNSAFE_CSS_VALUE = /\\|\/\*|url|image-set|src\s*\(|expression|javascript:/i;
+
+const sanitizeStyle = (style: string) =>
+  style
+    .split(';')
+    .map(declaration => {
+      const separator = declaration.indexOf(':');
+      if (separator === -1) return null;
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      if (!ALLOWED_CSS_PROPERTIES.has(property) || !value || UNSAFE_CSS_VALUE.test(value)) return null;
+      return `${property}: ${value}`;
+    })
+    .filter(Boolean)
+    .join('; ');
+
+const sanitizeAttributes = (element: Element) => {
+  const tag = element.tagName.toLowerCase();
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    const attribute = name.toLowerCase();
+    const trimmed = value.trim();
+
+    if (!ALLOWED_ATTRIBUTES.has(attribute)) {
+      element.removeAttribute(name);
+    } else if (attribute === 'href' && (tag !== 'a' || !SAFE_HREF.test(trimmed))) {
+      element.removeAttribute(name);
+    } else if (attribute === 'src' && (tag !== 'img' || !SAFE_IMAGE_SRC.test(trimmed))) {
+      element.removeAttribute(name);
+    } else if (attribute === 'style') {
+      const style = sanitizeStyle(value);
+      if (style) element.setAttribute('style', style);
+      else element.removeAttribute(name);
+    }
+  }
+
+  if (tag === 'a' && element.hasAttribute('href')) {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+  if (tag === 'img' && !element.hasAttribute('src')) {
+    element.remove();
+  }
+};
+
+const sanitizeNode = (node: Node) => {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      // Comments, processing instructions and the like
+      child.remove();
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+    } else if (!ALLOWED_TAGS.has(tag)) {
+      sanitizeNode(element);
+      element.replaceWith(...Array.from(element.childNodes));
+    } else {
+      sanitizeNode(element);
+      sanitizeAttributes(element);
+    }
+  }
+};
+
+// Accepts fragments or full HTML documents and returns safe body markup
+export const sanitizeHtml = (html: string): string => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  sanitizeNode(body);
+  return body.innerHTML;
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// For user-provided values interpolated into template HTML
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
@@ -0,0 +1,84 @@
+import {
+  amountInWords,
+  financialYear,
+  formatDate,
+  formatIndianDate,
+  formatIndianNumber,
+  formatRupees,
+  INDIAN_DATE_STYLES,
+  IndianDateStyle,
+  ordinal,
+  WordsLanguage
+} from '../indianFormat';
+
+export type TemplateFilter = (value: unknown, ...args: (string | number)[]) => unknown;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value.replace(/[₹,\s]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Accepts Date objects, ISO dates from <input type="date"> and DD/MM/YYYY
+export const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const indian = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (indian) return new Date(Number(indian[3]), Number(indian[2]) - 1, Number(indian[1]));
+
+  return null;
+};
+
+// Filters available in templates as `{{ value | name:"arg" }}`. Values that a
+// filter cannot handle are passed through unchanged.
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  upper: value => (typeof value === 'string' ? value.toUpperCase() : value),
+  lower: value => (typeof value === 'string' ? value.toLowerCase() : value),
+  title: value =>
+    typeof value === 'string' ? value.toLowerCase().replace(/\b\w/g, char => char.toUpperCase()) : value,
+  trim: value => (typeof value === 'string' ? value.trim() : value),
+  default: (value, fallback = '') => (isEmpty(value) ? fallback : value),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.join(String(separator)) : value),
+  count: value => (Array.isArray(value) ? value.length : 0),
+  // A format such as "D MMMM YYYY" (text in [brackets] is kept as written),
+  // or one of the named Indian styles: short, long, ordinal or legal
+  date: (value, format = 'short') => {
+    const date = toDate(value);
+    if (!date) return value;
+    const style = String(format);
+    return INDIAN_DATE_STYLES.includes(style as IndianDateStyle)
+      ? formatIndianDate(date, style as IndianDateStyle)
+      : formatDate(date, style);
+  },
+  fy: value => {
+    const date = toDate(value);
+    return date ? financialYear(date) : value;
+  },
+  number: (value, decimals?) => {
+    const number = toNumber(value);
+    return number === null ? value : formatIndianNumber(number, decimals === undefined ? undefined : Number(decimals));
+  },
+  ordinal: value => {
+    const number = toNumber(value);
+    return number === null ? value : ordinal(Math.floor(number));
+  },
+  // ₹1,25,000/-
+  inr: value => {
+    const number = toNumber(value);
+    return number === null ? value : formatRupees(number);
+  },
+  // Rupees One Lakh Twenty-Five Thousand only; "hi" and "ml" for Hindi and Malayalam
+  words: (value, language = 'en') => {
+    const number = toNumber(value);
+    if (number === null) return value;
+    return amountInWords(number, (['en', 'hi', 'ml'].includes(String(language)) ? language : 'en') as WordsLanguage);
+  }
+};
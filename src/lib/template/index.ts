@@ -0,0 +1,52 @@
+import { formatDate } from '../indianFormat';
+import { parseTemplate } from './parser';
+import { renderTemplateNodes } from './render';
+import { TemplateData, TemplateError, TemplateNode } from './types';
+
+// Document template engine. Placeholders use {{ field | filter:"arg" }},
+// with {{#if}}/{{#unless}}/{{else}} conditionals and {{#each list}} loops.
+// The older [field_id] and <!-- START id --> ... <!-- END id --> syntax is
+// still understood so existing templates keep working.
+
+export { TEMPLATE_FILTERS, toDate, toNumber } from './filters';
+export { collectReferences } from './references';
+export type { TemplateReference } from './references';
+export { TemplateError } from './types';
+export type { SourcePosition, TemplateData, TemplateNode } from './types';
+
+export interface CompiledTemplate {
+  nodes: TemplateNode[];
+  render: (data: TemplateData) => string;
+}
+
+// Available in every template unless a field of the same name overrides them
+export const BUILT_IN_NAMES = ['current_date', 'today'];
+
+const builtIns = (): TemplateData => {
+  const now = new Date();
+  return {
+    current_date: formatDate(now, 'DD/MM/YYYY'),
+    today: formatDate(now, 'YYYY-MM-DD')
+  };
+};
+
+// Throws TemplateError with the line and column of the first problem
+export const compileTemplate = (source: string): CompiledTemplate => {
+  const nodes = parseTemplate(source);
+  return {
+    nodes,
+    render: data => renderTemplateNodes(nodes, { ...builtIns(), ...data })
+  };
+};
+
+export const validateTemplate = (source: string): TemplateError | null => {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateError) return error;
+    throw error;
+  }
+};
+
+export const renderTemplate = (source: string, data: TemplateData) => compileTemplate(source).render(data);
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { parseTemplate } from './parser';
+import { TemplateError } from './types';
+
+const errorOf = (source: string) => {
+  try {
+    parseTemplate(source);
+  } catch (error) {
+    if (error instanceof TemplateError) return { message: error.message, line: error.line, column: error.column };
+    throw error;
+  }
+  return null;
+};
+
+describe('parseTemplate', () => {
+  it('splits text, output tags and filters', () => {
+    expect(parseTemplate('Dear {{ name | title }}, rent: {{ rent | number:2 }}')).toEqual([
+      { type: 'text', value: 'Dear ' },
+      { type: 'output', expression: { operand: { kind: 'path', path: ['name'] }, filters: [{ name: 'title', args: [] }] } },
+      { type: 'text', value: ', rent: ' },
+      { type: 'output', expression: { operand: { kind: 'path', path: ['rent'] }, filters: [{ name: 'number', args: [2] }] } }
+    ]);
+  });
+
+  it('reads literals, dotted paths and several filter arguments', () => {
+    const [literal, path] = parseTemplate('{{ "yes" }}{{ address.city | default:"-", "unused" }}');
+    expect(literal).toEqual({ type: 'output', expression: { operand: { kind: 'literal', value: 'yes' }, filters: [] } });
+    expect(path).toEqual({
+      type: 'output',
+      expression: { operand: { kind: 'path', path: ['address', 'city'] }, filters: [{ name: 'default', args: ['-', 'unused'] }] }
+    });
+  });
+
+  it('nests conditionals and loops, with else branches', () => {
+    expect(parseTemplate('{{#each rows}}{{#if paid}}P{{else}}U{{/if}}{{else}}none{{/each}}')).toEqual([{
+      type: 'each',
+      expression: { operand: { kind: 'path', path: ['rows'] }, filters: [] },
+      body: [{
+        type: 'if',
+        condition: { negate: false, left: { operand: { kind: 'path', path: ['paid'] }, filters: [] } },
+        then: [{ type: 'text', value: 'P' }],
+        otherwise: [{ type: 'text', value: 'U' }]
+      }],
+      otherwise: [{ type: 'text', value: 'none' }]
+    }]);
+  });
+
+  it('reads comparisons, negation and unless', () => {
+    const [comparison, negated, unless] = parseTemplate(
+      '{{#if rent >= 10000}}{{/if}}{{#if not deposit}}{{/if}}{{#unless deposit == "no"}}{{/unless}}'
+    );
+    expect(comparison).toMatchObject({
+      condition: { negate: false, operator: '>=', right: { operand: { kind: 'literal', value: 10000 } } }
+    });
+    expect(negated).toMatchObject({ condition: { negate: true, left: { operand: { path: ['deposit'] } } } });
+    expect(unless).toMatchObject({ condition: { negate: true, operator: '==', right: { operand: { value: 'no' } } } });
+  });
+
+  it('keeps the legacy syntax', () => {
+    expect(parseTemplate('[tenant_name]<!-- START rows -->[item]<!-- END rows -->')).toEqual([
+      { type: 'legacy', name: 'tenant_name', raw: '[tenant_name]' },
+      {
+        type: 'each',
+        expression: { operand: { kind: 'path', path: ['rows'] }, filters: [] },
+        body: [{ type: 'legacy', name: 'item', raw: '[item]' }],
+        otherwise: []
+      }
+    ]);
+  });
+
+  it('drops comments', () => {
+    expect(parseTemplate('a{{! note for admins }}b')).toEqual([{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }]);
+  });
+});
+
+describe('template errors', () => {
+  it.each([
+    ['{{ name | shout }}', "Unknown filter 'shout'", 1, 11],
+    ['{{ name | constructor }}', "Unknown filter 'constructor'", 1, 11],
+    ['Line one\n  {{ name | }}', 'Expected a filter name after |', 2, 13],
+    ['{{ name | default:fallback }}', "Filter 'default' expects a quoted text or number argument", 1, 19],
+    ['{{ name "x" }}', "Unexpected 'x'", 1, 9],
+    ['{{ "open }}', 'Unterminated string', 1, 4],
+    ['{{ }}', 'Empty {{ }} tag', 1, 1],
+    ['text {{ name', 'Unclosed {{', 1, 6],
+    ['text }}', 'Unexpected }} without a matching {{', 1, 6],
+    ['{{#if}}{{/if}}', '{{#if}} needs a condition', 1, 1],
+    ['{{#each}}{{/each}}', '{{#each}} needs a list field', 1, 1],
+    ['{{#with x}}', "Unknown block '#with'", 1, 1],
+    ['{{/with}}', "Unknown closing tag '{{/with}}'", 1, 1],
+    ['{{/if}}', '{{/if}} has no matching opening tag', 1, 1],
+    ['{{#if a}}\n{{#each b}}\n{{/if}}', '{{/if}} found where {{/each}} was expected', 3, 1],
+    ['{{else}}', '{{else}} must be inside {{#if}}, {{#unless}} or {{#each}}', 1, 1],
+    ['{{#if a}}{{else}}{{else}}{{/if}}', 'Only one {{else}} is allowed per block', 1, 18],
+    ['intro\n\n  {{#if a}} never closed', '{{#if}} is never closed', 3, 3],
+    ['<!-- START rows -->', '<!-- START rows --> is never closed', 1, 1],
+    ['<!-- START rows --><!-- END items -->', '<!-- END items --> found where <!-- END rows --> was expected', 1, 20]
+  ])('%j', (source, message, line, column) => {
+    expect(errorOf(source)).toEqual({ message, line, column });
+  });
+});
@@ -0,0 +1,322 @@
+import { TEMPLATE_FILTERS } from './filters';
+import {
+  ComparisonOperator,
+  Condition,
+  Expression,
+  FilterCall,
+  Operand,
+  SourcePosition,
+  TemplateError,
+  TemplateNode
+} from './types';
+
+// Tags: {{ ... }}, legacy <!-- START id --> / <!-- END id --> repeatable
+// markers, and legacy [field_id] placeholders
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}|<!--\s*(START|END)\s+([A-Za-z_][\w-]*)\s*-->|\[([A-Za-z_]\w*)\]/g;
+
+const COMPARISON_OPERATORS = ['==', '!=', '>=', '<=', '>', '<'];
+
+interface Token {
+  type: 'string' | 'number' | 'identifier' | 'symbol';
+  value: string;
+  offset: number;
+}
+
+type BlockType = 'if' | 'unless' | 'each';
+
+interface OpenBlock {
+  type: BlockType;
+  // Legacy START/END markers close by name rather than {{/each}}
+  legacyName?: string;
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  inElse: boolean;
+  position: SourcePosition;
+}
+
+const createPositionLookup = (source: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number): SourcePosition => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+};
+
+const tokenizeTag = (content: string, fail: (message: string, offset: number) => never): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = content.indexOf(char, i + 1);
+      if (end === -1) fail('Unterminated string', i);
+      tokens.push({ type: 'string', value: content.slice(i + 1, end), offset: i });
+      i = end + 1;
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(content[i + 1] ?? ''))) {
+      const match = content.slice(i).match(/^-?\d+(\.\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], offset: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_@]/.test(char)) {
+      const match = content.slice(i).match(/^@?[A-Za-z_][\w-]*(\.[A-Za-z_0-9][\w-]*)*/);
+      if (!match) fail(`Unexpected character '${char}'`, i);
+      tokens.push({ type: 'identifier', value: match![0], offset: i });
+      i += match![0].length;
+    } else {
+      const operator = COMPARISON_OPERATORS.find(op => content.startsWith(op, i));
+      const symbol = operator ?? (/[|:,!]/.test(char) ? char : null);
+      if (!symbol) fail(`Unexpected character '${char}'`, i);
+      tokens.push({ type: 'symbol', value: symbol!, offset: i });
+      i += symbol!.length;
+    }
+  }
+
+  return tokens;
+};
+
+class TagParser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private fail: (message: string, offset: number) => never,
+    private endOffset: number
+  ) {}
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private next() {
+    return this.tokens[this.index++];
+  }
+
+  private isSymbol(value: string) {
+    const token = this.peek();
+    return token?.type === 'symbol' && token.value === value;
+  }
+
+  parseOperand(): Operand {
+    const token = this.next();
+    if (!token) this.fail('Expected a field name or value', this.endOffset);
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        return { kind: 'path', path: token.value.split('.') };
+      default:
+        return this.fail(`Unexpected '${token.value}'`, token.offset);
+    }
+  }
+
+  parseExpression(): Expression {
+    const operand = this.parseOperand();
+    const filters: FilterCall[] = [];
+
+    while (this.isSymbol('|')) {
+      this.next();
+      const name = this.next();
+      if (!name || name.type !== 'identifier') {
+        this.fail('Expected a filter name after |', name?.offset ?? this.endOffset);
+      }
+      if (!Object.hasOwn(TEMPLATE_FILTERS, name.value)) {
+        this.fail(`Unknown filter '${name.value}'`, name.offset);
+      }
+
+      const args: (string | number)[] = [];
+      if (this.isSymbol(':')) {
+        this.next();
+        do {
+          if (this.isSymbol(',')) this.next();
+          const arg = this.next();
+          if (!arg || (arg.type !== 'string' && arg.type !== 'number')) {
+            this.fail(`Filter '${name.value}' expects a quoted text or number argument`, arg?.offset ?? this.endOffset);
+          }
+          args.push(arg.type === 'number' ? Number(arg.value) : arg.value);
+        } while (this.isSymbol(','));
+      }
+
+      filters.push({ name: name.value, args });
+    }
+
+    return { operand, filters };
+  }
+
+  parseCondition(): Condition {
+    let negate = false;
+    const first = this.peek();
+    if (first && ((first.type === 'symbol' && first.value === '!') || (first.type === 'identifier' && first.value === 'not'))) {
+      this.next();
+      negate = true;
+    }
+
+    const left = this.parseExpression();
+    const operator = this.peek();
+    if (operator?.type === 'symbol' && COMPARISON_OPERATORS.includes(operator.value)) {
+      this.next();
+      return { negate, left, operator: operator.value as ComparisonOperator, right: this.parseExpression() };
+    }
+
+    return { negate, left };
+  }
+
+  expectEnd() {
+    const token = this.peek();
+    if (token) this.fail(`Unexpected '${token.value}'`, token.offset);
+  }
+}
+
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const positionAt = createPositionLookup(source);
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+
+  const fail = (message: string, offset: number): never => {
+    throw new TemplateError(message, positionAt(offset));
+  };
+
+  const current = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    if (block.node.type === 'if') return block.inElse ? block.node.otherwise : block.node.then;
+    return block.inElse ? block.node.otherwise : block.node.body;
+  };
+
+  const pushText = (text: string, offset: number) => {
+    if (!text) return;
+    const stray = text.indexOf('{{');
+    if (stray !== -1) fail('Unclosed {{', offset + stray);
+    const strayClose = text.indexOf('}}');
+    if (strayClose !== -1) fail('Unexpected }} without a matching {{', offset + strayClose);
+    current().push({ type: 'text', value: text });
+  };
+
+  const openBlock = (type: BlockType, node: OpenBlock['node'], offset: number, legacyName?: string) => {
+    current().push(node);
+    stack.push({ type, node, inElse: false, position: positionAt(offset), legacyName });
+  };
+
+  const closeBlock = (type: BlockType, offset: number, legacyName?: string) => {
+    const block = stack.pop();
+    const label = legacyName ? `<!-- END ${legacyName} -->` : `{{/${type}}}`;
+    if (!block) fail(`${label} has no matching opening tag`, offset);
+    if (block!.type !== type || block!.legacyName !== legacyName) {
+      const expected = block!.legacyName ? `<!-- END ${block!.legacyName} -->` : `{{/${block!.type}}}`;
+      fail(`${label} found where ${expected} was expected`, offset);
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const offset = match.index!;
+    pushText(source.slice(lastIndex, offset), lastIndex);
+    lastIndex = offset + match[0].length;
+
+    // Legacy repeatable markers
+    if (match[2]) {
+      const name = match[3];
+      if (match[2] === 'START') {
+        openBlock('each', {
+          type: 'each',
+          expression: { operand: { kind: 'path', path: [name] }, filters: [] },
+          body: [],
+          otherwise: []
+        }, offset, name);
+      } else {
+        closeBlock('each', offset, name);
+      }
+      continue;
+    }
+
+    // Legacy [field_id]
+    if (match[4]) {
+      current().push({ type: 'legacy', name: match[4], raw: match[0] });
+      continue;
+    }
+
+    const content = match[1];
+    const contentOffset = offset + 2;
+    const trimmed = content.trim();
+    const leading = content.length - content.trimStart().length;
+    const failInTag = (message: string, tagOffset: number): never => fail(message, contentOffset + tagOffset);
+
+    if (!trimmed) fail('Empty {{ }} tag', offset);
+    if (trimmed.startsWith('!')) continue; // {{! comment }}
+
+    if (trimmed.startsWith('#')) {
+      const [, keyword, rest = ''] = trimmed.match(/^#(\w+)\s*([\s\S]*)$/) ?? [];
+      const restOffset = leading + trimmed.length - rest.length;
+      const parser = new TagParser(
+        tokenizeTag(rest, (message, at) => failInTag(message, restOffset + at)),
+        (message, at) => failInTag(message, restOffset + at),
+        rest.length
+      );
+
+      if (keyword === 'if' || keyword === 'unless') {
+        if (!rest) fail(`{{#${keyword}}} needs a condition`, offset);
+        const condition = parser.parseCondition();
+        parser.expectEnd();
+        if (keyword === 'unless') condition.negate = !condition.negate;
+        openBlock(keyword, { type: 'if', condition, then: [], otherwise: [] }, offset);
+      } else if (keyword === 'each') {
+        if (!rest) fail('{{#each}} needs a list field', offset);
+        const expression = parser.parseExpression();
+        parser.expectEnd();
+        openBlock('each', { type: 'each', expression, body: [], otherwise: [] }, offset);
+      } else {
+        fail(`Unknown block '#${keyword ?? ''}'`, offset);
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith('/')) {
+      const keyword = trimmed.slice(1).trim();
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        fail(`Unknown closing tag '{{/${keyword}}}'`, offset);
+      }
+      closeBlock(keyword as BlockType, offset);
+      continue;
+    }
+
+    if (trimmed === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.legacyName) fail('{{else}} must be inside {{#if}}, {{#unless}} or {{#each}}', offset);
+      if (block!.inElse) fail('Only one {{else}} is allowed per block', offset);
+      block!.inElse = true;
+      continue;
+    }
+
+    const parser = new TagParser(
+      tokenizeTag(content, failInTag),
+      failInTag,
+      content.length
+    );
+    const expression = parser.parseExpression();
+    parser.expectEnd();
+    current().push({ type: 'output', expression });
+  }
+
+  pushText(source.slice(lastIndex), lastIndex);
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    const label = unclosed.legacyName ? `<!-- START ${unclosed.legacyName} -->` : `{{#${unclosed.type}}}`;
+    throw new TemplateError(`${label} is never closed`, unclosed.position);
+  }
+
+  return root;
+};
@@ -0,0 +1,59 @@
+import { Condition, Expression, TemplateNode } from './types';
+
+// A field name a template reads, with the {{#each}} loops it sits in
+export interface TemplateReference {
+  name: string;
+  // Names looped over by the enclosing loops, outermost first
+  loops: string[];
+  // [field_id] placeholders, which print as written when nothing matches
+  legacy: boolean;
+}
+
+// Names the engine provides itself inside loops
+const LOOP_NAMES = new Set(['this', '@index', '@number']);
+
+const expressionName = (expression: Expression) =>
+  expression.operand.kind === 'path' && !LOOP_NAMES.has(expression.operand.path[0])
+    ? expression.operand.path[0]
+    : null;
+
+export const collectReferences = (nodes: TemplateNode[]): TemplateReference[] => {
+  const references: TemplateReference[] = [];
+
+  const add = (name: string | null, loops: string[], legacy = false) => {
+    if (name) references.push({ name, loops, legacy });
+  };
+
+  const addCondition = (condition: Condition, loops: string[]) => {
+    add(expressionName(condition.left), loops);
+    if (condition.right) add(expressionName(condition.right), loops);
+  };
+
+  const walk = (list: TemplateNode[], loops: string[]) => {
+    for (const node of list) {
+      switch (node.type) {
+        case 'output':
+          add(expressionName(node.expression), loops);
+          break;
+        case 'legacy':
+          add(node.name, loops, true);
+          break;
+        case 'if':
+          addCondition(node.condition, loops);
+          walk(node.then, loops);
+          walk(node.otherwise, loops);
+          break;
+        case 'each': {
+          const name = expressionName(node.expression);
+          add(name, loops);
+          walk(node.body, name ? [...loops, name] : loops);
+          walk(node.otherwise, loops);
+          break;
+        }
+      }
+    }
+  };
+
+  walk(nodes, []);
+  return references;
+};
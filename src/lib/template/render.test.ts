@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_NAMES, compileTemplate, renderTemplate } from '.';
+
+describe('renderTemplate', () => {
+  it('fills in fields and nested fields', () => {
+    expect(renderTemplate('{{ tenant }} of {{ address.city }}', { tenant: 'Asha', address: { city: 'Kochi' } }))
+      .toBe('Asha of Kochi');
+  });
+
+  it('prints missing fields as nothing', () => {
+    expect(renderTemplate('[{{ missing }}][{{ address.pin }}]', { address: {} })).toBe('[][]');
+  });
+
+  it('escapes values and keeps their line breaks', () => {
+    expect(renderTemplate('<p>{{ note }}</p>', { note: '<b>Rent</b> & "deposit"\nPaid' }))
+      .toBe('<p>&lt;b&gt;Rent&lt;/b&gt; &amp; &quot;deposit&quot;<br>Paid</p>');
+  });
+
+  it('joins lists and address blocks', () => {
+    expect(renderTemplate('{{ names }} / {{ address }}', {
+      names: ['Asha', 'Vikram'],
+      address: { line1: '12 MG Road', line2: '', city: 'Kochi' }
+    })).toBe('Asha, Vikram / 12 MG Road, Kochi');
+  });
+
+  it('does not read properties every object inherits', () => {
+    expect(renderTemplate('{{ constructor }}|{{ tenant.toString }}|{{ __proto__ }}', { tenant: 'Asha' })).toBe('||');
+    expect(renderTemplate('[toString] [constructor]', {})).toBe('[toString] [constructor]');
+    expect(renderTemplate('{{#each rows}}{{ valueOf }}{{/each}}', { rows: [{}] })).toBe('');
+  });
+
+  it('offers the built-in dates unless a field overrides them', () => {
+    expect(BUILT_IN_NAMES).toEqual(['current_date', 'today']);
+    expect(renderTemplate('{{ today }}', {})).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(renderTemplate('{{ current_date }}', { current_date: 'fixed' })).toBe('fixed');
+  });
+
+  it('renders compiled templates more than once', () => {
+    const template = compileTemplate('Hello {{ name }}');
+    expect(template.render({ name: 'Asha' })).toBe('Hello Asha');
+    expect(template.render({ name: 'Vikram' })).toBe('Hello Vikram');
+  });
+});
+
+describe('conditionals', () => {
+  const render = (source: string, data: Record<string, unknown>) => renderTemplate(source, data);
+
+  it.each([
+    [{ deposit: 'yes' }, 'with deposit'],
+    [{ deposit: '  ' }, 'no deposit'],
+    [{ deposit: [] }, 'no deposit'],
+    [{ deposit: 0 }, 'no deposit'],
+    [{}, 'no deposit']
+  ])('uses the truthiness of %j', (data, expected) => {
+    expect(render('{{#if deposit}}with deposit{{else}}no deposit{{/if}}', data)).toBe(expected);
+  });
+
+  it('inverts unless and not', () => {
+    expect(render('{{#unless paid}}due{{else}}paid{{/unless}}', { paid: true })).toBe('paid');
+    expect(render('{{#if not paid}}due{{/if}}', { paid: false })).toBe('due');
+    expect(render('{{#if !paid}}due{{/if}}', {})).toBe('due');
+  });
+
+  it('compares text and numbers', () => {
+    expect(render('{{#if type == "residential"}}R{{/if}}', { type: 'residential' })).toBe('R');
+    expect(render('{{#if type != "residential"}}C{{/if}}', { type: 'residential' })).toBe('');
+    expect(render('{{#if months == 11}}11{{/if}}', { months: '11' })).toBe('11');
+    expect(render('{{#if rent > 10000}}high{{else}}low{{/if}}', { rent: '₹12,500' })).toBe('high');
+    expect(render('{{#if rent <= 10000}}low{{/if}}', { rent: 10000 })).toBe('low');
+    // Text that is not a number never compares as greater or smaller
+    expect(render('{{#if rent < 10000}}low{{else}}unknown{{/if}}', { rent: 'TBD' })).toBe('unknown');
+  });
+
+  it('applies filters before comparing', () => {
+    expect(render('{{#if name | upper == "ASHA"}}match{{/if}}', { name: 'asha' })).toBe('match');
+  });
+});
+
+describe('loops', () => {
+  const data = {
+    firm: 'Rao & Co',
+    partners: [
+      { name: 'Asha', share: 60, contacts: ['9876543210'] },
+      { name: 'Vikram', share: 40, contacts: [] }
+    ]
+  };
+
+  it('numbers the items and reads outer fields', () => {
+    expect(renderTemplate('{{#each partners}}{{ @number }}. {{ name }} ({{ share }}%) of {{ firm }}; {{/each}}', data))
+      .toBe('1. Asha (60%) of Rao &amp; Co; 2. Vikram (40%) of Rao &amp; Co; ');
+    expect(renderTemplate('{{#each partners}}{{ @index }}{{/each}}', data)).toBe('01');
+  });
+
+  it('loops over plain values with this', () => {
+    expect(renderTemplate('{{#each terms}}<li>{{ this }}</li>{{/each}}', { terms: ['Rent', 'Deposit'] }))
+      .toBe('<li>Rent</li><li>Deposit</li>');
+  });
+
+  it('nests loops and falls back to else for empty lists', () => {
+    const source = '{{#each partners}}{{ name }}: {{#each contacts}}{{ this }}{{else}}none{{/each}}; {{/each}}';
+    expect(renderTemplate(source, data)).toBe('Asha: 9876543210; Vikram: none; ');
+    expect(renderTemplate('{{#each partners}}x{{else}}no partners{{/each}}', { partners: 'not a list' })).toBe('no partners');
+  });
+
+  it('lets a row field shadow a top-level one', () => {
+    expect(renderTemplate('{{#each rows}}{{ name }}{{/each}} {{ name }}', { name: 'Top', rows: [{ name: 'Row' }, {}] }))
+      .toBe('RowTop Top');
+  });
+});
+
+describe('legacy syntax', () => {
+  it('fills in [field] placeholders and leaves unknown ones as written', () => {
+    expect(renderTemplate('[tenant] pays [rent] by [due_date]', { tenant: 'Asha', rent: '5,000' }))
+      .toBe('Asha pays 5,000 by [due_date]');
+  });
+
+  it('repeats START/END sections for each row', () => {
+    const source = '<!-- START items -->[description]: [amount]; <!-- END items -->';
+    expect(renderTemplate(source, { items: [{ description: 'Rent', amount: 100 }, { description: 'Water', amount: 5 }] }))
+      .toBe('Rent: 100; Water: 5; ');
+  });
+
+  it('escapes values in placeholders', () => {
+    expect(renderTemplate('[name]', { name: '<script>' })).toBe('&lt;script&gt;');
+  });
+});
+
+describe('filters', () => {
+  it.each([
+    ['{{ name | upper }}', { name: 'asha rao' }, 'ASHA RAO'],
+    ['{{ name | lower }}', { name: 'ASHA' }, 'asha'],
+    ['{{ name | title }}', { name: 'asha RAO' }, 'Asha Rao'],
+    ['[{{ name | trim }}]', { name: '  Asha ' }, '[Asha]'],
+    ['{{ witness | default:"None" }}', { witness: '' }, 'None'],
+    ['{{ names | join:" and " }}', { names: ['A', 'B'] }, 'A and B'],
+    ['{{ names | count }}', { names: ['A', 'B'] }, '2'],
+    ['{{ date | date }}', { date: '2025-04-01' }, '01/04/2025'],
+    ['{{ date | date:"long" }}', { date: '01/04/2025' }, '1 April 2025'],
+    ['{{ date | date:"D MMM YYYY" }}', { date: '2025-04-01' }, '1 Apr 2025'],
+    ['{{ date | date:"Dated: D MMM YYYY" }}', { date: '2025-04-01' }, 'Dated: 1 Apr 2025'],
+    ['{{ date | fy }}', { date: '2025-03-31' }, '2024-25'],
+    ['{{ rent | number }}', { rent: '125000' }, '1,25,000'],
+    ['{{ rent | number:2 }}', { rent: 1500 }, '1,500.00'],
+    ['{{ day | ordinal }}', { day: 22 }, '22nd'],
+    ['{{ rent | inr }}', { rent: '₹1,25,000' }, '₹1,25,000/-'],
+    ['{{ rent | words }}', { rent: 125000 }, 'Rupees One Lakh Twenty-Five Thousand only'],
+    ['{{ rent | inr | upper }}', { rent: 100 }, '₹100/-']
+  ])('%s', (source, data, expected) => {
+    expect(renderTemplate(source, data)).toBe(expected);
+  });
+
+  it('passes through values a filter cannot handle', () => {
+    expect(renderTemplate('{{ rent | inr }} {{ date | date }} {{ rent | upper }}', { rent: 'TBD', date: 'soon' }))
+      .toBe('TBD soon TBD');
+    expect(renderTemplate('{{ rent | number | upper }}', { rent: 12 })).toBe('12');
+  });
+});
@@ -0,0 +1,112 @@
+import { escapeHtml } from '../sanitizeHtml';
+import { TEMPLATE_FILTERS, toNumber } from './filters';
+import { Condition, Expression, Operand, TemplateData, TemplateNode } from './types';
+
+interface Scope {
+  data: TemplateData;
+  item?: unknown;
+  index?: number;
+  parent?: Scope;
+}
+
+const isTruthy = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return Boolean(value);
+};
+
+// Own properties only, so names like `constructor` find nothing rather than
+// the object's prototype
+const ownValue = (source: unknown, key: string) =>
+  source !== null && typeof source === 'object' && Object.hasOwn(source, key) ? (source as TemplateData)[key] : undefined;
+
+const getPath = (value: unknown, path: string[]) => path.reduce<unknown>(ownValue, value);
+
+// Looks the path up in the innermost loop item first, then outwards, so a
+// loop body can use both its item's fields and top-level fields
+const lookup = (scope: Scope, path: string[]): unknown => {
+  const [head, ...rest] = path;
+
+  if (head === 'this') return getPath(scope.item, rest);
+  if (head === '@index') return scope.index;
+  if (head === '@number') return scope.index === undefined ? undefined : scope.index + 1;
+
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    const source = current.item !== undefined ? current.item : current.data;
+    if (source !== null && typeof source === 'object' && Object.hasOwn(source, head)) {
+      return getPath(source, path);
+    }
+  }
+
+  return undefined;
+};
+
+const evaluateOperand = (operand: Operand, scope: Scope) =>
+  operand.kind === 'literal' ? operand.value : lookup(scope, operand.path);
+
+const evaluate = (expression: Expression, scope: Scope) =>
+  expression.filters.reduce(
+    (value, { name, args }) => (Object.hasOwn(TEMPLATE_FILTERS, name) ? TEMPLATE_FILTERS[name](value, ...args) : value),
+    evaluateOperand(expression.operand, scope)
+  );
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringify).filter(Boolean).join(', ');
+  // Address blocks and similar: their non-empty parts, in order
+  if (typeof value === 'object') return Object.values(value).map(stringify).filter(Boolean).join(', ');
+  return String(value);
+};
+
+const compare = (condition: Condition, scope: Scope) => {
+  const left = evaluate(condition.left, scope);
+  if (!condition.operator || !condition.right) return isTruthy(left);
+
+  const right = evaluate(condition.right, scope);
+  if (condition.operator === '==') return stringify(left) === stringify(right);
+  if (condition.operator === '!=') return stringify(left) !== stringify(right);
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return false;
+
+  switch (condition.operator) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    default: return a <= b;
+  }
+};
+
+// Values are user input: escaped here, with line breaks kept for textareas
+const output = (value: unknown) => escapeHtml(stringify(value)).replace(/\r?\n/g, '<br>');
+
+const renderNodes = (nodes: TemplateNode[], scope: Scope): string =>
+  nodes.map(node => renderNode(node, scope)).join('');
+
+const renderNode = (node: TemplateNode, scope: Scope): string => {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'output':
+      return output(evaluate(node.expression, scope));
+    case 'legacy': {
+      const value = lookup(scope, [node.name]);
+      return value === undefined ? node.raw : output(value);
+    }
+    case 'if': {
+      const result = compare(node.condition, scope);
+      return renderNodes(result !== node.condition.negate ? node.then : node.otherwise, scope);
+    }
+    case 'each': {
+      const value = evaluate(node.expression, scope);
+      const items = Array.isArray(value) ? value : [];
+      if (items.length === 0) return renderNodes(node.otherwise, scope);
+      return items
+        .map((item, index) => renderNodes(node.body, { data: scope.data, item, index, parent: scope }))
+        .join('');
+    }
+  }
+};
+
+export const renderTemplateNodes = (nodes: TemplateNode[], data: TemplateData) => renderNodes(nodes, { data });
@@ -0,0 +1,49 @@
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export class TemplateError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, position: SourcePosition) {
+    super(message);
+    this.name = 'TemplateError';
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type Operand =
+  | { kind: 'path'; path: string[] }
+  | { kind: 'literal'; value: string | number | boolean | null };
+
+export interface FilterCall {
+  name: string;
+  args: (string | number)[];
+}
+
+export interface Expression {
+  operand: Operand;
+  filters: FilterCall[];
+}
+
+export interface Condition {
+  negate: boolean;
+  left: Expression;
+  operator?: ComparisonOperator;
+  right?: Expression;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  // Legacy `[field_id]` placeholder; left as written when the field is unknown
+  | { type: 'legacy'; name: string; raw: string }
+  | { type: 'if'; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; expression: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export type TemplateData = Record<string, unknown>;
@@ -0,0 +1,176 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Home, Key, ShieldCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { acceptAdminInvitation } from '../lib/adminInvites';
+import { ROLE_LABELS } from '../lib/roles';
+import { useAuth } from '../contexts/useAuth';
+import Auth from '../components/Auth';
+
+const AcceptInvitation = () => {
+  const { user, loading: authLoading, refreshRole } = useAuth();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+  // Added by the Invite and Magic Link email templates
+  const tokenHash = searchParams.get('token_hash');
+  const isNewAccount = searchParams.get('type') === 'invite';
+  const [verifying, setVerifying] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [loading, setLoading] = useState(false);
+  const verifyStarted = useRef(false);
+
+  // The emailed link signs the user in; the auth context picks up the session
+  useEffect(() => {
+    if (!tokenHash || user || authLoading || verifyStarted.current) return;
+    verifyStarted.current = true;
+
+    const verify = async () => {
+      setVerifying(true);
+      const { error } = await supabase.auth.verifyOtp({
+        token_hash: tokenHash,
+        type: isNewAccount ? 'invite' : 'magiclink'
+      });
+      if (error) {
+        console.error('Error verifying invitation link:', error);
+        setError('This sign-in link has expired. Sign in to accept the invitation.');
+      }
+      setVerifying(false);
+    };
+
+    verify();
+  }, [tokenHash, isNewAccount, user, authLoading]);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      if (password) {
+        const { error: passwordError } = await supabase.auth.updateUser({ password });
+        if (passwordError) throw passwordError;
+      }
+
+      const { role } = await acceptAdminInvitation(token);
+      await refreshRole();
+      setSuccess(`You now have ${ROLE_LABELS[role].toLowerCase()} access. Redirecting to the admin dashboard...`);
+      setTimeout(() => navigate('/admin/templates'), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (authLoading || verifying) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (token && !user) {
+    return <Auth onAuthSuccess={() => null} returnUrl={`${location.pathname}${location.search}`} />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-gray-50 to-white">
+      <div className="absolute top-4 left-4">
+        <Link
+          to="/"
+          className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 bg-white rounded-lg shadow-sm hover:shadow transition-all duration-300"
+        >
+          <Home size={20} />
+          <span>Back to Home</span>
+        </Link>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4">
+        <div className="w-full max-w-md">
+          <div className="relative">
+            <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl blur opacity-25"></div>
+            <div className="relative bg-white p-8 rounded-xl shadow-xl border border-gray-100">
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-purple-600">
+                  Admin Invitation
+                </h2>
+                {user && (
+                  <p className="mt-2 text-gray-600">
+                    Signed in as <span className="font-medium text-gray-900">{user.email}</span>
+                  </p>
+                )}
+              </div>
+
+              {error && (
+                <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded-r-lg">
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+
+              {success && (
+                <div className="mb-6 p-4 bg-green-50 border-l-4 border-green-500 rounded-r-lg">
+                  <p className="text-sm text-green-700">{success}</p>
+                </div>
+              )}
+
+              {!token ? (
+                <p className="text-center text-gray-600">
+                  This invitation link is incomplete. Open the link from your invitation email again.
+                </p>
+              ) : !success && (
+                <form onSubmit={handleAccept} className="space-y-4">
+                  {isNewAccount && (
+                    <div>
+                      <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                        Choose a Password
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <Key className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          id="password"
+                          type="password"
+                          required
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
+                          placeholder="Enter password (min 8 characters)"
+                          minLength={8}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 text-base font-medium transition-all duration-300 transform hover:scale-[1.02]"
+                  >
+                    {loading ? (
+                      <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    ) : (
+                      <>
+                        <ShieldCheck className="w-5 h-5 mr-2" />
+                        Accept Invitation
+                      </>
+                    )}
+                  </button>
+                </form>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
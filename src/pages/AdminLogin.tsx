@@ -26,28 +26,22 @@ const AdminLogin = () => {
       if (authError) throw authError;
 
       // 2. Verify admin status
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
+      if (!data.user) {
         throw new Error('Authentication failed');
       }
 
-      // 3. Get profile to check admin status
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('is_admin')
-        .eq('id', user.id)
-        .single();
+      // 3. Staff and above can use the admin area
+      const { data: isStaff, error: roleError } = await supabase.rpc('has_role', { required_role: 'staff' });
 
-      if (profileError) throw profileError;
-      
-      if (!profile?.is_admin) {
+      if (roleError) throw roleError;
+
+      if (!isStaff) {
         await supabase.auth.signOut();
-        throw new Error('Access denied. Admin privileges required.');
+        throw new Error('Access denied. Staff or admin role required.');
       }
 
-      // 4. Redirect to admin dashboard
-      navigate('/admin/dashboard');
+      // 4. Redirect to the template admin
+      navigate('/admin/templates');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
       setLoading(false);
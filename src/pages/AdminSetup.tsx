@@ -1,32 +1,53 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useNavigate } from 'react-router-dom';
-import { Mail, User, Lock, Key, Home } from 'lucide-react';
+import { Mail, User, Key, Home, ShieldCheck } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import Auth from '../components/Auth';
+import { useAuth } from '../contexts/useAuth';
+import { bootstrapFirstAdmin } from '../lib/adminInvites';
 
 const AdminSetup = () => {
+  const { user, loading: authLoading, refreshRole } = useAuth();
+  // null until we know whether an admin already exists
+  const [setupOpen, setSetupOpen] = useState<boolean | null>(null);
+  const [showSignIn, setShowSignIn] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
   const [username, setUsername] = useState('');
+  const [setupToken, setSetupToken] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
 
-  const createAdmin = async (e: React.FormEvent) => {
+  useEffect(() => {
+    const checkSetup = async () => {
+      const { data, error } = await supabase.rpc('admins_exist');
+      if (error) {
+        console.error('Error checking admin setup:', error);
+        setError('Failed to check whether setup is available. Please try again.');
+        return;
+      }
+      setSetupOpen(!data);
+    };
+
+    checkSetup();
+  }, []);
+
+  const createAccount = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
     setSuccess('');
 
     try {
-      // 1. Create auth user
       const { data: authData, error: authError } = await supabase.auth.signUp({
         email,
         password,
         options: {
-          emailRedirectTo: `${window.location.origin}/admin/dashboard`,
+          emailRedirectTo: `${window.location.origin}/admin/setup`,
           data: {
             full_name: fullName,
           }
@@ -35,30 +56,62 @@ const AdminSetup = () => {
 
       if (authError) throw authError;
 
-      // 2. Create profile record with admin privileges
-      if (authData.user) {
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .upsert({
-            id: authData.user.id,
-            email,
-            full_name: fullName,
-            username: username.trim() || email.split('@')[0],
-            is_admin: true
-          });
-
-        if (profileError) throw profileError;
+      // Without a session the address has to be confirmed first
+      if (!authData.session || !authData.user) {
+        setSuccess('Account created. Confirm your email, then come back to this page to finish setup.');
+        return;
       }
 
-      setSuccess('Admin user created successfully! Redirecting to admin dashboard...');
-      setTimeout(() => navigate('/admin/dashboard'), 2000);
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .upsert({
+          id: authData.user.id,
+          email,
+          full_name: fullName,
+          username: username.trim() || email.split('@')[0]
+        });
+
+      if (profileError) throw profileError;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The role is only granted server-side, with the setup token and while no
+  // admin exists
+  const claimAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      await bootstrapFirstAdmin(setupToken.trim());
+      await refreshRole();
+      setSetupOpen(false);
+      setSuccess('You are now the super admin. Redirecting to the admin dashboard...');
+      setTimeout(() => navigate('/admin/templates'), 2000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create admin');
+      setError(err instanceof Error ? err.message : 'Failed to set up the admin account');
     } finally {
       setLoading(false);
     }
   };
 
+  if (setupOpen === null && !error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (showSignIn && !user && !authLoading) {
+    return <Auth onAuthSuccess={() => setShowSignIn(false)} returnUrl="/admin/setup" />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-gray-50 to-white">
       <div className="absolute top-4 left-4">
@@ -78,10 +131,12 @@ const AdminSetup = () => {
             <div className="relative bg-white p-8 rounded-xl shadow-xl border border-gray-100">
               <div className="text-center mb-8">
                 <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-purple-600">
-                  Create Admin User
+                  Admin Setup
                 </h2>
                 <p className="mt-2 text-gray-600">
-                  Setup the first admin account for your application
+                  {user
+                    ? 'Enter the setup token to make this account the first admin'
+                    : 'Create the first admin account for your application'}
                 </p>
               </div>
 
@@ -115,105 +170,169 @@ const AdminSetup = () => {
                 </div>
               )}
 
-              <form onSubmit={createAdmin} className="space-y-4">
-                <div>
-                  <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
-                    Full Name
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <User className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <input
-                      id="fullName"
-                      type="text"
-                      required
-                      value={fullName}
-                      onChange={(e) => setFullName(e.target.value)}
-                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
-                      placeholder="Enter admin's full name"
-                    />
+              {setupOpen === false ? (
+                !success && (
+                  <div className="text-center text-gray-600 space-y-2">
+                    <p>An admin account has already been set up, so this page is disabled.</p>
+                    <p className="text-sm">Ask an admin to invite you from the User Roles page.</p>
                   </div>
-                </div>
+                )
+              ) : user ? (
+                <form onSubmit={claimAdmin} className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Signed in as <span className="font-medium text-gray-900">{user.email}</span>
+                  </p>
 
-                <div>
-                  <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-                    Username
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <User className="h-5 w-5 text-gray-400" />
+                  <div>
+                    <label htmlFor="setupToken" className="block text-sm font-medium text-gray-700 mb-2">
+                      Setup Token
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <Key className="h-5 w-5 text-gray-400" />
+                      </div>
+                      <input
+                        id="setupToken"
+                        type="password"
+                        required
+                        value={setupToken}
+                        onChange={(e) => setSetupToken(e.target.value)}
+                        className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
+                        placeholder="The ADMIN_SETUP_TOKEN secret"
+                        autoComplete="off"
+                      />
                     </div>
-                    <input
-                      id="username"
-                      type="text"
-                      required
-                      value={username}
-                      onChange={(e) => setUsername(e.target.value)}
-                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
-                      placeholder="Choose a username"
-                      pattern="^[a-zA-Z0-9_]+$"
-                      title="Only letters, numbers and underscores allowed"
-                    />
                   </div>
-                </div>
 
-                <div>
-                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                    Email Address
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Mail className="h-5 w-5 text-gray-400" />
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 text-base font-medium transition-all duration-300 transform hover:scale-[1.02]"
+                  >
+                    {loading ? (
+                      <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    ) : (
+                      <>
+                        <ShieldCheck className="w-5 h-5 mr-2" />
+                        Become Admin
+                      </>
+                    )}
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <form onSubmit={createAccount} className="space-y-4">
+                    <div>
+                      <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
+                        Full Name
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <User className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          id="fullName"
+                          type="text"
+                          required
+                          value={fullName}
+                          onChange={(e) => setFullName(e.target.value)}
+                          className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
+                          placeholder="Enter admin's full name"
+                        />
+                      </div>
                     </div>
-                    <input
-                      id="email"
-                      type="email"
-                      required
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
-                      placeholder="Enter admin email"
-                    />
-                  </div>
-                </div>
 
-                <div>
-                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                    Password
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Key className="h-5 w-5 text-gray-400" />
+                    <div>
+                      <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                        Username
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <User className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          id="username"
+                          type="text"
+                          required
+                          value={username}
+                          onChange={(e) => setUsername(e.target.value)}
+                          className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
+                          placeholder="Choose a username"
+                          pattern="^[a-zA-Z0-9_]+$"
+                          title="Only letters, numbers and underscores allowed"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                        Email Address
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <Mail className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          id="email"
+                          type="email"
+                          required
+                          value={email}
+                          onChange={(e) => setEmail(e.target.value)}
+                          className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
+                          placeholder="Enter admin email"
+                        />
+                      </div>
                     </div>
-                    <input
-                      id="password"
-                      type="password"
-                      required
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
-                      placeholder="Enter password (min 8 characters)"
-                      minLength={8}
-                    />
-                  </div>
-                </div>
 
-                <button
-                  type="submit"
-                  disabled={loading}
-                  className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 text-base font-medium transition-all duration-300 transform hover:scale-[1.02]"
-                >
-                  {loading ? (
-                    <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  ) : (
-                    <>
-                      <User className="w-5 h-5 mr-2" />
-                      Create Admin Account
-                    </>
-                  )}
-                </button>
-              </form>
+                    <div>
+                      <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                        Password
+                      </label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <Key className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                          id="password"
+                          type="password"
+                          required
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base transition-all duration-300"
+                          placeholder="Enter password (min 8 characters)"
+                          minLength={8}
+                        />
+                      </div>
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 text-base font-medium transition-all duration-300 transform hover:scale-[1.02]"
+                    >
+                      {loading ? (
+                        <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      ) : (
+                        <>
+                          <User className="w-5 h-5 mr-2" />
+                          Create Account
+                        </>
+                      )}
+                    </button>
+                  </form>
+
+                  <p className="mt-6 text-center text-sm text-gray-600">
+                    Already have an account?{' '}
+                    <button
+                      type="button"
+                      onClick={() => setShowSignIn(true)}
+                      className="font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      Sign in
+                    </button>
+                  </p>
+                </>
+              )}
             </div>
           </div>
         </div>
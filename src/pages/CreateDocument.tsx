@@ -1,20 +1,35 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { FileText, ArrowLeft, CheckCircle, ChevronRight, Download } from 'lucide-react';
-import html2pdf from 'html2pdf.js';
-
-interface TemplateField {
-  id: string;
-  label: string;
-  type: string;
-  required: boolean;
-  placeholder?: string;
-  description?: string;
-  options?: string[];
-  isRepeatable?: boolean;
-  repeatableGroup?: string;
-}
+import { useAuth } from '../contexts/useAuth';
+import { sanitizeHtml } from '../lib/sanitizeHtml';
+import { renderTemplate, TemplateError } from '../lib/template';
+import {
+  createGroupRow,
+  createInitialValues,
+  displayValue,
+  FieldErrors,
+  FieldValue,
+  FieldValues,
+  GroupRow,
+  isFieldVisible,
+  isGroup,
+  minRows,
+  normalizeFields,
+  rowErrorKey,
+  resolveFieldValues,
+  resolveSteps,
+  ScalarValue,
+  TemplateField,
+  TemplateStep,
+  toTemplateData,
+  validateFieldValues
+} from '../lib/fields';
+import { clearProgress, loadProgress, REVIEW_STEP_ID, saveProgress } from '../lib/documentProgress';
+import { downloadDocx, downloadPdf, PdfLayout } from '../lib/export';
+import FieldInput from '../components/FieldInput';
+import PdfLayoutSelect from '../components/PdfLayoutSelect';
+import { FileText, ArrowLeft, CheckCircle, ChevronRight, Download, FileDown, Pencil } from 'lucide-react';
 
 interface DocumentTemplate {
   id: string;
@@ -23,23 +38,60 @@ interface DocumentTemplate {
   category_id: string;
   template_html: string;
   fields: TemplateField[];
+  steps: TemplateStep[] | null;
+  published_version_id: string | null;
   created_at: string;
 }
 
-interface FormData {
-  [key: string]: string | FormData[];
-}
+// Drafts are saved to the document library once the user pauses typing
+const AUTOSAVE_DELAY = 1500;
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const AnswerValue = ({ field, value }: { field: TemplateField; value: FieldValue | undefined }) => {
+  if (field.type === 'signature' && typeof value === 'string' && value) {
+    return <img src={value} alt={field.label} className="h-12 object-contain" />;
+  }
+  const text = displayValue(field, value);
+  return text ? <span className="whitespace-pre-line">{text}</span> : <span className="text-gray-400">Not provided</span>;
+};
 
 const CreateDocument = () => {
   const { templateId } = useParams();
+  const [searchParams] = useSearchParams();
+  // Set when reopening a document from the library
+  const documentParam = searchParams.get('document');
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id;
   const [template, setTemplate] = useState<DocumentTemplate | null>(null);
-  const [formData, setFormData] = useState<FormData>({});
-  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<FieldValues>({});
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
   const [activeStep, setActiveStep] = useState(0);
   const [generatedDocument, setGeneratedDocument] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState('');
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>('plain');
+  // When the answers were restored from an earlier visit
+  const [resumedAt, setResumedAt] = useState<string | null>(null);
+  // The template version whose fields and wording are in use
+  const [templateVersionId, setTemplateVersionId] = useState<string | null>(null);
+  // Number of the older template version a library document keeps using
+  const [olderVersion, setOlderVersion] = useState<number | null>(null);
+  // Untouched forms are not saved, so opening one does not count as progress
+  const [isDirty, setIsDirty] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  // The library row being written to. Saves run one after another so the
+  // first one can create the row before later ones update it.
+  const documentIdRef = useRef<string | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const steps = useMemo(() => (template ? resolveSteps(template.steps, template.fields) : []), [template]);
+  // Form values with computed fields filled in, for display and visibility
+  const resolvedData = useMemo(
+    () => (template ? resolveFieldValues(template.fields, formData) : formData),
+    [template, formData]
+  );
 
   useEffect(() => {
     const fetchTemplate = async () => {
@@ -52,18 +104,72 @@ const CreateDocument = () => {
           .single();
 
         if (error) throw error;
-        setTemplate(data);
-        
-        // Initialize form data structure
-        const initialData: FormData = {};
-        data.fields.forEach(field => {
-          if (field.isRepeatable) {
-            initialData[field.id] = [{}];
-          } else {
-            initialData[field.id] = '';
+
+        // Documents from the library are edited against the template version
+        // they were created from
+        let userDocument: { id: string; form_data: FieldValues | null; current_step: string | null } | null = null;
+        let content: DocumentTemplate = data;
+        let versionId: string | null = data.published_version_id;
+        if (documentParam) {
+          const { data: documentData, error: documentError } = await supabase
+            .from('user_documents')
+            .select('id, form_data, current_step, template_version_id')
+            .eq('id', documentParam)
+            .eq('template_id', data.id)
+            .single();
+
+          if (documentError) throw documentError;
+          userDocument = documentData;
+
+          const pinnedId = documentData.template_version_id;
+          if (pinnedId && pinnedId !== data.published_version_id) {
+            const { data: pinned, error: pinnedError } = await supabase
+              .from('document_template_versions')
+              .select('id, version, template_html, fields, steps')
+              .eq('id', pinnedId)
+              .single();
+
+            if (pinnedError) {
+              console.error('Error fetching template version:', pinnedError);
+            } else {
+              content = { ...data, template_html: pinned.template_html, fields: pinned.fields, steps: pinned.steps };
+              versionId = pinned.id;
+              setOlderVersion(pinned.version);
+            }
           }
-        });
-        setFormData(initialData);
+        }
+
+        const fields = normalizeFields(content.fields);
+        const initialValues = createInitialValues(fields);
+        setTemplate({ ...content, fields });
+        setTemplateVersionId(versionId);
+
+        // Answers to fields the template no longer has, or whose kind
+        // changed, are dropped
+        const restore = (values: FieldValues, stepId: string | null) => {
+          const savedValues = Object.entries(values).filter(
+            ([id, value]) => id in initialValues && Array.isArray(value) === Array.isArray(initialValues[id])
+          );
+          const savedSteps = resolveSteps(content.steps, fields);
+          const stepIndex = stepId === REVIEW_STEP_ID
+            ? savedSteps.length
+            : savedSteps.findIndex(step => step.id === stepId);
+          setFormData({ ...initialValues, ...Object.fromEntries(savedValues) });
+          setActiveStep(Math.max(stepIndex, 0));
+        };
+
+        const saved = loadProgress(data.id);
+        if (userDocument) {
+          documentIdRef.current = userDocument.id;
+          restore(userDocument.form_data ?? {}, userDocument.current_step);
+        } else if (saved) {
+          documentIdRef.current = saved.documentId ?? null;
+          restore(saved.values, saved.stepId);
+          setResumedAt(saved.savedAt);
+          setIsDirty(true);
+        } else {
+          setFormData(initialValues);
+        }
       } catch (error) {
         console.error('Error fetching template:', error);
         navigate('/documents');
@@ -73,90 +179,125 @@ const CreateDocument = () => {
     };
 
     if (templateId) fetchTemplate();
-  }, [templateId, navigate]);
-
-  const handleFieldChange = (fieldId: string, value: string, index?: number) => {
-    setFormData(prev => {
-      const newData = { ...prev };
-      if (typeof index === 'number') {
-        const group = [...(newData[fieldId] as FormData[])];
-        group[index] = { ...group[index], [fieldId]: value };
-        newData[fieldId] = group;
-      } else {
-        newData[fieldId] = value;
+  }, [templateId, documentParam, navigate]);
+
+  // Creates the library row on the first save and updates it after that. A
+  // row deleted from the library in the meantime is created again.
+  const saveDocument = useCallback((changes: Record<string, unknown>) => {
+    const save = async () => {
+      if (!template) return;
+      setSaveStatus('saving');
+      try {
+        if (!userId) throw new Error('Not signed in');
+
+        if (documentIdRef.current) {
+          const { data, error } = await supabase
+            .from('user_documents')
+            .update(changes)
+            .eq('id', documentIdRef.current)
+            .select('id');
+
+          if (error) throw error;
+          if (data.length > 0) {
+            setSaveStatus('saved');
+            return;
+          }
+        }
+
+        const { data, error } = await supabase
+          .from('user_documents')
+          .insert([{
+            user_id: userId,
+            template_id: template.id,
+            template_version_id: templateVersionId,
+            title: template.name,
+            ...changes
+          }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        documentIdRef.current = data.id;
+        setSaveStatus('saved');
+      } catch (error) {
+        console.error('Error saving document:', error);
+        setSaveStatus('error');
       }
-      return newData;
-    });
+    };
+
+    saveQueueRef.current = saveQueueRef.current.then(save);
+    return saveQueueRef.current;
+  }, [template, userId, templateVersionId]);
+
+  // Editing the answers of a generated document makes it a draft again
+  // until it is regenerated
+  useEffect(() => {
+    if (!template || !isDirty || generatedDocument) return;
+    const stepId = steps[activeStep]?.id ?? REVIEW_STEP_ID;
+    saveProgress(template.id, { values: formData, stepId, documentId: documentIdRef.current ?? undefined });
+
+    const timer = setTimeout(() => {
+      saveDocument({ form_data: formData, current_step: stepId, status: 'draft' }).then(() => {
+        if (documentIdRef.current) {
+          saveProgress(template.id, { values: formData, stepId, documentId: documentIdRef.current });
+        }
+      });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [template, steps, formData, activeStep, isDirty, generatedDocument, saveDocument]);
 
-    // Clear error if field is corrected
-    if (formErrors[fieldId]) {
+  const clearError = (key: string) => {
+    if (formErrors[key]) {
       setFormErrors(prev => {
         const newErrors = { ...prev };
-        delete newErrors[fieldId];
+        delete newErrors[key];
         return newErrors;
       });
     }
   };
 
-  const addRepeatableGroup = (fieldId: string) => {
-    setFormData(prev => {
-      const newData = { ...prev };
-      const group = [...(newData[fieldId] as FormData[])];
-      group.push({});
-      newData[fieldId] = group;
-      return newData;
-    });
+  const handleFieldChange = (fieldId: string, value: ScalarValue) => {
+    setFormData(prev => ({ ...prev, [fieldId]: value }));
+    setIsDirty(true);
+    clearError(fieldId);
   };
 
-  const removeRepeatableGroup = (fieldId: string, index: number) => {
-    setFormData(prev => {
-      const newData = { ...prev };
-      const group = [...(newData[fieldId] as FormData[])];
-      group.splice(index, 1);
-      newData[fieldId] = group;
-      return newData;
-    });
+  const updateRows = (groupId: string, update: (rows: GroupRow[]) => GroupRow[]) => {
+    setFormData(prev => ({ ...prev, [groupId]: update([...(prev[groupId] as GroupRow[] || [])]) }));
+    setIsDirty(true);
   };
 
-  const validateStep = (stepFields: TemplateField[]) => {
-    const errors: Record<string, string> = {};
-    let isValid = true;
-
-    stepFields.forEach(field => {
-      if (field.required) {
-        if (field.isRepeatable) {
-          const groups = formData[field.id] as FormData[];
-          if (!groups || groups.length === 0) {
-            errors[field.id] = `At least one ${field.label} is required`;
-            isValid = false;
-          } else {
-            groups.forEach((group, index) => {
-              if (!group[field.id]) {
-                errors[`${field.id}_${index}`] = `${field.label} is required`;
-                isValid = false;
-              }
-            });
-          }
-        } else if (!formData[field.id]) {
-          errors[field.id] = `${field.label} is required`;
-          isValid = false;
-        }
-      }
+  const handleRowChange = (groupId: string, index: number, childId: string, value: ScalarValue) => {
+    updateRows(groupId, rows => {
+      rows[index] = { ...rows[index], [childId]: value };
+      return rows;
     });
+    clearError(rowErrorKey(groupId, index, childId));
+  };
 
-    setFormErrors(errors);
-    return isValid;
+  const addGroupRow = (group: TemplateField) => {
+    updateRows(group.id, rows => [...rows, createGroupRow(group)]);
+    clearError(group.id);
   };
 
-  const handleNextStep = () => {
-    if (!template) return;
-    
-    const currentStepFields = template.fields.filter(
-      field => field.repeatableGroup === `step${activeStep + 1}` || 
-              (!field.repeatableGroup && activeStep === 0)
+  // Row errors are keyed by index, so they are re-checked on the next step
+  // change rather than shifted along with the rows
+  const removeGroupRow = (groupId: string, index: number) => {
+    updateRows(groupId, rows => rows.filter((_, i) => i !== index));
+    setFormErrors(prev =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith(`${groupId}.`)))
     );
+  };
+
+  // Resolved values, so conditions on computed fields from other steps hold
+  const validateStep = (stepFields: TemplateField[]) => {
+    const errors = validateFieldValues(stepFields, resolvedData);
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
 
-    if (validateStep(currentStepFields)) {
+  const handleNextStep = () => {
+    if (validateStep(steps[activeStep].fields)) {
       setActiveStep(prev => prev + 1);
     }
   };
@@ -165,79 +306,61 @@ const CreateDocument = () => {
     setActiveStep(prev => prev - 1);
   };
 
+  const startOver = () => {
+    if (!template) return;
+    clearProgress(template.id);
+    documentIdRef.current = null;
+    setFormData(createInitialValues(template.fields));
+    setFormErrors({});
+    setActiveStep(0);
+    setResumedAt(null);
+    setIsDirty(false);
+    setSaveStatus('idle');
+  };
+
+  // Checks every step again, since earlier answers can change which fields
+  // are shown, and goes back to the first step with a problem
   const generateDocument = async () => {
     if (!template) return;
-    
+    const errors = validateFieldValues(template.fields, resolvedData);
+    if (Object.keys(errors).length > 0) {
+      const hasError = (field: TemplateField) =>
+        Object.keys(errors).some(key => key === field.id || key.startsWith(`${field.id}.`));
+      setFormErrors(errors);
+      setActiveStep(Math.max(steps.findIndex(step => step.fields.some(hasError)), 0));
+      return;
+    }
+
     setIsGenerating(true);
+    setGenerateError('');
     try {
-      // Replace placeholders in the template HTML
-      let htmlContent = template.template_html;
-      
-      // Replace simple fields
-      Object.keys(formData).forEach(key => {
-        if (!Array.isArray(formData[key])) {
-          const value = formData[key] as string;
-          htmlContent = htmlContent.replace(new RegExp(`\\[${key}\\]`, 'g'), value);
-        }
-      });
-      
-      // Replace repeatable sections
-      const repeatableGroups = template.fields.filter(f => f.isRepeatable);
-      repeatableGroups.forEach(group => {
-        const groups = formData[group.id] as FormData[];
-        if (groups && groups.length > 0) {
-          const pattern = new RegExp(`<!-- START ${group.id} -->([\\s\\S]*?)<!-- END ${group.id} -->`, 'g');
-          const matches = htmlContent.match(pattern);
-          
-          if (matches) {
-            const templateBlock = matches[0].replace(`<!-- START ${group.id} -->`, '').replace(`<!-- END ${group.id} -->`, '').trim();
-            let renderedBlocks = '';
-            
-            groups.forEach(groupData => {
-              let block = templateBlock;
-              Object.keys(groupData).forEach(key => {
-                block = block.replace(new RegExp(`\\[${key}\\]`, 'g'), groupData[key] as string);
-              });
-              renderedBlocks += block;
-            });
-            
-            htmlContent = htmlContent.replace(pattern, renderedBlocks);
-          }
-        }
-      });
-      
-      // Replace today's date
-      const today = new Date();
-      const formattedDate = today.toLocaleDateString('en-IN', {
-        day: '2-digit',
-        month: '2-digit',
-        year: 'numeric'
-      });
-      htmlContent = htmlContent.replace(/\[current_date\]/g, formattedDate);
-      
+      const htmlContent = sanitizeHtml(renderTemplate(template.template_html, toTemplateData(template.fields, formData)));
       setGeneratedDocument(htmlContent);
+      clearProgress(template.id);
+      saveDocument({ form_data: formData, current_step: REVIEW_STEP_ID, content_html: htmlContent, status: 'final' });
     } catch (error) {
       console.error('Error generating document:', error);
+      setGenerateError(
+        error instanceof TemplateError
+          ? `This template has an error (line ${error.line}, column ${error.column}): ${error.message}`
+          : 'Failed to generate document. Please try again.'
+      );
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const downloadDocument = () => {
-    if (!generatedDocument) return;
-    
-    const element = document.createElement('div');
-    element.innerHTML = generatedDocument;
-    
-    const opt = {
-      margin: 15,
-      filename: `${template?.name.replace(/\s+/g, '_')}.pdf`,
-      image: { type: 'jpeg', quality: 0.98 },
-      html2canvas: { scale: 2 },
-      jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-    };
+  const downloadDocument = async (format: 'pdf' | 'docx') => {
+    if (!generatedDocument || !template) return;
 
-    html2pdf().set(opt).from(element).save();
+    setGenerateError('');
+    try {
+      if (format === 'pdf') await downloadPdf(generatedDocument, template.name, { layout: pdfLayout });
+      else await downloadDocx(generatedDocument, template.name);
+    } catch (error) {
+      console.error(`Error generating ${format.toUpperCase()}:`, error);
+      setGenerateError(`Failed to generate the ${format === 'pdf' ? 'PDF' : 'Word document'}. Please try again.`);
+    }
   };
 
   if (isLoading) {
@@ -274,21 +397,46 @@ const CreateDocument = () => {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-xl font-semibold text-gray-900">{template.name}</h2>
-                <p className="mt-1 text-sm text-gray-500">Your document is ready!</p>
+                <p className="mt-1 text-sm text-gray-500">
+                  Your document is ready!
+                  {saveStatus === 'saved' && ' It has been saved to My Documents.'}
+                  {saveStatus === 'error' && ' It could not be saved to My Documents.'}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <PdfLayoutSelect value={pdfLayout} onChange={setPdfLayout} />
+                <button
+                  onClick={() => downloadDocument('docx')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  <FileDown className="-ml-1 mr-2 h-5 w-5" />
+                  Download Word
+                </button>
+                <button
+                  onClick={() => downloadDocument('pdf')}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  <Download className="-ml-1 mr-2 h-5 w-5" />
+                  Download PDF
+                </button>
               </div>
-              <button
-                onClick={downloadDocument}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              >
-                <Download className="-ml-1 mr-2 h-5 w-5" />
-                Download PDF
-              </button>
             </div>
           </div>
           <div className="px-4 py-5 sm:p-6">
             <div className="document-preview border border-gray-200 rounded-lg p-6" dangerouslySetInnerHTML={{ __html: generatedDocument }} />
           </div>
-          <div className="px-4 py-4 sm:px-6 bg-gray-50 border-t border-gray-200 flex justify-end">
+          {generateError && (
+            <div className="px-4 py-3 bg-red-50 border-t border-red-200 text-sm text-red-700">
+              {generateError}
+            </div>
+          )}
+          <div className="px-4 py-4 sm:px-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3">
+            <button
+              onClick={() => navigate('/my-documents')}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              My Documents
+            </button>
             <button
               onClick={() => navigate('/documents')}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -301,17 +449,15 @@ const CreateDocument = () => {
     );
   }
 
-  // Group fields by step
-  const stepFields = template.fields.filter(
-    field => field.repeatableGroup === `step${activeStep + 1}` || 
-            (!field.repeatableGroup && activeStep === 0)
-  );
+  const isReview = activeStep === steps.length;
+  const currentStep = steps[activeStep];
+  const stepFields = isReview ? [] : currentStep.fields.filter(field => isFieldVisible(field, resolvedData));
+  const stepTitles = [...steps.map(step => step.title), 'Review'];
 
-  const totalSteps = Math.max(
-    ...template.fields
-      .map(f => f.repeatableGroup ? parseInt(f.repeatableGroup.replace('step', '')) : 1)
-      .filter(step => !isNaN(step))
-  ) || 1;
+  const inputClass = (errorKey: string) =>
+    `mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
+      formErrors[errorKey] ? 'border-red-300' : 'border'
+    }`;
 
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -325,15 +471,43 @@ const CreateDocument = () => {
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">{template.name}</h2>
-          <p className="mt-1 text-sm text-gray-500">{template.description}</p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{template.name}</h2>
+              <p className="mt-1 text-sm text-gray-500">{template.description}</p>
+            </div>
+            <p className={`text-xs whitespace-nowrap ${saveStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+              {saveStatus === 'saving' && 'Saving draft...'}
+              {saveStatus === 'saved' && 'Draft saved'}
+              {saveStatus === 'error' && 'Could not save draft'}
+            </p>
+          </div>
         </div>
 
+        {olderVersion !== null && (
+          <div className="px-4 py-3 bg-amber-50 border-b border-amber-100 text-sm text-amber-800">
+            This document was created from version {olderVersion} of the template and keeps using it.
+            Start a new document to use the latest version.
+          </div>
+        )}
+
+        {resumedAt && (
+          <div className="px-4 py-3 bg-indigo-50 border-b border-indigo-100 flex items-center justify-between text-sm text-indigo-700">
+            <span>
+              Continuing from your answers saved on{' '}
+              {new Date(resumedAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}.
+            </span>
+            <button onClick={startOver} className="font-medium text-indigo-600 hover:text-indigo-800">
+              Start over
+            </button>
+          </div>
+        )}
+
         {/* Progress Steps */}
-        <div className="px-4 py-4 border-b border-gray-200">
+        <div className="px-4 py-4 border-b border-gray-200 overflow-x-auto">
           <nav className="flex items-center justify-center" aria-label="Progress">
             <ol className="flex items-center space-x-8">
-              {Array.from({ length: totalSteps }).map((_, index) => (
+              {stepTitles.map((title, index) => (
                 <li key={index} className="flex items-center">
                   {index < activeStep ? (
                     <button
@@ -344,7 +518,7 @@ const CreateDocument = () => {
                         <CheckCircle className="w-5 h-5 text-white" />
                       </span>
                       <span className="ml-3 text-sm font-medium text-indigo-600 group-hover:text-indigo-800">
-                        Step {index + 1}
+                        {title}
                       </span>
                     </button>
                   ) : index === activeStep ? (
@@ -352,17 +526,17 @@ const CreateDocument = () => {
                       <span className="flex items-center justify-center w-8 h-8 rounded-full border-2 border-indigo-600">
                         <span className="text-indigo-600">{index + 1}</span>
                       </span>
-                      <span className="ml-3 text-sm font-medium text-indigo-600">Step {index + 1}</span>
+                      <span className="ml-3 text-sm font-medium text-indigo-600">{title}</span>
                     </div>
                   ) : (
                     <div className="flex items-center">
                       <span className="flex items-center justify-center w-8 h-8 rounded-full border-2 border-gray-300">
                         <span className="text-gray-500">{index + 1}</span>
                       </span>
-                      <span className="ml-3 text-sm font-medium text-gray-500">Step {index + 1}</span>
+                      <span className="ml-3 text-sm font-medium text-gray-500">{title}</span>
                     </div>
                   )}
-                  {index < totalSteps - 1 && (
+                  {index < stepTitles.length - 1 && (
                     <ChevronRight className="h-5 w-5 text-gray-400" />
                   )}
                 </li>
@@ -372,125 +546,157 @@ const CreateDocument = () => {
         </div>
 
         <div className="px-4 py-5 sm:p-6">
-          <form className="space-y-8">
-            {stepFields.map((field) => (
-              <div key={field.id} className="space-y-2">
-                {!field.isRepeatable ? (
-                  <div>
-                    <label htmlFor={field.id} className="block text-sm font-medium text-gray-700">
-                      {field.label}
-                      {field.required && <span className="text-red-500 ml-1">*</span>}
-                    </label>
-                    {field.description && (
-                      <p className="text-xs text-gray-500 mt-1">{field.description}</p>
-                    )}
-                    {field.type === 'textarea' ? (
-                      <textarea
-                        id={field.id}
-                        name={field.id}
-                        value={formData[field.id] as string || ''}
-                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                        placeholder={field.placeholder}
-                        rows={4}
-                        className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
-                          formErrors[field.id] ? 'border-red-300' : 'border'
-                        }`}
-                      />
-                    ) : field.type === 'select' ? (
-                      <select
-                        id={field.id}
-                        name={field.id}
-                        value={formData[field.id] as string || ''}
-                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                        className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
-                          formErrors[field.id] ? 'border-red-300' : 'border'
-                        }`}
-                      >
-                        <option value="">Select an option</option>
-                        {field.options?.map(option => (
-                          <option key={option} value={option}>{option}</option>
-                        ))}
-                      </select>
-                    ) : (
-                      <input
-                        type={field.type}
-                        id={field.id}
-                        name={field.id}
-                        value={formData[field.id] as string || ''}
-                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                        placeholder={field.placeholder}
-                        className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
-                          formErrors[field.id] ? 'border-red-300' : 'border'
-                        }`}
-                      />
-                    )}
-                    {formErrors[field.id] && (
-                      <p className="mt-1 text-sm text-red-600">{formErrors[field.id]}</p>
-                    )}
-                  </div>
-                ) : (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      {field.label}
-                      {field.required && <span className="text-red-500 ml-1">*</span>}
-                    </label>
-                    {field.description && (
-                      <p className="text-xs text-gray-500 mt-1">{field.description}</p>
-                    )}
-                    {(formData[field.id] as FormData[] || []).map((group, index) => (
-                      <div key={index} className="mt-4 p-4 border border-gray-200 rounded-lg">
-                        <div className="flex justify-between items-center mb-3">
-                          <h4 className="text-sm font-medium text-gray-700">
-                            {field.label} #{index + 1}
-                          </h4>
-                          <button
-                            type="button"
-                            onClick={() => removeRepeatableGroup(field.id, index)}
-                            className="text-sm text-red-600 hover:text-red-800"
-                          >
-                            Remove
-                          </button>
-                        </div>
-                        {template.fields
-                          .filter(f => f.repeatableGroup === field.repeatableGroup)
-                          .map(subField => (
-                            <div key={subField.id} className="mt-2">
-                              <label htmlFor={`${subField.id}_${index}`} className="block text-sm font-medium text-gray-700">
-                                {subField.label}
-                                {subField.required && <span className="text-red-500 ml-1">*</span>}
-                              </label>
-                              <input
-                                type={subField.type}
-                                id={`${subField.id}_${index}`}
-                                name={`${subField.id}_${index}`}
-                                value={group[subField.id] as string || ''}
-                                onChange={(e) => handleFieldChange(subField.id, e.target.value, index)}
-                                placeholder={subField.placeholder}
-                                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
-                                  formErrors[`${subField.id}_${index}`] ? 'border-red-300' : 'border'
-                                }`}
-                              />
-                              {formErrors[`${subField.id}_${index}`] && (
-                                <p className="mt-1 text-sm text-red-600">{formErrors[`${subField.id}_${index}`]}</p>
-                              )}
-                            </div>
-                          ))}
-                      </div>
-                    ))}
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-900">{isReview ? 'Review your answers' : currentStep.title}</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {isReview ? 'Check everything below before generating the document.' : currentStep.description}
+            </p>
+          </div>
+
+          {isReview ? (
+            <div className="space-y-6">
+              {steps.map((step, index) => (
+                <div key={step.id}>
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-semibold text-gray-900">{step.title}</h4>
                     <button
                       type="button"
-                      onClick={() => addRepeatableGroup(field.id)}
-                      className="mt-2 inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                      onClick={() => setActiveStep(index)}
+                      className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500"
                     >
-                      Add {field.label}
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
                     </button>
                   </div>
-                )}
-              </div>
-            ))}
-          </form>
+                  <dl className="mt-2 border-t border-gray-200 divide-y divide-gray-100">
+                    {step.fields.filter(field => isFieldVisible(field, resolvedData)).map(field => (
+                      <div key={field.id} className="py-2 sm:grid sm:grid-cols-3 sm:gap-4">
+                        <dt className="text-sm text-gray-500">{field.label}</dt>
+                        <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                          {!isGroup(field) ? (
+                            <AnswerValue field={field} value={resolvedData[field.id]} />
+                          ) : (resolvedData[field.id] as GroupRow[] || []).length === 0 ? (
+                            <span className="text-gray-400">None added</span>
+                          ) : (
+                            <ol className="space-y-2">
+                              {(resolvedData[field.id] as GroupRow[]).map((row, rowIndex) => (
+                                <li key={rowIndex}>
+                                  <p className="font-medium">{field.itemLabel ?? field.label} #{rowIndex + 1}</p>
+                                  {(field.fields ?? []).filter(child => isFieldVisible(child, resolvedData, row)).map(child => (
+                                    <p key={child.id}>
+                                      <span className="text-gray-500">{child.label}: </span>
+                                      <AnswerValue field={child} value={row[child.id]} />
+                                    </p>
+                                  ))}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <form className="space-y-8">
+              {stepFields.map((field) => (
+                <div key={field.id} className="space-y-2">
+                  {!isGroup(field) ? (
+                    <div>
+                      <label htmlFor={field.id} className="block text-sm font-medium text-gray-700">
+                        {field.label}
+                        {field.required && <span className="text-red-500 ml-1">*</span>}
+                      </label>
+                      {field.description && (
+                        <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                      )}
+                      <FieldInput
+                        field={field}
+                        id={field.id}
+                        value={resolvedData[field.id] as ScalarValue}
+                        onChange={value => handleFieldChange(field.id, value)}
+                        inputClassName={inputClass(field.id)}
+                      />
+                      {formErrors[field.id] && (
+                        <p className="mt-1 text-sm text-red-600">{formErrors[field.id]}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        {field.label}
+                        {field.required && <span className="text-red-500 ml-1">*</span>}
+                      </label>
+                      {field.description && (
+                        <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                      )}
+                      {(resolvedData[field.id] as GroupRow[] || []).map((row, index, rows) => (
+                        <div key={index} className="mt-4 p-4 border border-gray-200 rounded-lg">
+                          <div className="flex justify-between items-center mb-3">
+                            <h4 className="text-sm font-medium text-gray-700">
+                              {field.itemLabel ?? field.label} #{index + 1}
+                            </h4>
+                            {rows.length > minRows(field) && (
+                              <button
+                                type="button"
+                                onClick={() => removeGroupRow(field.id, index)}
+                                className="text-sm text-red-600 hover:text-red-800"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                          {(field.fields ?? []).filter(child => isFieldVisible(child, resolvedData, row)).map(child => {
+                            const errorKey = rowErrorKey(field.id, index, child.id);
+                            return (
+                              <div key={child.id} className="mt-2">
+                                <label htmlFor={`${field.id}_${index}_${child.id}`} className="block text-sm font-medium text-gray-700">
+                                  {child.label}
+                                  {child.required && <span className="text-red-500 ml-1">*</span>}
+                                </label>
+                                <FieldInput
+                                  field={child}
+                                  id={`${field.id}_${index}_${child.id}`}
+                                  value={row[child.id]}
+                                  onChange={value => handleRowChange(field.id, index, child.id, value)}
+                                  inputClassName={inputClass(errorKey)}
+                                />
+                                {formErrors[errorKey] && (
+                                  <p className="mt-1 text-sm text-red-600">{formErrors[errorKey]}</p>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ))}
+                      {(field.maxItems === undefined || (formData[field.id] as GroupRow[] || []).length < field.maxItems) && (
+                        <button
+                          type="button"
+                          onClick={() => addGroupRow(field)}
+                          className="mt-2 inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        >
+                          Add {field.itemLabel ?? field.label}
+                        </button>
+                      )}
+                      {formErrors[field.id] && (
+                        <p className="mt-1 text-sm text-red-600">{formErrors[field.id]}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </form>
+          )}
         </div>
 
+        {generateError && (
+          <div className="px-4 py-3 bg-red-50 border-t border-red-200 text-sm text-red-700">
+            {generateError}
+          </div>
+        )}
+
         <div className="px-4 py-4 bg-gray-50 border-t border-gray-200 flex justify-between">
           {activeStep > 0 ? (
             <button
@@ -502,12 +708,12 @@ const CreateDocument = () => {
           ) : (
             <div></div>
           )}
-          {activeStep < totalSteps - 1 ? (
+          {!isReview ? (
             <button
               onClick={handleNextStep}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
             >
-              Next
+              {activeStep === steps.length - 1 ? 'Review' : 'Next'}
             </button>
           ) : (
             <button
@@ -44,10 +44,11 @@ const DocumentTemplates = () => {
 
         if (categoriesError) throw categoriesError;
 
-        // Fetch templates
+        // Fetch templates, leaving out ones that were never published
         const { data: templatesData, error: templatesError } = await supabase
           .from('document_templates')
-          .select('*');
+          .select('*')
+          .not('published_version_id', 'is', null);
 
         if (templatesError) throw templatesError;
 
@@ -0,0 +1,380 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { sanitizeHtml } from '../lib/sanitizeHtml';
+import { downloadDocx, downloadPdf, PdfLayout } from '../lib/export';
+import PdfLayoutSelect from '../components/PdfLayoutSelect';
+import {
+  DocumentTextIcon,
+  DocumentDuplicateIcon,
+  ArrowDownTrayIcon,
+  EyeIcon,
+  PencilIcon,
+  TrashIcon,
+  MagnifyingGlassIcon,
+  ExclamationTriangleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface UserDocument {
+  id: string;
+  user_id: string;
+  template_id: string | null;
+  template_version_id: string | null;
+  title: string;
+  document_type: string | null;
+  fields: unknown[] | null;
+  form_data: Record<string, unknown>;
+  current_step: string | null;
+  content_html: string | null;
+  status: 'draft' | 'final';
+  created_at: string;
+  updated_at: string;
+  document_templates: { name: string } | null;
+}
+
+type StatusFilter = 'all' | 'draft' | 'final';
+
+const STATUS_FILTERS: { id: StatusFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'draft', label: 'Drafts' },
+  { id: 'final', label: 'Generated' }
+];
+
+const formatUpdatedAt = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+const MyDocuments = () => {
+  const [documents, setDocuments] = useState<UserDocument[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>('plain');
+  const [openDocument, setOpenDocument] = useState<UserDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchDocuments = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const { data, error } = await supabase
+          .from('user_documents')
+          .select('*, document_templates(name)')
+          .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+        if (isMounted) setDocuments(data || []);
+      } catch (error) {
+        console.error('Error fetching documents:', error);
+        if (isMounted) setError('Failed to load your documents. Please try again later.');
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    fetchDocuments();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const filteredDocuments = documents.filter(userDocument => {
+    const matchesStatus = statusFilter === 'all' || userDocument.status === statusFilter;
+    const matchesSearch = userDocument.title.toLowerCase().includes(searchQuery.toLowerCase());
+    return matchesStatus && matchesSearch;
+  });
+
+  // Template documents reopen in their form; chat documents in the
+  // assistant, which keeps the fields the model suggested
+  const canEdit = (userDocument: UserDocument) => !!userDocument.template_id || !!userDocument.fields;
+
+  const handleEdit = (userDocument: UserDocument) => {
+    navigate(
+      userDocument.template_id
+        ? `/create-document/${userDocument.template_id}?document=${userDocument.id}`
+        : `/tax-assistant?document=${userDocument.id}`
+    );
+  };
+
+  const handleDuplicate = async (userDocument: UserDocument) => {
+    setActionError(null);
+    try {
+      const { data, error } = await supabase
+        .from('user_documents')
+        .insert([{
+          user_id: userDocument.user_id,
+          template_id: userDocument.template_id,
+          template_version_id: userDocument.template_version_id,
+          title: `${userDocument.title} (copy)`,
+          document_type: userDocument.document_type,
+          fields: userDocument.fields,
+          form_data: userDocument.form_data,
+          current_step: userDocument.current_step,
+          content_html: userDocument.content_html,
+          status: userDocument.status
+        }])
+        .select('*, document_templates(name)')
+        .single();
+
+      if (error) throw error;
+      setDocuments(prev => [data, ...prev]);
+    } catch (error) {
+      console.error('Error duplicating document:', error);
+      setActionError('Failed to duplicate the document. Please try again.');
+    }
+  };
+
+  const handleDownload = async (userDocument: UserDocument, format: 'pdf' | 'docx') => {
+    if (!userDocument.content_html) return;
+    setActionError(null);
+    try {
+      const html = sanitizeHtml(userDocument.content_html);
+      // Drafts have changed since they were last generated
+      if (format === 'pdf') {
+        await downloadPdf(html, userDocument.title, { layout: pdfLayout, draft: userDocument.status === 'draft' });
+      }
+      else await downloadDocx(html, userDocument.title);
+    } catch (error) {
+      console.error(`Error generating ${format.toUpperCase()}:`, error);
+      setActionError(`Failed to generate the ${format === 'pdf' ? 'PDF' : 'Word document'}. Please try again.`);
+    }
+  };
+
+  const handleDelete = async (userDocument: UserDocument) => {
+    if (!window.confirm(`Delete "${userDocument.title}"? This cannot be undone.`)) return;
+    setActionError(null);
+    try {
+      const { error } = await supabase
+        .from('user_documents')
+        .delete()
+        .eq('id', userDocument.id);
+
+      if (error) throw error;
+      setDocuments(prev => prev.filter(d => d.id !== userDocument.id));
+      if (openDocument?.id === userDocument.id) setOpenDocument(null);
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      setActionError('Failed to delete the document. Please try again.');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+              <div className="mt-4">
+                <button
+                  onClick={() => window.location.reload()}
+                  className="rounded-md bg-red-50 px-2 py-1.5 text-sm font-medium text-red-800 hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2 focus:ring-offset-red-50"
+                >
+                  Retry
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        <span className="ml-3 text-gray-600">Loading your documents...</span>
+      </div>
+    );
+  }
+
+  const actionClass =
+    'inline-flex items-center px-2.5 py-1.5 text-sm font-medium rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">My Documents</h1>
+          <p className="mt-1 text-sm text-gray-500">Drafts and documents you have generated.</p>
+        </div>
+        <button
+          onClick={() => navigate('/documents')}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <DocumentTextIcon className="-ml-1 mr-2 h-5 w-5" />
+          New Document
+        </button>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => setStatusFilter(filter.id)}
+              className={`px-4 py-2 rounded-full text-sm font-medium ${statusFilter === filter.id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <PdfLayoutSelect value={pdfLayout} onChange={setPdfLayout} />
+          <div className="relative rounded-md shadow-sm sm:w-72">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="Search by title..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {actionError && (
+        <div className="mb-4 rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{actionError}</div>
+      )}
+
+      {filteredDocuments.length > 0 ? (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {filteredDocuments.map(userDocument => (
+              <li key={userDocument.id} className="px-4 py-4 sm:px-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900 truncate">{userDocument.title}</p>
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                        userDocument.status === 'final' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {userDocument.status === 'final' ? 'Generated' : 'Draft'}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {userDocument.document_templates?.name ?? 'From the assistant'} · Updated {formatUpdatedAt(userDocument.updated_at)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <button
+                    onClick={() => setOpenDocument(userDocument)}
+                    disabled={!userDocument.content_html}
+                    title={userDocument.content_html ? undefined : 'Not generated yet'}
+                    className={actionClass}
+                  >
+                    <EyeIcon className="mr-1.5 h-4 w-4" />
+                    Open
+                  </button>
+                  <button onClick={() => handleEdit(userDocument)} disabled={!canEdit(userDocument)} className={actionClass}>
+                    <PencilIcon className="mr-1.5 h-4 w-4" />
+                    Edit inputs
+                  </button>
+                  <button onClick={() => handleDuplicate(userDocument)} className={actionClass}>
+                    <DocumentDuplicateIcon className="mr-1.5 h-4 w-4" />
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleDownload(userDocument, 'pdf')}
+                    disabled={!userDocument.content_html}
+                    className={actionClass}
+                  >
+                    <ArrowDownTrayIcon className="mr-1.5 h-4 w-4" />
+                    PDF
+                  </button>
+                  <button
+                    onClick={() => handleDownload(userDocument, 'docx')}
+                    disabled={!userDocument.content_html}
+                    className={actionClass}
+                  >
+                    <ArrowDownTrayIcon className="mr-1.5 h-4 w-4" />
+                    Word
+                  </button>
+                  <button
+                    onClick={() => handleDelete(userDocument)}
+                    className="inline-flex items-center px-2.5 py-1.5 text-sm font-medium rounded-md text-red-600 hover:bg-red-50"
+                  >
+                    <TrashIcon className="mr-1.5 h-4 w-4" />
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <DocumentTextIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">No documents found</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {documents.length > 0
+              ? 'Try a different search or filter'
+              : 'Documents you start from a template or the assistant will appear here.'}
+          </p>
+        </div>
+      )}
+
+      {openDocument?.content_html && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+              <h3 className="text-lg font-medium text-gray-900">{openDocument.title}</h3>
+              <button onClick={() => setOpenDocument(null)} className="text-gray-400 hover:text-gray-500">
+                <span className="sr-only">Close</span>
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto p-6">
+              <div
+                className="document-preview border border-gray-200 rounded-lg p-6"
+                dangerouslySetInnerHTML={{ __html: sanitizeHtml(openDocument.content_html) }}
+              />
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+              {canEdit(openDocument) && (
+                <button
+                  onClick={() => handleEdit(openDocument)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  <PencilIcon className="-ml-1 mr-2 h-5 w-5" />
+                  Edit inputs
+                </button>
+              )}
+              <button
+                onClick={() => handleDownload(openDocument, 'docx')}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <ArrowDownTrayIcon className="-ml-1 mr-2 h-5 w-5" />
+                Download Word
+              </button>
+              <button
+                onClick={() => handleDownload(openDocument, 'pdf')}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <ArrowDownTrayIcon className="-ml-1 mr-2 h-5 w-5" />
+                Download PDF
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyDocuments;
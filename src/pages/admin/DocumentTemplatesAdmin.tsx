@@ -1,5 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '../../lib/supabase';
+import { sanitizeHtml } from '../../lib/sanitizeHtml';
+import { diffLines, DiffLine } from '../../lib/diff';
+import { BUILT_IN_NAMES, collectReferences, compileTemplate, validateTemplate } from '../../lib/template';
+import {
+  checkPlaceholders,
+  FIELD_TYPES,
+  normalizeFields,
+  sampleValues,
+  TemplateField,
+  TemplateStep,
+  toTemplateData,
+  validateFieldSchema,
+  validateStepSchema
+} from '../../lib/fields';
+import FieldBuilder from '../../components/FieldBuilder';
+import TemplateCodeEditor, { PlaceholderSuggestion } from '../../components/TemplateCodeEditor';
+import { useAuth } from '../../contexts/useAuth';
 import { DocumentTextIcon, FolderIcon, TrashIcon, PencilIcon, PlusIcon, CogIcon, CheckIcon } from '@heroicons/react/24/outline';
 import { useNavigate } from 'react-router-dom';
 
@@ -17,23 +34,69 @@ interface DocumentTemplate {
   category_id: string;
   template_html: string;
   fields: TemplateField[];
+  steps: TemplateStep[] | null;
   keywords: string[];
+  published_version_id: string | null;
   created_at: string;
 }
 
-interface TemplateField {
+interface TemplateVersion {
   id: string;
-  label: string;
-  type: string;
-  required: boolean;
-  placeholder?: string;
-  description?: string;
-  options?: string[];
-  isRepeatable?: boolean;
-  repeatableGroup?: string;
+  version: number;
+  template_html: string;
+  fields: TemplateField[];
+  steps: TemplateStep[] | null;
+  note: string | null;
+  status: 'draft' | 'published';
+  created_at: string;
+  published_at: string | null;
 }
 
+const DIFF_LINE_CLASSES: Record<DiffLine['type'], string> = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800'
+};
+
+const DIFF_MARKERS: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+const parseJson = (source: string): unknown => {
+  try {
+    return JSON.parse(source);
+  } catch {
+    return undefined;
+  }
+};
+
+const fieldsJson = (fields: TemplateField[]) => JSON.stringify(normalizeFields(fields), null, 2);
+
+const stepsJson = (steps: TemplateStep[] | null) => JSON.stringify(steps ?? [], null, 2);
+
+const VersionDiff = ({ label, before, after }: { label: string; before: string; after: string }) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-1">{label}</h4>
+      {lines.some(line => line.type !== 'same') ? (
+        <pre className="text-xs font-mono border border-gray-200 rounded-md overflow-auto max-h-80 py-1">
+          {lines.map((line, index) => (
+            <div key={index} className={`px-2 whitespace-pre-wrap ${DIFF_LINE_CLASSES[line.type]}`}>
+              {DIFF_MARKERS[line.type]} {line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="text-sm text-gray-500">No changes</p>
+      )}
+    </div>
+  );
+};
+
 const DocumentTemplatesAdmin = () => {
+  const { hasRole } = useAuth();
+  // Staff save drafts; admins publish, roll back and delete
+  const canPublish = hasRole('admin');
   const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
   const [categories, setCategories] = useState<DocumentCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -41,7 +104,81 @@ const DocumentTemplatesAdmin = () => {
   const [currentTemplate, setCurrentTemplate] = useState<DocumentTemplate | null>(null);
   const [htmlEditor, setHtmlEditor] = useState('');
   const [fieldEditor, setFieldEditor] = useState('');
+  const [stepsEditor, setStepsEditor] = useState('');
   const [activeTab, setActiveTab] = useState('fields');
+  const [fieldsView, setFieldsView] = useState<'builder' | 'json'>('builder');
+  // Newest first
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [compareFromId, setCompareFromId] = useState('');
+  const [compareToId, setCompareToId] = useState('');
+  const [versionNote, setVersionNote] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const templateError = useMemo(() => validateTemplate(htmlEditor), [htmlEditor]);
+  const fieldsError = useMemo(() => {
+    try {
+      return validateFieldSchema(JSON.parse(fieldEditor));
+    } catch {
+      return 'Fields must be valid JSON';
+    }
+  }, [fieldEditor]);
+  const stepsError = useMemo(() => {
+    if (fieldsError) return null;
+    try {
+      return validateStepSchema(JSON.parse(stepsEditor || 'null'), JSON.parse(fieldEditor));
+    } catch {
+      return 'Steps must be valid JSON';
+    }
+  }, [stepsEditor, fieldEditor, fieldsError]);
+  // The fields as the builder and preview see them; null while the JSON
+  // does not parse
+  const parsedFields = useMemo(() => {
+    const parsed = parseJson(fieldEditor);
+    return Array.isArray(parsed) ? (parsed as TemplateField[]) : null;
+  }, [fieldEditor]);
+  const hasNamedSteps = useMemo(() => {
+    const parsed = parseJson(stepsEditor);
+    return Array.isArray(parsed) && parsed.length > 0;
+  }, [stepsEditor]);
+  const placeholderIssues = useMemo(() => {
+    if (templateError || fieldsError || !parsedFields) return null;
+    return checkPlaceholders(
+      normalizeFields(parsedFields),
+      collectReferences(compileTemplate(htmlEditor).nodes),
+      BUILT_IN_NAMES
+    );
+  }, [htmlEditor, parsedFields, templateError, fieldsError]);
+  // Legacy [name] placeholders without a field print as written, so only
+  // {{ }} placeholders block saving
+  const placeholderError = useMemo(() => {
+    const unknown = placeholderIssues?.unknown.filter(placeholder => !placeholder.legacy) ?? [];
+    if (unknown.length === 0) return null;
+    return `No field matches ${unknown.map(({ name }) => `{{ ${name} }}`).join(', ')}`;
+  }, [placeholderIssues]);
+  const previewHtml = useMemo(() => {
+    if (templateError || fieldsError || !parsedFields) return null;
+    const fields = normalizeFields(parsedFields);
+    try {
+      return sanitizeHtml(compileTemplate(htmlEditor).render(toTemplateData(fields, sampleValues(fields))));
+    } catch (error) {
+      console.error('Error rendering template preview:', error);
+      return null;
+    }
+  }, [htmlEditor, parsedFields, templateError, fieldsError]);
+  const placeholderSuggestions = useMemo((): PlaceholderSuggestion[] => {
+    const fields = normalizeFields(parsedFields ?? []);
+    return [
+      ...fields.map(field => ({ name: field.id, detail: field.label })),
+      ...fields.flatMap(field =>
+        (field.fields ?? []).map(child => ({ name: child.id, detail: `${child.label}, inside #each ${field.id}` }))
+      ),
+      ...BUILT_IN_NAMES.map(name => ({ name, detail: 'built in' })),
+      { name: '@number', detail: 'row number, inside #each' }
+    ];
+  }, [parsedFields]);
+  const editorError = fieldsError || stepsError || templateError || placeholderError;
+  const compareFrom = versions.find(version => version.id === compareFromId);
+  const compareTo = versions.find(version => version.id === compareToId);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -70,61 +207,166 @@ const DocumentTemplatesAdmin = () => {
     fetchData();
   }, []);
 
-  const handleEditTemplate = (template: DocumentTemplate) => {
+  const fetchVersions = async (templateId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('document_template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as TemplateVersion[];
+    } catch (error) {
+      console.error('Error fetching template versions:', error);
+      return [];
+    }
+  };
+
+  const refreshTemplates = async () => {
+    const { data: templatesData, error: templatesError } = await supabase
+      .from('document_templates')
+      .select('*');
+
+    if (templatesError) throw templatesError;
+    setTemplates(templatesData || []);
+  };
+
+  const openEditor = (template: DocumentTemplate | null) => {
     setCurrentTemplate(template);
-    setHtmlEditor(template.template_html);
-    setFieldEditor(JSON.stringify(template.fields, null, 2));
+    setHtmlEditor(template?.template_html ?? '');
+    setFieldEditor(template ? fieldsJson(template.fields) : '[]');
+    setStepsEditor(template ? stepsJson(template.steps) : '[]');
+    setVersions([]);
+    setVersionNote('');
+    setSaveError(null);
+    if (!template) setActiveTab(tab => (tab === 'history' ? 'fields' : tab));
     setShowTemplateModal(true);
   };
 
+  const handleEditTemplate = async (template: DocumentTemplate) => {
+    openEditor(template);
+    const templateVersions = await fetchVersions(template.id);
+    setVersions(templateVersions);
+    // Compares the live version with the newest one
+    setCompareFromId(template.published_version_id ?? templateVersions[1]?.id ?? '');
+    setCompareToId(templateVersions[0]?.id ?? '');
+  };
+
   const handleCreateTemplate = () => {
-    setCurrentTemplate(null);
-    setHtmlEditor('');
-    setFieldEditor('[]');
-    setShowTemplateModal(true);
+    openEditor(null);
   };
 
-  const handleSaveTemplate = async () => {
+  // Saves the template details and, when the content changed, a new version
+  // of it. Drafts are kept in the history only; users see a version once it
+  // is published.
+  const handleSaveTemplate = async (publish: boolean) => {
+    if (editorError) {
+      setActiveTab(fieldsError ? 'fields' : stepsError ? 'steps' : 'html');
+      return;
+    }
+    // An empty list is saved as no steps, so the fields' "step" numbers apply
+    const steps = JSON.parse(stepsEditor || 'null');
+    const content = {
+      template_html: htmlEditor,
+      fields: JSON.parse(fieldEditor),
+      steps: Array.isArray(steps) && steps.length > 0 ? steps : null
+    };
+    const details = {
+      name: currentTemplate?.name || 'New Template',
+      description: currentTemplate?.description || '',
+      category_id: currentTemplate?.category_id || categories[0]?.id,
+      keywords: currentTemplate?.keywords || []
+    };
+
+    setIsSaving(true);
+    setSaveError(null);
     try {
-      const templateData = {
-        name: currentTemplate?.name || 'New Template',
-        description: currentTemplate?.description || '',
-        category_id: currentTemplate?.category_id || categories[0]?.id,
-        template_html: htmlEditor,
-        fields: JSON.parse(fieldEditor),
-        keywords: currentTemplate?.keywords || []
-      };
-
-      if (currentTemplate) {
-        // Update existing template
+      let templateId = currentTemplate?.id;
+      if (templateId) {
         const { error } = await supabase
           .from('document_templates')
-          .update(templateData)
-          .eq('id', currentTemplate.id);
+          .update(details)
+          .eq('id', templateId);
 
         if (error) throw error;
       } else {
-        // Create new template
-        const { error } = await supabase
+        // The new template stays hidden from users until it is published
+        const { data, error } = await supabase
           .from('document_templates')
-          .insert([templateData]);
+          .insert([{ ...details, ...content }])
+          .select('id')
+          .single();
 
         if (error) throw error;
+        templateId = data.id as string;
       }
 
-      // Refresh templates
-      const { data: templatesData, error: templatesError } = await supabase
-        .from('document_templates')
-        .select('*');
+      const latest = versions[0];
+      const isUnchanged = latest &&
+        latest.template_html === content.template_html &&
+        fieldsJson(latest.fields) === fieldsJson(content.fields) &&
+        stepsJson(latest.steps) === stepsJson(content.steps);
 
-      if (templatesError) throw templatesError;
-      setTemplates(templatesData || []);
+      let versionId = latest?.id;
+      if (!isUnchanged) {
+        const { data, error } = await supabase
+          .from('document_template_versions')
+          .insert([{ template_id: templateId, ...content, note: versionNote.trim() || null }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        versionId = data.id;
+      }
+
+      if (publish && versionId && versionId !== currentTemplate?.published_version_id) {
+        const { error } = await supabase.rpc('publish_template_version', { version_id: versionId });
+        if (error) throw error;
+      }
+
+      await refreshTemplates();
       setShowTemplateModal(false);
     } catch (error) {
       console.error('Error saving template:', error);
+      setSaveError('Failed to save the template. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Publishing an older version is how a template is rolled back. Documents
+  // already created keep the version they were created from.
+  const handlePublishVersion = async (version: TemplateVersion) => {
+    if (!currentTemplate?.id) return;
+    const isRollback = version.status === 'published';
+    if (!window.confirm(`${isRollback ? 'Roll back to' : 'Publish'} version ${version.version}? New documents will use it.`)) {
+      return;
+    }
+
+    setSaveError(null);
+    try {
+      const { error } = await supabase.rpc('publish_template_version', { version_id: version.id });
+      if (error) throw error;
+
+      setCurrentTemplate(prev => (prev ? { ...prev, published_version_id: version.id } : prev));
+      setVersions(await fetchVersions(currentTemplate.id));
+      await refreshTemplates();
+    } catch (error) {
+      console.error('Error publishing template version:', error);
+      setSaveError(`Failed to publish version ${version.version}. Please try again.`);
     }
   };
 
+  // Copies a version into the editor; saving it makes a new version
+  const handleLoadVersion = (version: TemplateVersion) => {
+    setHtmlEditor(version.template_html);
+    setFieldEditor(fieldsJson(version.fields));
+    setStepsEditor(stepsJson(version.steps));
+    setVersionNote(`Restored from version ${version.version}`);
+    setActiveTab('html');
+  };
+
   const handleDeleteTemplate = async (templateId: string) => {
     if (window.confirm('Are you sure you want to delete this template?')) {
       try {
@@ -185,6 +427,9 @@ const DocumentTemplatesAdmin = () => {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Fields
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Created
                 </th>
@@ -213,6 +458,13 @@ const DocumentTemplatesAdmin = () => {
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">{template.fields.length} fields</div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {template.published_version_id ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Published</span>
+                    ) : (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">Not published</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-500">
                       {new Date(template.created_at).toLocaleDateString()}
@@ -225,12 +477,14 @@ const DocumentTemplatesAdmin = () => {
                     >
                       <PencilIcon className="h-5 w-5" />
                     </button>
-                    <button
-                      onClick={() => handleDeleteTemplate(template.id)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      <TrashIcon className="h-5 w-5" />
-                    </button>
+                    {canPublish && (
+                      <button
+                        onClick={() => handleDeleteTemplate(template.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -242,7 +496,7 @@ const DocumentTemplatesAdmin = () => {
       {/* Template Editor Modal */}
       {showTemplateModal && (
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] flex flex-col">
+          <div className="bg-white rounded-lg shadow-xl max-w-7xl w-full h-[90vh] flex flex-col">
             <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
               <h3 className="text-lg font-medium text-gray-900">
                 {currentTemplate ? 'Edit Template' : 'Create New Template'}
@@ -330,67 +584,256 @@ const DocumentTemplatesAdmin = () => {
                       Fields Definition
                     </button>
                     <button
-                      onClick={() => setActiveTab('html')}
-                      className={`py-4 px-6 text-sm font-medium ${activeTab === 'html' ? 'border-indigo-500 text-indigo-600 border-b-2' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+                      onClick={() => setActiveTab('steps')}
+                      className={`py-4 px-6 text-sm font-medium ${activeTab === 'steps' ? 'border-indigo-500 text-indigo-600 border-b-2' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
                     >
-                      HTML Template
+                      Form Steps
                     </button>
                     <button
-                      onClick={() => setActiveTab('preview')}
-                      className={`py-4 px-6 text-sm font-medium ${activeTab === 'preview' ? 'border-indigo-500 text-indigo-600 border-b-2' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+                      onClick={() => setActiveTab('html')}
+                      className={`py-4 px-6 text-sm font-medium ${activeTab === 'html' ? 'border-indigo-500 text-indigo-600 border-b-2' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
                     >
-                      Preview
+                      HTML Template
                     </button>
+                    {currentTemplate?.id && (
+                      <button
+                        onClick={() => setActiveTab('history')}
+                        className={`py-4 px-6 text-sm font-medium ${activeTab === 'history' ? 'border-indigo-500 text-indigo-600 border-b-2' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+                      >
+                        History
+                      </button>
+                    )}
                   </nav>
                 </div>
                 
                 <div className="flex-1 overflow-auto p-4">
                   {activeTab === 'fields' && (
+                    <div className="h-full flex flex-col">
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          {fieldsView === 'builder' ? 'Form Fields' : 'Fields Definition (JSON)'}
+                        </label>
+                        <button
+                          onClick={() => setFieldsView(fieldsView === 'builder' ? 'json' : 'builder')}
+                          className="text-sm text-indigo-600 hover:text-indigo-900"
+                        >
+                          {fieldsView === 'builder' ? 'Edit as JSON' : 'Use form builder'}
+                        </button>
+                      </div>
+                      {fieldsView === 'builder' && parsedFields ? (
+                        <div className="flex-1 overflow-auto">
+                          <FieldBuilder
+                            fields={parsedFields}
+                            onChange={(fields) => setFieldEditor(JSON.stringify(fields, null, 2))}
+                            showStep={!hasNamedSteps}
+                          />
+                        </div>
+                      ) : (
+                        <textarea
+                          className="w-full flex-1 font-mono text-sm p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                          value={fieldEditor}
+                          onChange={(e) => setFieldEditor(e.target.value)}
+                          spellCheck={false}
+                        />
+                      )}
+                      {fieldsError && (
+                        <div className="mt-2 text-sm text-red-600">
+                          {fieldsError}{fieldsView === 'builder' && !parsedFields && '; fix the JSON to use the form builder'}
+                        </div>
+                      )}
+                      <div className="mt-2 text-xs text-gray-500">
+                        {fieldsView === 'builder' ? (
+                          <>Add, reorder and configure the form fields; the field ID is what placeholders in the template use. Arrange fields into named steps on the Form Steps tab.</>
+                        ) : (
+                          <>
+                            Define the form fields for this template in JSON format. Arrange them into named steps on the Form Steps tab.
+                            Types: {FIELD_TYPES.join(', ')}; select and radio fields need "options".
+                            For a repeatable section, add a field with "type": "group", its own "fields" list and optional "minItems", "maxItems" and "itemLabel".
+                            Add "visibleIf" to show a field only when a condition holds, e.g. {'"deposit == \\"yes\\""'}, or "compute" for a read-only value, e.g. "monthly_rent * months".
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  
+                  {activeTab === 'steps' && (
                     <div className="h-full">
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Fields Definition (JSON)
+                        Form Steps (JSON)
                       </label>
                       <textarea
                         className="w-full h-full font-mono text-sm p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
-                        value={fieldEditor}
-                        onChange={(e) => setFieldEditor(e.target.value)}
+                        value={stepsEditor}
+                        onChange={(e) => setStepsEditor(e.target.value)}
                         spellCheck={false}
                       />
+                      {stepsError && (
+                        <div className="mt-2 text-sm text-red-600">{stepsError}</div>
+                      )}
                       <div className="mt-2 text-xs text-gray-500">
-                        Define the form fields for this template in JSON format.
+                        List the steps of the form in order, e.g. {'[{ "id": "parties", "title": "Parties", "description": "Who is signing", "fields": ["landlord_name", "tenant_name"] }]'}.
+                        Every field must be on exactly one step; users review all answers before the document is generated.
+                        Leave the list empty to use the "step" number on each field instead.
                       </div>
                     </div>
                   )}
-                  
+
                   {activeTab === 'html' && (
-                    <div className="h-full">
+                    <div className="h-full flex flex-col">
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         HTML Template
                       </label>
-                      <textarea
-                        className="w-full h-full font-mono text-sm p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                      <TemplateCodeEditor
+                        className="flex-1 min-h-0"
                         value={htmlEditor}
-                        onChange={(e) => setHtmlEditor(e.target.value)}
-                        spellCheck={false}
+                        onChange={setHtmlEditor}
+                        suggestions={placeholderSuggestions}
                       />
+                      {templateError && (
+                        <div className="mt-2 text-sm text-red-600">
+                          Line {templateError.line}, column {templateError.column}: {templateError.message}
+                        </div>
+                      )}
+                      {placeholderError && (
+                        <div className="mt-2 text-sm text-red-600">{placeholderError}</div>
+                      )}
+                      {placeholderIssues?.unknown.some(placeholder => placeholder.legacy) && (
+                        <div className="mt-2 text-sm text-amber-700">
+                          No field matches {placeholderIssues.unknown.filter(placeholder => placeholder.legacy).map(({ name }) => `[${name}]`).join(', ')}; it is printed as written.
+                        </div>
+                      )}
+                      {placeholderIssues && placeholderIssues.unused.length > 0 && (
+                        <div className="mt-2 text-sm text-amber-700">
+                          Not used in the template: {placeholderIssues.unused.join(', ')}
+                        </div>
+                      )}
                       <div className="mt-2 text-xs text-gray-500">
-                        Use [field_id] for placeholders. For repeatable sections, wrap in &lt;!-- START group_id --&gt; and &lt;!-- END group_id --&gt;.
+                        Type {'{{'} to pick a field. Use {'{{ field_id }}'} for placeholders, with optional formatters such as {'{{ amount | inr }}'}, {'{{ amount | words }}'} or {'{{ start_date | date:"legal" }}'}.
+                        Use {'{{#if field_id}}...{{else}}...{{/if}}'} for optional clauses and {'{{#each group_id}}...{{/each}}'} for repeatable sections.
+                        The older [field_id] and &lt;!-- START group_id --&gt; syntax still works.
                       </div>
                     </div>
                   )}
                   
-                  {activeTab === 'preview' && (
-                    <div className="h-full">
-                      <div className="border border-gray-200 rounded-lg p-4 h-full overflow-auto">
-                        <div dangerouslySetInnerHTML={{ __html: htmlEditor }} />
-                      </div>
+
+                  {activeTab === 'history' && (
+                    <div className="space-y-6">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saved</th>
+                            <th className="px-3 py-2" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {versions.map(version => {
+                            const isLive = version.id === currentTemplate?.published_version_id;
+                            return (
+                              <tr key={version.id}>
+                                <td className="px-3 py-2 font-medium text-gray-900">v{version.version}</td>
+                                <td className="px-3 py-2">
+                                  {isLive ? (
+                                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Live</span>
+                                  ) : version.status === 'published' ? (
+                                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-700">Previously published</span>
+                                  ) : (
+                                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">Draft</span>
+                                  )}
+                                </td>
+                                <td className="px-3 py-2 text-gray-700">{version.note}</td>
+                                <td className="px-3 py-2 text-gray-500 whitespace-nowrap">
+                                  {new Date(version.created_at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                                </td>
+                                <td className="px-3 py-2 text-right whitespace-nowrap">
+                                  <button
+                                    onClick={() => handleLoadVersion(version)}
+                                    className="text-indigo-600 hover:text-indigo-900 mr-4"
+                                  >
+                                    Open in editor
+                                  </button>
+                                  {!isLive && canPublish && (
+                                    <button
+                                      onClick={() => handlePublishVersion(version)}
+                                      className="text-indigo-600 hover:text-indigo-900"
+                                    >
+                                      {version.status === 'published' ? 'Roll back' : 'Publish'}
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+
+                      {versions.length > 1 && (
+                        <div className="space-y-4">
+                          <div className="flex items-center gap-2 text-sm text-gray-700">
+                            <span>Compare</span>
+                            <select
+                              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                              value={compareFromId}
+                              onChange={(e) => setCompareFromId(e.target.value)}
+                            >
+                              {versions.map(version => (
+                                <option key={version.id} value={version.id}>v{version.version}</option>
+                              ))}
+                            </select>
+                            <span>with</span>
+                            <select
+                              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                              value={compareToId}
+                              onChange={(e) => setCompareToId(e.target.value)}
+                            >
+                              {versions.map(version => (
+                                <option key={version.id} value={version.id}>v{version.version}</option>
+                              ))}
+                            </select>
+                          </div>
+                          {compareFrom && compareTo && (
+                            <>
+                              <VersionDiff label="HTML Template" before={compareFrom.template_html} after={compareTo.template_html} />
+                              <VersionDiff label="Fields" before={fieldsJson(compareFrom.fields)} after={fieldsJson(compareTo.fields)} />
+                              <VersionDiff label="Form Steps" before={stepsJson(compareFrom.steps)} after={stepsJson(compareTo.steps)} />
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
               </div>
+
+              {/* Right pane - Live preview with sample answers */}
+              {activeTab !== 'history' && (
+                <div className="w-2/5 border-l border-gray-200 flex flex-col overflow-hidden">
+                  <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+                    <h4 className="text-sm font-medium text-gray-900">Preview</h4>
+                    <p className="text-xs text-gray-500">Rendered with sample answers</p>
+                  </div>
+                  <div className="flex-1 overflow-auto p-4">
+                    {previewHtml !== null ? (
+                      <div className="document-preview" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+                    ) : (
+                      <p className="text-sm text-gray-500">Fix the errors in the fields or template to see the preview.</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
             
-            <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+            <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end">
+              {saveError && <p className="mr-auto text-sm text-red-600">{saveError}</p>}
+              <input
+                type="text"
+                className="mr-3 w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="What changed? (optional)"
+                value={versionNote}
+                onChange={(e) => setVersionNote(e.target.value)}
+              />
               <button
                 onClick={() => setShowTemplateModal(false)}
                 className="mr-3 inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -398,12 +841,24 @@ const DocumentTemplatesAdmin = () => {
                 Cancel
               </button>
               <button
-                onClick={handleSaveTemplate}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                onClick={() => handleSaveTemplate(false)}
+                disabled={isSaving || !!editorError}
+                title={editorError ? 'Fix the errors before saving' : 'Save a new version without showing it to users'}
+                className="mr-3 inline-flex items-center px-4 py-2 border border-indigo-600 text-sm font-medium rounded-md text-indigo-600 bg-white hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
               >
-                <CheckIcon className="-ml-1 mr-2 h-5 w-5" />
-                Save Template
+                Save Draft
               </button>
+              {canPublish && (
+                <button
+                  onClick={() => handleSaveTemplate(true)}
+                  disabled={isSaving || !!editorError}
+                  title={editorError ? 'Fix the errors before saving' : undefined}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  <CheckIcon className="-ml-1 mr-2 h-5 w-5" />
+                  Save &amp; Publish
+                </button>
+              )}
             </div>
           </div>
         </div>
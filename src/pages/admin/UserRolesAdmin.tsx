@@ -0,0 +1,320 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../../lib/supabase';
+import { AppRole, grantableRoles, hasRoleAtLeast, invitableRoles, ROLE_LABELS } from '../../lib/roles';
+import { AdminInvitation, sendAdminInvitation } from '../../lib/adminInvites';
+import { useAuth } from '../../contexts/useAuth';
+import { EnvelopeIcon, MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface UserWithRole {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  role: AppRole;
+  created_at: string;
+  last_sign_in_at: string | null;
+}
+
+const ROLE_BADGES: Record<AppRole, string> = {
+  client: 'bg-gray-100 text-gray-700',
+  staff: 'bg-blue-100 text-blue-800',
+  admin: 'bg-indigo-100 text-indigo-800',
+  super_admin: 'bg-purple-100 text-purple-800'
+};
+
+const UserRolesAdmin = () => {
+  const { user, role: myRole } = useAuth();
+  const [users, setUsers] = useState<UserWithRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<AdminInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('staff');
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteNotice, setInviteNotice] = useState<string | null>(null);
+  const grantable = grantableRoles(myRole);
+  const invitable = invitableRoles(myRole);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      setIsLoading(true);
+      try {
+        const [usersResult, invitationsResult] = await Promise.all([
+          supabase.rpc('list_users_with_roles'),
+          supabase
+            .from('admin_invitations')
+            .select('id, email, role, invited_by, expires_at, accepted_at, accepted_by, created_at')
+            .is('accepted_at', null)
+            .order('created_at', { ascending: false })
+        ]);
+
+        if (usersResult.error) throw usersResult.error;
+        if (invitationsResult.error) throw invitationsResult.error;
+        setUsers((usersResult.data || []) as UserWithRole[]);
+        setInvitations((invitationsResult.data || []) as AdminInvitation[]);
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        setError('Failed to load users. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, []);
+
+  const filteredUsers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return users;
+    return users.filter(entry =>
+      entry.email.toLowerCase().includes(query) || (entry.full_name ?? '').toLowerCase().includes(query)
+    );
+  }, [users, search]);
+
+  // Admins manage clients and staff; super admins manage everyone but themselves
+  const canManage = (entry: UserWithRole) =>
+    entry.user_id !== user?.id && grantable.includes(entry.role);
+
+  // Clients have no row, so making someone a client revokes their role
+  const handleChangeRole = async (entry: UserWithRole, role: AppRole) => {
+    if (role === entry.role) return;
+    if (hasRoleAtLeast(role, 'admin') && !window.confirm(`Make ${entry.email} ${ROLE_LABELS[role].toLowerCase()}?`)) {
+      return;
+    }
+
+    setSavingUserId(entry.user_id);
+    setError(null);
+    try {
+      const { error } = role === 'client'
+        ? await supabase.from('user_roles').delete().eq('user_id', entry.user_id)
+        : await supabase.from('user_roles').upsert({ user_id: entry.user_id, role, granted_by: user?.id });
+
+      if (error) throw error;
+
+      setUsers(prev => prev.map(current => (current.user_id === entry.user_id ? { ...current, role } : current)));
+    } catch (error) {
+      console.error('Error changing role:', error);
+      setError(`Failed to change the role of ${entry.email}. Please try again.`);
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  // Sending again replaces the pending invitation for that address
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setError(null);
+    setInviteNotice(null);
+    try {
+      const invitation = await sendAdminInvitation(inviteEmail.trim(), inviteRole);
+      setInvitations(prev => [invitation, ...prev.filter(current => current.email !== invitation.email)]);
+      setInviteNotice(`Invitation sent to ${invitation.email}.`);
+      setInviteEmail('');
+    } catch (error) {
+      console.error('Error sending invitation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send the invitation. Please try again.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: AdminInvitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    setError(null);
+    try {
+      const { error } = await supabase.from('admin_invitations').delete().eq('id', invitation.id);
+      if (error) throw error;
+      setInvitations(prev => prev.filter(current => current.id !== invitation.id));
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      setError(`Failed to revoke the invitation for ${invitation.email}. Please try again.`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">User Roles</h1>
+        <div className="relative w-72">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            className="block w-full pl-10 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="Search by name or email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border-l-4 border-red-500 rounded-r-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden mb-8">
+        <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Invite Staff</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            The invitation email links to a page where the recipient signs in and accepts the role. Links expire after seven days.
+          </p>
+        </div>
+        <form onSubmit={handleInvite} className="px-4 py-5 sm:px-6 flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[16rem]">
+            <label htmlFor="inviteEmail" className="block text-sm font-medium text-gray-700">Email</label>
+            <input
+              id="inviteEmail"
+              type="email"
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              placeholder="name@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="inviteRole" className="block text-sm font-medium text-gray-700">Role</label>
+            <select
+              id="inviteRole"
+              className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as AppRole)}
+            >
+              {invitable.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isInviting}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <EnvelopeIcon className="h-5 w-5 mr-2" />
+            {isInviting ? 'Sending...' : 'Send Invitation'}
+          </button>
+        </form>
+        {inviteNotice && <p className="px-4 sm:px-6 pb-4 text-sm text-green-700">{inviteNotice}</p>}
+        {invitations.length > 0 && (
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expires_at) < new Date();
+              return (
+                <li key={invitation.id} className="px-4 py-3 sm:px-6 flex items-center justify-between">
+                  <div>
+                    <span className="text-sm font-medium text-gray-900">{invitation.email}</span>
+                    <span className={`ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ROLE_BADGES[invitation.role]}`}>
+                      {ROLE_LABELS[invitation.role]}
+                    </span>
+                    <div className="text-sm text-gray-500">
+                      {expired
+                        ? 'Expired'
+                        : `Pending, expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRevokeInvitation(invitation)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Revoke invitation"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Manage Access</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Staff can edit templates and save drafts, admins can also publish templates and grant the staff role, and super admins can grant any role.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Joined
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last sign-in
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredUsers.map((entry) => (
+                <tr key={entry.user_id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {entry.full_name || entry.email}
+                      {entry.user_id === user?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    </div>
+                    {entry.full_name && <div className="text-sm text-gray-500">{entry.email}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(entry.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {entry.last_sign_in_at ? new Date(entry.last_sign_in_at).toLocaleDateString() : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {canManage(entry) ? (
+                      <select
+                        className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:opacity-50"
+                        value={entry.role}
+                        disabled={savingUserId === entry.user_id}
+                        onChange={(e) => handleChangeRole(entry, e.target.value as AppRole)}
+                      >
+                        {grantable.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ROLE_BADGES[entry.role]}`}>
+                        {ROLE_LABELS[entry.role]}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {filteredUsers.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                    No users match your search.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserRolesAdmin;
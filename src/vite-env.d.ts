@@ -1,5 +1 @@
 /// <reference types="vite/client" />
-
-interface Window {
-  __GEMINI_API_KEY?: string;
-}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { UpstreamError } from './providers.ts';
+
+// The knowledge base is embedded with one firm-wide model so documents and
+// queries share a vector space regardless of each user's chat provider.
+export const EMBEDDING_MODEL = 'text-embedding-004';
+export const EMBEDDING_DIMENSIONS = 768;
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const MAX_BATCH_SIZE = 100;
+
+export type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+export interface EmbeddingInput {
+  text: string;
+  title?: string;
+}
+
+// Hash-based stand-in used when AI_PROXY_STUB=true. Texts sharing words end up
+// close together, which is enough to exercise retrieval locally.
+const stubEmbedding = (text: string) => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(value => value / norm);
+};
+
+export const embedTexts = async (inputs: EmbeddingInput[], task: EmbeddingTask): Promise<number[][]> => {
+  if (Deno.env.get('AI_PROXY_STUB') === 'true') {
+    return inputs.map(input => stubEmbedding(input.text));
+  }
+
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) throw new UpstreamError('GEMINI_API_KEY is not configured for embeddings', 500);
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < inputs.length; i += MAX_BATCH_SIZE) {
+    const batch = inputs.slice(i, i + MAX_BATCH_SIZE);
+    const response = await fetch(
+      `${GEMINI_BASE_URL}/${EMBEDDING_MODEL}:batchEmbedContents?key=${encodeURIComponent(apiKey)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: batch.map(input => ({
+            model: `models/${EMBEDDING_MODEL}`,
+            content: { parts: [{ text: input.text }] },
+            taskType: task,
+            // Titles are only accepted for document embeddings
+            ...(task === 'RETRIEVAL_DOCUMENT' && input.title && { title: input.title })
+          }))
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new UpstreamError(data.error?.message || 'Embedding request failed', response.status);
+    }
+
+    const data: { embeddings: { values: number[] }[] } = await response.json();
+    embeddings.push(...data.embeddings.map(embedding => embedding.values));
+  }
+
+  return embeddings;
+};
@@ -0,0 +1,240 @@
+import { readEventStream } from './sse.ts';
+
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  tokensIn: number;
+  tokensOut: number;
+}
+
+export interface GenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+  // Called with the provider-reported token counts once they are known
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface UpstreamProvider {
+  model: string;
+  generate: (messages: ChatMessage[], options?: GenerateOptions) => Promise<string>;
+  stream: (messages: ChatMessage[], options?: GenerateOptions) => AsyncGenerator<string>;
+}
+
+export class UpstreamError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+  }
+}
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini'
+};
+
+const errorMessage = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return data.error?.message || fallback;
+};
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+const geminiText = (data: GeminiResponse) =>
+  data.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+
+const reportGeminiUsage = (data: GeminiResponse, options: GenerateOptions) => {
+  if (!data.usageMetadata) return;
+  options.onUsage?.({
+    tokensIn: data.usageMetadata.promptTokenCount ?? 0,
+    tokensOut: data.usageMetadata.candidatesTokenCount ?? 0
+  });
+};
+
+const createGeminiProvider = (apiKey: string, model: string): UpstreamProvider => {
+  const request = async (method: string, query: string, messages: ChatMessage[], options: GenerateOptions) => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const response = await fetch(`${GEMINI_BASE_URL}/${model}:${method}?${query}key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+        contents: messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        generationConfig: {
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+          ...(options.maxOutputTokens !== undefined && { maxOutputTokens: options.maxOutputTokens })
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new UpstreamError(await errorMessage(response, 'Gemini request failed'), response.status);
+    }
+    return response;
+  };
+
+  return {
+    model,
+
+    async generate(messages, options = {}) {
+      const response = await request('generateContent', '', messages, options);
+      const data: GeminiResponse = await response.json();
+      reportGeminiUsage(data, options);
+      return geminiText(data);
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request('streamGenerateContent', 'alt=sse&', messages, options);
+      for await (const data of readEventStream(response)) {
+        const chunk: GeminiResponse = JSON.parse(data);
+        // Every chunk carries running totals, so the last report wins
+        reportGeminiUsage(chunk, options);
+        const text = geminiText(chunk);
+        if (text) yield text;
+      }
+    }
+  };
+};
+
+interface ChatCompletionChunk {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+const reportOpenAIUsage = (data: ChatCompletionChunk, options: GenerateOptions) => {
+  if (!data.usage) return;
+  options.onUsage?.({
+    tokensIn: data.usage.prompt_tokens ?? 0,
+    tokensOut: data.usage.completion_tokens ?? 0
+  });
+};
+
+const createOpenAIProvider = (apiKey: string, model: string): UpstreamProvider => {
+  const request = async (messages: ChatMessage[], options: GenerateOptions, stream: boolean) => {
+    const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens })
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new UpstreamError(await errorMessage(response, 'OpenAI request failed'), response.status);
+    }
+    return response;
+  };
+
+  return {
+    model,
+
+    async generate(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: ChatCompletionChunk = await response.json();
+      reportOpenAIUsage(data, options);
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+      for await (const data of readEventStream(response)) {
+        if (data === '[DONE]') return;
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        reportOpenAIUsage(chunk, options);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  };
+};
+
+// Deterministic stand-in used when AI_PROXY_STUB=true, so the proxy can be
+// exercised with `supabase functions serve` without spending real quota.
+const createStubProvider = (): UpstreamProvider => {
+  const reply = (messages: ChatMessage[]) => {
+    const last = [...messages].reverse().find(m => m.role === 'user');
+    return `Stub reply to: ${last?.content ?? ''}`;
+  };
+
+  return {
+    model: 'stub',
+    generate: async messages => reply(messages),
+    async *stream(messages) {
+      for (const word of reply(messages).split(/(?<=\s)/)) {
+        yield word;
+      }
+    }
+  };
+};
+
+export const createUpstreamProvider = (
+  provider: ProviderId,
+  apiKey: string,
+  model?: string | null
+): UpstreamProvider => {
+  if (Deno.env.get('AI_PROXY_STUB') === 'true') return createStubProvider();
+
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider(apiKey, model || DEFAULT_MODELS.gemini);
+    case 'openai':
+      return createOpenAIProvider(apiKey, model || DEFAULT_MODELS.openai);
+    default:
+      throw new UpstreamError(`Unsupported provider: ${provider}`, 400);
+  }
+};
+
+// Checks a key against the provider before it is stored.
+export const validateProviderKey = async (provider: ProviderId, apiKey: string): Promise<string | null> => {
+  if (Deno.env.get('AI_PROXY_STUB') === 'true') return null;
+
+  if (provider === 'gemini') {
+    if (!apiKey.startsWith('AIza')) return 'Invalid API key format. Key should start with "AIza"';
+    const response = await fetch(`${GEMINI_BASE_URL}/${DEFAULT_MODELS.gemini}?key=${encodeURIComponent(apiKey)}`);
+    if (response.ok) return null;
+
+    const message = await errorMessage(response, 'Unknown error occurred');
+    if (message.includes('API key not valid')) {
+      return 'Invalid API key. Please make sure you copied the entire key correctly';
+    }
+    if (message.includes('API has not been enabled')) {
+      return 'The Gemini API is not enabled for this API key. Please enable it in your Google Cloud Console';
+    }
+    if (message.includes('billing')) {
+      return 'Please ensure billing is enabled for your Google Cloud project';
+    }
+    return message;
+  }
+
+  if (!apiKey.startsWith('sk-')) return 'Invalid API key format. Key should start with "sk-"';
+  const response = await fetch(`${OPENAI_BASE_URL}/models`, {
+    headers: { Authorization: `Bearer ${apiKey}` }
+  });
+  if (response.status === 401) {
+    return 'Invalid API key. Please make sure you copied the entire key correctly';
+  }
+  return response.ok ? null : await errorMessage(response, 'Failed to validate API key');
+};
@@ -0,0 +1,20 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2';
+
+export const createServiceClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+
+// Resolves the caller from the bearer token the browser client sends.
+export const getRequestUser = async (req: Request): Promise<User | null> => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false }
+  });
+
+  const { data: { user } } = await client.auth.getUser();
+  return user;
+};
@@ -0,0 +1,211 @@
+/*
+  Admin invitations
+
+  Sets up the first admin and invites further staff and admins by email.
+  Setting up the first admin needs the ADMIN_SETUP_TOKEN secret and only works
+  while there are no admins; without the secret the setup page stays closed.
+
+  Invitation emails are sent by Supabase Auth: the Invite template for new
+  addresses and the Magic Link template for existing users. Both link to the
+  accept page; since the app uses the PKCE flow the templates must pass the
+  token hash, e.g.
+    {{ .RedirectTo }}&token_hash={{ .TokenHash }}&type=invite    (Invite)
+    {{ .RedirectTo }}&token_hash={{ .TokenHash }}&type=magiclink (Magic Link)
+
+  Actions (POST JSON body, signed in):
+    - { action: 'bootstrap', setupToken }
+    - { action: 'invite', email, role, redirectTo }
+    - { action: 'accept', token }
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createServiceClient, getRequestUser } from '../_shared/supabase.ts';
+
+// Matches the app_role enum, lowest first
+const ROLES = ['client', 'staff', 'admin', 'super_admin'];
+const INVITE_ROLES = ['staff', 'admin', 'super_admin'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface BootstrapRequest {
+  setupToken?: string;
+}
+
+interface InviteRequest {
+  email?: string;
+  role?: string;
+  redirectTo?: string;
+}
+
+interface AcceptRequest {
+  token?: string;
+}
+
+const supabase = createServiceClient();
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Compares hashes so the time taken says nothing about the token
+const tokensMatch = async (given: string, expected: string) => {
+  const [a, b] = await Promise.all([sha256(given), sha256(expected)]);
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+};
+
+const rank = (role: string) => ROLES.indexOf(role);
+
+const getRole = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle<{ role: string }>();
+
+  if (error) throw error;
+  return data?.role ?? 'client';
+};
+
+const handleBootstrap = async (userId: string, body: BootstrapRequest) => {
+  const setupToken = Deno.env.get('ADMIN_SETUP_TOKEN');
+  if (!setupToken) {
+    return jsonResponse({ error: 'Admin setup is not enabled' }, 403);
+  }
+  if (!body.setupToken || !(await tokensMatch(body.setupToken, setupToken))) {
+    return jsonResponse({ error: 'Invalid setup token' }, 403);
+  }
+
+  const { data: claimed, error } = await supabase.rpc('claim_first_admin', { p_user_id: userId });
+  if (error) throw error;
+  if (!claimed) {
+    return jsonResponse({ error: 'Admin setup has already been completed' }, 409);
+  }
+
+  return jsonResponse({ role: 'super_admin' });
+};
+
+const handleInvite = async (userId: string, body: InviteRequest) => {
+  const email = body.email?.trim().toLowerCase() ?? '';
+  const role = body.role ?? '';
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return jsonResponse({ error: 'A valid email is required' }, 400);
+  }
+  if (!INVITE_ROLES.includes(role)) {
+    return jsonResponse({ error: 'Unknown role' }, 400);
+  }
+  if (!body.redirectTo) {
+    return jsonResponse({ error: 'redirectTo is required' }, 400);
+  }
+
+  // Admins invite staff; super admins invite any role
+  const inviterRole = await getRole(userId);
+  const canInvite = inviterRole === 'super_admin' || (inviterRole === 'admin' && rank(role) < rank('admin'));
+  if (!canInvite) {
+    return jsonResponse({ error: 'You cannot invite users with this role' }, 403);
+  }
+
+  const token = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, '');
+
+  const { error: deleteError } = await supabase
+    .from('admin_invitations')
+    .delete()
+    .eq('email', email)
+    .is('accepted_at', null);
+  if (deleteError) throw deleteError;
+
+  const { data: invitation, error: insertError } = await supabase
+    .from('admin_invitations')
+    .insert({ email, role, token_hash: await sha256(token), invited_by: userId })
+    .select('id, email, role, invited_by, expires_at, accepted_at, accepted_by, created_at')
+    .single();
+  if (insertError) throw insertError;
+
+  const redirectTo = `${body.redirectTo}?token=${token}`;
+  const { error: inviteError } = await supabase.auth.admin.inviteUserByEmail(email, { redirectTo });
+
+  // Existing users get a sign-in link instead
+  if (inviteError) {
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo, shouldCreateUser: false }
+    });
+
+    if (otpError) {
+      console.error('Failed to send invitation email:', inviteError, otpError);
+      await supabase.from('admin_invitations').delete().eq('id', invitation.id);
+      return jsonResponse({ error: 'Failed to send the invitation email' }, 502);
+    }
+  }
+
+  return jsonResponse({ invitation });
+};
+
+const handleAccept = async (userId: string, userEmail: string | undefined, body: AcceptRequest) => {
+  if (!body.token) {
+    return jsonResponse({ error: 'token is required' }, 400);
+  }
+
+  const { data: invitation, error } = await supabase
+    .from('admin_invitations')
+    .select('id, email, role, invited_by, expires_at')
+    .eq('token_hash', await sha256(body.token))
+    .is('accepted_at', null)
+    .maybeSingle<{ id: string; email: string; role: string; invited_by: string | null; expires_at: string }>();
+
+  if (error) throw error;
+  if (!invitation || new Date(invitation.expires_at) < new Date()) {
+    return jsonResponse({ error: 'This invitation is invalid or has expired' }, 404);
+  }
+  if (invitation.email.toLowerCase() !== userEmail?.toLowerCase()) {
+    return jsonResponse({ error: `This invitation was sent to ${invitation.email}` }, 403);
+  }
+
+  // Accepting never lowers a role the user already holds
+  const currentRole = await getRole(userId);
+  const role = rank(currentRole) > rank(invitation.role) ? currentRole : invitation.role;
+
+  if (role !== currentRole) {
+    const { error: roleError } = await supabase
+      .from('user_roles')
+      .upsert({ user_id: userId, role, granted_by: invitation.invited_by });
+    if (roleError) throw roleError;
+  }
+
+  const { error: acceptError } = await supabase
+    .from('admin_invitations')
+    .update({ accepted_at: new Date().toISOString(), accepted_by: userId })
+    .eq('id', invitation.id);
+  if (acceptError) throw acceptError;
+
+  return jsonResponse({ role });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const body = await req.json();
+
+    switch (body.action) {
+      case 'bootstrap':
+        return await handleBootstrap(user.id, body);
+      case 'invite':
+        return await handleInvite(user.id, body);
+      case 'accept':
+        return await handleAccept(user.id, user.email, body);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('admin-invite error:', error);
+    return jsonResponse({ error: 'Request failed' }, 500);
+  }
+});
@@ -0,0 +1,255 @@
+/*
+  AI proxy
+
+  Forwards chat prompts to the user's configured model provider so API keys
+  never leave the server, and enforces the user's plan quotas. Every generate
+  and retrieve call is recorded in the `ai_requests` ledger with its token
+  usage. Keys are stored encrypted (see set_api_key / get_decrypted_api_key).
+
+  Actions (POST JSON body):
+    - { action: 'generate', messages, options?, stream?, feature? }
+    - { action: 'retrieve', query, limit? }  knowledge base passages for a question
+    - { action: 'save-key', provider, apiKey?, model?, baseUrl? }
+    - { action: 'delete-key' }
+
+  Local testing without a real model:
+    AI_PROXY_STUB=true supabase functions serve ai-proxy
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { EMBEDDING_MODEL, embedTexts } from '../_shared/embeddings.ts';
+import { encodeEvent } from '../_shared/sse.ts';
+import { createServiceClient, getRequestUser } from '../_shared/supabase.ts';
+import {
+  ChatMessage,
+  createUpstreamProvider,
+  GenerateOptions,
+  ProviderId,
+  TokenUsage,
+  UpstreamError,
+  validateProviderKey
+} from '../_shared/providers.ts';
+
+const PROVIDERS = ['gemini', 'openai', 'local'];
+const MAX_RETRIEVED_PASSAGES = 8;
+
+interface GenerateRequest {
+  messages: ChatMessage[];
+  options?: Omit<GenerateOptions, 'signal' | 'onUsage'>;
+  stream?: boolean;
+  feature?: string;
+}
+
+interface RetrieveRequest {
+  query: string;
+  limit?: number;
+}
+
+interface SaveKeyRequest {
+  provider: ProviderId | 'local';
+  apiKey?: string;
+  model?: string | null;
+  baseUrl?: string | null;
+}
+
+const supabase = createServiceClient();
+
+// Rough fallback when a provider does not report usage (e.g. a stream aborted
+// before the final chunk)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const recordUsage = async (
+  requestId: string,
+  status: 'completed' | 'stopped' | 'failed',
+  usage: TokenUsage
+) => {
+  const { error } = await supabase
+    .from('ai_requests')
+    .update({ status, tokens_in: usage.tokensIn, tokens_out: usage.tokensOut })
+    .eq('id', requestId);
+  if (error) console.error('Failed to record AI usage:', error);
+};
+
+const handleGenerate = async (req: Request, userId: string, body: GenerateRequest) => {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return jsonResponse({ error: 'messages are required' }, 400);
+  }
+
+  const { data: settings, error: settingsError } = await supabase
+    .rpc('get_decrypted_api_key', { p_user_id: userId })
+    .maybeSingle<{ provider: ProviderId | 'local'; api_key: string; model: string | null }>();
+
+  if (settingsError) throw settingsError;
+  if (!settings || settings.provider === 'local') {
+    return jsonResponse({ error: 'No server-side AI provider configured' }, 400);
+  }
+
+  const provider = createUpstreamProvider(settings.provider, settings.api_key, settings.model);
+
+  // Checks the plan quotas and records a pending ledger row atomically
+  const { data: reservation, error: reserveError } = await supabase
+    .rpc('reserve_ai_request', {
+      p_user_id: userId,
+      p_feature: body.feature ?? 'chat',
+      p_provider: settings.provider,
+      p_model: provider.model
+    })
+    .single<{ request_id: string | null; error: string | null }>();
+
+  if (reserveError) throw reserveError;
+  if (!reservation.request_id) {
+    return jsonResponse({ error: reservation.error ?? 'AI usage limit reached' }, 429);
+  }
+  const requestId = reservation.request_id;
+
+  let reportedUsage: TokenUsage | null = null;
+  const options: GenerateOptions = {
+    ...body.options,
+    signal: req.signal,
+    onUsage: (usage) => { reportedUsage = usage; }
+  };
+  const promptText = body.messages.map(message => message.content).join('\n');
+  const usageFor = (output: string): TokenUsage =>
+    reportedUsage ?? { tokensIn: estimateTokens(promptText), tokensOut: estimateTokens(output) };
+
+  if (!body.stream) {
+    try {
+      const text = await provider.generate(body.messages, options);
+      await recordUsage(requestId, 'completed', usageFor(text));
+      return jsonResponse({ text });
+    } catch (error) {
+      await recordUsage(requestId, 'failed', usageFor(''));
+      throw error;
+    }
+  }
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let output = '';
+      let status: 'completed' | 'stopped' | 'failed' = 'completed';
+      try {
+        for await (const text of provider.stream(body.messages, options)) {
+          output += text;
+          controller.enqueue(encodeEvent({ text }));
+        }
+        controller.enqueue(encodeEvent('[DONE]'));
+      } catch (error) {
+        if (req.signal.aborted) {
+          status = 'stopped';
+        } else {
+          status = 'failed';
+          controller.enqueue(encodeEvent({ error: error instanceof Error ? error.message : 'Stream failed' }));
+        }
+      } finally {
+        await recordUsage(requestId, status, usageFor(output));
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  });
+};
+
+// Counts against the same plan quotas as chat; the query is embedded with the
+// firm-wide Gemini key
+const handleRetrieve = async (userId: string, body: RetrieveRequest) => {
+  const query = body.query?.trim();
+  if (!query) return jsonResponse({ error: 'query is required' }, 400);
+
+  const { data: reservation, error: reserveError } = await supabase
+    .rpc('reserve_ai_request', {
+      p_user_id: userId,
+      p_feature: 'retrieve',
+      p_provider: 'gemini',
+      p_model: EMBEDDING_MODEL
+    })
+    .single<{ request_id: string | null; error: string | null }>();
+
+  if (reserveError) throw reserveError;
+  if (!reservation.request_id) {
+    return jsonResponse({ error: reservation.error ?? 'AI usage limit reached' }, 429);
+  }
+  const requestId = reservation.request_id;
+  const usage: TokenUsage = { tokensIn: estimateTokens(query), tokensOut: 0 };
+
+  try {
+    const [embedding] = await embedTexts([{ text: query }], 'RETRIEVAL_QUERY');
+    const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+      query_embedding: JSON.stringify(embedding),
+      match_count: Math.min(body.limit ?? 4, MAX_RETRIEVED_PASSAGES)
+    });
+
+    if (error) throw error;
+    await recordUsage(requestId, 'completed', usage);
+    return jsonResponse({ passages: data ?? [] });
+  } catch (error) {
+    await recordUsage(requestId, 'failed', usage);
+    throw error;
+  }
+};
+
+const handleSaveKey = async (userId: string, body: SaveKeyRequest) => {
+  if (!PROVIDERS.includes(body.provider)) {
+    return jsonResponse({ error: 'Unknown provider' }, 400);
+  }
+
+  const apiKey = body.apiKey?.trim() ?? '';
+  if (body.provider !== 'local') {
+    if (!apiKey) return jsonResponse({ error: 'Please enter a valid API key' }, 400);
+    const validationError = await validateProviderKey(body.provider, apiKey);
+    if (validationError) return jsonResponse({ error: validationError }, 400);
+  }
+
+  // Encrypted in the database by set_api_key; only the last four characters
+  // are ever returned to the browser
+  const { error } = await supabase.rpc('set_api_key', {
+    p_user_id: userId,
+    p_provider: body.provider,
+    p_api_key: body.provider === 'local' ? null : apiKey,
+    p_model: body.model?.trim() || null,
+    p_base_url: body.provider === 'local' ? body.baseUrl?.trim() || null : null
+  });
+
+  if (error) throw error;
+  return jsonResponse({ ok: true, last4: body.provider === 'local' ? null : apiKey.slice(-4) });
+};
+
+const handleDeleteKey = async (userId: string) => {
+  const { error } = await supabase.from('api_keys').delete().eq('user_id', userId);
+  if (error) throw error;
+  return jsonResponse({ ok: true });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const body = await req.json();
+
+    switch (body.action) {
+      case 'generate':
+        return await handleGenerate(req, user.id, body);
+      case 'retrieve':
+        return await handleRetrieve(user.id, body);
+      case 'save-key':
+        return await handleSaveKey(user.id, body);
+      case 'delete-key':
+        return await handleDeleteKey(user.id);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('ai-proxy error:', error);
+    if (error instanceof UpstreamError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    return jsonResponse({ error: 'AI request failed' }, 500);
+  }
+});
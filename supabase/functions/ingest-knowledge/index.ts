@@ -0,0 +1,175 @@
+/*
+  Knowledge ingestion
+
+  Chunks a markdown source from the knowledge corpus, embeds every chunk and
+  replaces the stored chunks for that source. Called by
+  scripts/ingest-knowledge.mjs with the service role key; unchanged sources
+  (same checksum over the content and metadata) are skipped.
+
+  Request (POST JSON body):
+    { source: { key, title, type?, reference?, url? }, content }
+*/
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { embedTexts } from '../_shared/embeddings.ts';
+import { UpstreamError } from '../_shared/providers.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+const MAX_CHUNK_CHARS = 1800;
+
+interface IngestRequest {
+  source: {
+    key: string;
+    title: string;
+    type?: string;
+    reference?: string;
+    url?: string;
+  };
+  content: string;
+}
+
+interface Chunk {
+  heading: string | null;
+  content: string;
+}
+
+const supabase = createServiceClient();
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Splits markdown at headings so each chunk stays within one section, then
+// packs paragraphs of long sections into chunks of at most MAX_CHUNK_CHARS.
+const chunkMarkdown = (markdown: string): Chunk[] => {
+  const chunks: Chunk[] = [];
+  const headings: string[] = [];
+  let paragraphs: string[] = [];
+
+  const flushSection = () => {
+    const heading = headings.filter(Boolean).join(' › ') || null;
+    let current = '';
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+        chunks.push({ heading, content: current });
+        current = '';
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) chunks.push({ heading, content: current });
+    paragraphs = [];
+  };
+
+  for (const block of markdown.split(/\n\s*\n/)) {
+    const text = block.trim();
+    if (!text) continue;
+
+    const heading = text.match(/^(#{1,6})\s+(.+)$/m);
+    if (heading && heading.index === 0) {
+      flushSection();
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = heading[2].trim();
+      const rest = text.slice(heading[0].length).trim();
+      if (rest) paragraphs.push(rest);
+    } else {
+      paragraphs.push(text);
+    }
+  }
+  flushSection();
+
+  return chunks;
+};
+
+const ingestSource = async ({ source, content }: IngestRequest) => {
+  if (!source?.key || !source.title || !content?.trim()) {
+    return jsonResponse({ error: 'source.key, source.title and content are required' }, 400);
+  }
+
+  // Covers the metadata too, so a corrected title or URL is stored again
+  const checksum = await sha256(JSON.stringify({
+    title: source.title,
+    type: source.type ?? 'act',
+    reference: source.reference ?? null,
+    url: source.url ?? null,
+    content
+  }));
+
+  const { data: existing, error: existingError } = await supabase
+    .from('knowledge_sources')
+    .select('id, checksum')
+    .eq('source_key', source.key)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing?.checksum === checksum) {
+    return jsonResponse({ skipped: true, chunks: 0 });
+  }
+
+  const chunks = chunkMarkdown(content);
+  const embeddings = await embedTexts(
+    chunks.map(chunk => ({
+      text: chunk.heading ? `${chunk.heading}\n\n${chunk.content}` : chunk.content,
+      title: source.title
+    })),
+    'RETRIEVAL_DOCUMENT'
+  );
+
+  const { data: saved, error: sourceError } = await supabase
+    .from('knowledge_sources')
+    .upsert({
+      source_key: source.key,
+      title: source.title,
+      source_type: source.type ?? 'act',
+      reference: source.reference ?? null,
+      url: source.url ?? null,
+      checksum,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'source_key' })
+    .select('id')
+    .single();
+
+  if (sourceError) throw sourceError;
+
+  const { error: deleteError } = await supabase
+    .from('knowledge_chunks')
+    .delete()
+    .eq('source_id', saved.id);
+
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabase.from('knowledge_chunks').insert(
+    chunks.map((chunk, index) => ({
+      source_id: saved.id,
+      chunk_index: index,
+      heading: chunk.heading,
+      content: chunk.content,
+      embedding: JSON.stringify(embeddings[index])
+    }))
+  );
+
+  if (insertError) throw insertError;
+  return jsonResponse({ skipped: false, chunks: chunks.length });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Ingestion rewrites the shared corpus, so only the service role may call it
+  if (req.headers.get('Authorization') !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+    return jsonResponse({ error: 'Not authorised' }, 401);
+  }
+
+  try {
+    return await ingestSource(await req.json());
+  } catch (error) {
+    console.error('ingest-knowledge error:', error);
+    if (error instanceof UpstreamError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    return jsonResponse({ error: 'Ingestion failed' }, 500);
+  }
+});
@@ -0,0 +1,29 @@
+/*
+  # Per-user LLM provider selection
+
+  1. Changes
+    - `api_keys`
+      - `provider` (text, one of gemini/openai/local, defaults to gemini)
+      - `openai_key` (text, optional)
+      - `model` (text, optional model override)
+      - `base_url` (text, optional endpoint for local OpenAI-compatible servers)
+      - `gemini_key` is now optional, since OpenAI and local users do not need one
+
+  2. Security
+    - Also lets users delete their own row, which ApiKeySetup already relies on
+*/
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS provider text NOT NULL DEFAULT 'gemini'
+    CHECK (provider IN ('gemini', 'openai', 'local')),
+  ADD COLUMN IF NOT EXISTS openai_key text,
+  ADD COLUMN IF NOT EXISTS model text,
+  ADD COLUMN IF NOT EXISTS base_url text;
+
+ALTER TABLE api_keys ALTER COLUMN gemini_key DROP NOT NULL;
+
+CREATE POLICY "Users can delete own API key"
+  ON api_keys
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,23 @@
+/*
+  # Conversation summaries for chat histories
+
+  1. Changes
+    - `chat_histories`
+      - `summary` (text, running summary of turns that no longer fit the model context)
+      - `summary_message_count` (integer, number of leading messages covered by `summary`)
+
+  2. Security
+    - Add policy for authenticated users to update their own chat histories,
+      so continued conversations are persisted
+*/
+
+ALTER TABLE chat_histories
+  ADD COLUMN IF NOT EXISTS summary text,
+  ADD COLUMN IF NOT EXISTS summary_message_count integer NOT NULL DEFAULT 0;
+
+CREATE POLICY "Users can update own chat histories"
+  ON chat_histories
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,44 @@
+/*
+  # Server-side AI proxy support
+
+  1. New Tables
+    - `ai_requests`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `feature` (text, e.g. chat / document)
+      - `provider` (text)
+      - `model` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `ai_requests`; users can read their own rows, only the
+      ai-proxy function (service role) writes them
+    - API key columns on `api_keys` are no longer readable or writable from the
+      browser; keys are saved and used exclusively through the ai-proxy function
+*/
+
+CREATE TABLE IF NOT EXISTS ai_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  feature text NOT NULL DEFAULT 'chat',
+  provider text NOT NULL,
+  model text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_requests_user_id_created_at_idx
+  ON ai_requests (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE ai_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own AI requests"
+  ON ai_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keys stay server-side: the browser may only see which provider is configured
+REVOKE ALL ON api_keys FROM anon, authenticated;
+GRANT SELECT (id, user_id, provider, model, base_url, created_at, updated_at)
+  ON api_keys TO authenticated;
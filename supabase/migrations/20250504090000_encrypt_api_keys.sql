@@ -0,0 +1,116 @@
+/*
+  # Encrypt stored API keys at rest
+
+  1. Changes
+    - `api_keys`
+      - `encrypted_key` (bytea, pgcrypto-encrypted key for the selected provider)
+      - `key_last4` (text, last four characters shown in ApiKeySetup)
+      - plaintext `gemini_key` and `openai_key` columns are encrypted into
+        `encrypted_key` and dropped
+
+  2. Functions
+    - `set_api_key` stores or rotates a user's key, encrypting it in the database
+    - `get_decrypted_api_key` returns the plaintext key for the ai-proxy function
+    Both are SECURITY DEFINER and only executable by the service role.
+
+  3. Security
+    - The symmetric key lives in Supabase Vault (`api_key_encryption_key`) and
+      is generated here if it does not exist yet
+    - Browsers can read `key_last4` but never the key itself
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'api_key_encryption_key') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'hex'),
+      'api_key_encryption_key',
+      'Symmetric key for api_keys.encrypted_key'
+    );
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION api_key_encryption_secret()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'api_key_encryption_key';
+$$;
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS encrypted_key bytea,
+  ADD COLUMN IF NOT EXISTS key_last4 text;
+
+-- Re-encrypt existing plaintext keys
+UPDATE api_keys
+SET
+  encrypted_key = extensions.pgp_sym_encrypt(
+    CASE provider WHEN 'openai' THEN openai_key ELSE gemini_key END,
+    api_key_encryption_secret()
+  ),
+  key_last4 = right(CASE provider WHEN 'openai' THEN openai_key ELSE gemini_key END, 4)
+WHERE CASE provider WHEN 'openai' THEN openai_key ELSE gemini_key END IS NOT NULL;
+
+ALTER TABLE api_keys
+  DROP COLUMN IF EXISTS gemini_key,
+  DROP COLUMN IF EXISTS openai_key;
+
+CREATE OR REPLACE FUNCTION set_api_key(
+  p_user_id uuid,
+  p_provider text,
+  p_api_key text,
+  p_model text DEFAULT NULL,
+  p_base_url text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO api_keys (user_id, provider, encrypted_key, key_last4, model, base_url)
+  VALUES (
+    p_user_id,
+    p_provider,
+    CASE WHEN p_api_key IS NULL OR p_api_key = '' THEN NULL
+         ELSE extensions.pgp_sym_encrypt(p_api_key, api_key_encryption_secret()) END,
+    CASE WHEN p_api_key IS NULL OR p_api_key = '' THEN NULL ELSE right(p_api_key, 4) END,
+    p_model,
+    p_base_url
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    provider = EXCLUDED.provider,
+    encrypted_key = EXCLUDED.encrypted_key,
+    key_last4 = EXCLUDED.key_last4,
+    model = EXCLUDED.model,
+    base_url = EXCLUDED.base_url;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_decrypted_api_key(p_user_id uuid)
+RETURNS TABLE (provider text, api_key text, model text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    provider,
+    extensions.pgp_sym_decrypt(encrypted_key, api_key_encryption_secret()),
+    model
+  FROM api_keys
+  WHERE user_id = p_user_id AND encrypted_key IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION api_key_encryption_secret() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION set_api_key(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_decrypted_api_key(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_api_key(uuid, text, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_decrypted_api_key(uuid) TO service_role;
+
+GRANT SELECT (key_last4) ON api_keys TO authenticated;
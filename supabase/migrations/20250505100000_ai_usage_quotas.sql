@@ -0,0 +1,195 @@
+/*
+  # AI usage ledger and plan quotas
+
+  1. New Tables
+    - `ai_plans`
+      - `id` (text, primary key, e.g. free / pro / firm)
+      - `name` (text)
+      - `daily_request_limit`, `monthly_request_limit` (integer, null = unlimited)
+      - `daily_token_limit`, `monthly_token_limit` (bigint, null = unlimited)
+    - `user_plans`
+      - `user_id` (uuid, primary key, foreign key to auth.users)
+      - `plan_id` (text, foreign key to ai_plans)
+      - `updated_at` (timestamp)
+      Users without a row are on the `free` plan.
+
+  2. Changes
+    - `ai_requests` becomes the usage ledger:
+      - `tokens_in`, `tokens_out` (integer, provider-reported token counts)
+      - `status` (text: pending / completed / stopped / failed)
+
+  3. Functions
+    - `reserve_ai_request` checks the user's plan quotas and records a pending
+      ledger row in one transaction; used by the ai-proxy function
+    - `get_ai_usage` / `get_my_ai_usage` return consumption against the plan
+      limits for the current day and month (Asia/Kolkata)
+
+  4. Security
+    - Plans are readable by signed-in users; users can read their own plan
+    - Ledger rows and plan assignments are only written by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS ai_plans (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  daily_request_limit integer,
+  monthly_request_limit integer,
+  daily_token_limit bigint,
+  monthly_token_limit bigint,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO ai_plans (id, name, daily_request_limit, monthly_request_limit, daily_token_limit, monthly_token_limit)
+VALUES
+  ('free', 'Free', 50, 500, 100000, 1000000),
+  ('pro', 'Professional', 500, 10000, 1000000, 20000000),
+  ('firm', 'Firm', NULL, NULL, NULL, NULL)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS user_plans (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id text REFERENCES ai_plans(id) NOT NULL DEFAULT 'free',
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_requests
+  ADD COLUMN IF NOT EXISTS tokens_in integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tokens_out integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('pending', 'completed', 'stopped', 'failed'));
+
+-- Enable Row Level Security
+ALTER TABLE ai_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read AI plans"
+  ON ai_plans
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read own plan"
+  ON user_plans
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_usage') THEN
+    CREATE TYPE ai_usage AS (
+      plan_id text,
+      plan_name text,
+      daily_requests integer,
+      daily_tokens bigint,
+      monthly_requests integer,
+      monthly_tokens bigint,
+      daily_request_limit integer,
+      monthly_request_limit integer,
+      daily_token_limit bigint,
+      monthly_token_limit bigint,
+      daily_resets_at timestamptz,
+      monthly_resets_at timestamptz
+    );
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_ai_usage(p_user_id uuid)
+RETURNS ai_usage
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      date_trunc('day', now() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata' AS day_start,
+      date_trunc('month', now() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata' AS month_start
+  ),
+  plan AS (
+    SELECT p.*
+    FROM ai_plans p
+    WHERE p.id = COALESCE((SELECT up.plan_id FROM user_plans up WHERE up.user_id = p_user_id), 'free')
+  ),
+  consumed AS (
+    SELECT
+      count(r.id) FILTER (WHERE r.created_at >= b.day_start)::integer AS daily_requests,
+      COALESCE(sum(r.tokens_in + r.tokens_out) FILTER (WHERE r.created_at >= b.day_start), 0)::bigint AS daily_tokens,
+      count(r.id)::integer AS monthly_requests,
+      COALESCE(sum(r.tokens_in + r.tokens_out), 0)::bigint AS monthly_tokens
+    FROM bounds b
+    LEFT JOIN ai_requests r
+      ON r.user_id = p_user_id AND r.created_at >= b.month_start
+  )
+  SELECT
+    plan.id,
+    plan.name,
+    consumed.daily_requests,
+    consumed.daily_tokens,
+    consumed.monthly_requests,
+    consumed.monthly_tokens,
+    plan.daily_request_limit,
+    plan.monthly_request_limit,
+    plan.daily_token_limit,
+    plan.monthly_token_limit,
+    bounds.day_start + interval '1 day',
+    bounds.month_start + interval '1 month'
+  FROM plan, consumed, bounds;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_ai_usage()
+RETURNS ai_usage
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT get_ai_usage(auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION reserve_ai_request(
+  p_user_id uuid,
+  p_feature text,
+  p_provider text,
+  p_model text
+)
+RETURNS TABLE (request_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_usage ai_usage;
+  new_id uuid;
+BEGIN
+  -- Serialise reservations per user so concurrent requests cannot both slip
+  -- under the limit
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  current_usage := get_ai_usage(p_user_id);
+
+  IF current_usage.daily_request_limit IS NOT NULL AND current_usage.daily_requests >= current_usage.daily_request_limit
+    OR current_usage.daily_token_limit IS NOT NULL AND current_usage.daily_tokens >= current_usage.daily_token_limit THEN
+    RETURN QUERY SELECT NULL::uuid, 'Daily AI usage limit reached for your plan. It resets at midnight IST.'::text;
+    RETURN;
+  END IF;
+
+  IF current_usage.monthly_request_limit IS NOT NULL AND current_usage.monthly_requests >= current_usage.monthly_request_limit
+    OR current_usage.monthly_token_limit IS NOT NULL AND current_usage.monthly_tokens >= current_usage.monthly_token_limit THEN
+    RETURN QUERY SELECT NULL::uuid, 'Monthly AI usage limit reached for your plan.'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO ai_requests (user_id, feature, provider, model, status)
+  VALUES (p_user_id, p_feature, p_provider, p_model, 'pending')
+  RETURNING id INTO new_id;
+
+  RETURN QUERY SELECT new_id, NULL::text;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_ai_usage(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_ai_request(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_ai_usage(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION reserve_ai_request(uuid, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_my_ai_usage() TO authenticated;
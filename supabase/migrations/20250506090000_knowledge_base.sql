@@ -0,0 +1,110 @@
+/*
+  # Knowledge base for retrieval-augmented answers
+
+  1. New Tables
+    - `knowledge_sources`
+      - `id` (uuid, primary key)
+      - `source_key` (text, unique; corpus file path, used for re-ingestion)
+      - `title` (text, e.g. "Central Goods and Services Tax Act, 2017")
+      - `source_type` (text: act / rules / circular / notification / firm_note)
+      - `reference` (text, short citation such as "CGST Act")
+      - `url` (text, link to the official source)
+      - `checksum` (text, hash of the ingested content)
+      - `created_at`, `updated_at` (timestamp)
+    - `knowledge_chunks`
+      - `id` (uuid, primary key)
+      - `source_id` (uuid, foreign key to knowledge_sources)
+      - `chunk_index` (integer, order within the source)
+      - `heading` (text, section heading the chunk belongs to)
+      - `content` (text)
+      - `embedding` (vector(768), Gemini text-embedding-004)
+
+  2. Functions
+    - `match_knowledge_chunks` returns the chunks closest to a query embedding
+      together with their source details
+
+  3. Security
+    - Enable RLS; signed-in users can read the knowledge base
+    - Sources and chunks are only written by the ingest-knowledge function
+      (service role)
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS knowledge_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_key text UNIQUE NOT NULL,
+  title text NOT NULL,
+  source_type text NOT NULL DEFAULT 'act'
+    CHECK (source_type IN ('act', 'rules', 'circular', 'notification', 'firm_note')),
+  reference text,
+  url text,
+  checksum text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id uuid REFERENCES knowledge_sources(id) ON DELETE CASCADE NOT NULL,
+  chunk_index integer NOT NULL,
+  heading text,
+  content text NOT NULL,
+  embedding extensions.vector(768) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (source_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS knowledge_chunks_embedding_idx
+  ON knowledge_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Enable Row Level Security
+ALTER TABLE knowledge_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read knowledge sources"
+  ON knowledge_sources
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read knowledge chunks"
+  ON knowledge_chunks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION match_knowledge_chunks(
+  query_embedding extensions.vector(768),
+  match_count integer DEFAULT 5,
+  min_similarity double precision DEFAULT 0.5
+)
+RETURNS TABLE (
+  id uuid,
+  heading text,
+  content text,
+  similarity double precision,
+  source_title text,
+  source_type text,
+  source_reference text,
+  source_url text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.heading,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity,
+    s.title,
+    s.source_type,
+    s.reference,
+    s.url
+  FROM knowledge_chunks c
+  JOIN knowledge_sources s ON s.id = c.source_id
+  WHERE 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,163 @@
+/*
+  # Document templates, categories and admin profiles
+
+  1. New Tables
+    Created when missing; where they were set up before migrations, any
+    columns they lack are added.
+    - `document_categories`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `description` (text, optional)
+      - `icon` (text, optional icon name)
+      - `created_at` (timestamp)
+    - `document_templates`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `description` (text, optional)
+      - `category_id` (uuid, foreign key to document_categories)
+      - `template_html` (text, the document with {{ }} placeholders)
+      - `fields` (jsonb, the form fields that fill the placeholders)
+      - `keywords` (text[], phrases that suggest the template in chat)
+      - `preview_image` (text, optional image URL)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `profiles`
+      - `is_admin` (boolean, default false)
+      - `username` (text, unique, optional)
+      - `email` (text, optional)
+
+  3. Security
+    - Enable RLS on `document_categories` and `document_templates`
+    - Everyone can read categories and templates; only admins can add,
+      change or remove them
+    - Users can create their own profile
+    - Only admins can change `is_admin`, except that the first admin can be
+      set up while there is none
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS username text UNIQUE,
+  ADD COLUMN IF NOT EXISTS email text;
+
+CREATE TABLE IF NOT EXISTS document_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  description text,
+  icon text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS document_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  category_id uuid REFERENCES document_categories(id) ON DELETE SET NULL,
+  template_html text NOT NULL,
+  fields jsonb NOT NULL DEFAULT '[]'::jsonb,
+  keywords text[] NOT NULL DEFAULT '{}',
+  preview_image text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Tables set up before migrations may lack these columns
+ALTER TABLE document_categories
+  ADD COLUMN IF NOT EXISTS description text,
+  ADD COLUMN IF NOT EXISTS icon text;
+
+ALTER TABLE document_templates
+  ADD COLUMN IF NOT EXISTS description text,
+  ADD COLUMN IF NOT EXISTS fields jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS keywords text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS preview_image text;
+
+CREATE INDEX IF NOT EXISTS document_templates_category_id_idx
+  ON document_templates (category_id);
+
+DROP TRIGGER IF EXISTS update_document_templates_updated_at ON document_templates;
+CREATE TRIGGER update_document_templates_updated_at
+  BEFORE UPDATE ON document_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Profiles are written by their owners, so the admin flag is checked here
+-- rather than in a policy. Migrations and the service role have no auth.uid().
+CREATE OR REPLACE FUNCTION protect_profile_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.is_admin)
+    OR (TG_OP = 'UPDATE' AND NEW.is_admin IS DISTINCT FROM OLD.is_admin) THEN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin)
+      AND EXISTS (SELECT 1 FROM profiles WHERE profiles.is_admin) THEN
+      RAISE EXCEPTION 'Only admins can change admin access';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profiles_admin_flag ON profiles;
+CREATE TRIGGER protect_profiles_admin_flag
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_admin_flag();
+
+ALTER TABLE document_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can create own profile" ON profiles;
+CREATE POLICY "Users can create own profile"
+  ON profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Anyone can read document categories" ON document_categories;
+CREATE POLICY "Anyone can read document categories"
+  ON document_categories
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage document categories" ON document_categories;
+CREATE POLICY "Admins can manage document categories"
+  ON document_categories
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
+
+DROP POLICY IF EXISTS "Anyone can read document templates" ON document_templates;
+CREATE POLICY "Anyone can read document templates"
+  ON document_templates
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can create document templates" ON document_templates;
+CREATE POLICY "Admins can create document templates"
+  ON document_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
+
+DROP POLICY IF EXISTS "Admins can update document templates" ON document_templates;
+CREATE POLICY "Admins can update document templates"
+  ON document_templates
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
+
+DROP POLICY IF EXISTS "Admins can delete document templates" ON document_templates;
+CREATE POLICY "Admins can delete document templates"
+  ON document_templates
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
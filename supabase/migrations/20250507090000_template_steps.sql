@@ -0,0 +1,16 @@
+/*
+  # Named form steps for document templates
+
+  1. Changes
+    - `document_templates`
+      - `steps` (jsonb, ordered list of form steps, each with an `id`, a
+        `title`, an optional `description` and the ids of its `fields` in
+        the order they are asked). Templates without steps fall back to the
+        `step` number on each field.
+
+  2. Security
+    - No policy changes; steps are read and written with the template
+*/
+
+ALTER TABLE document_templates
+  ADD COLUMN IF NOT EXISTS steps jsonb;
@@ -0,0 +1,74 @@
+/*
+  # Document library
+
+  1. New Tables
+    - `user_documents`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `template_id` (uuid, foreign key to document_templates; null for
+        documents drafted in the assistant chat)
+      - `title` (text)
+      - `document_type` (text, e.g. "Rent Agreement"; for chat documents,
+        which have no template)
+      - `fields` (jsonb, the form fields of chat documents, whose forms are
+        suggested by the model rather than read from a template)
+      - `form_data` (jsonb, the answers given so far)
+      - `current_step` (text, id of the form step the user was on)
+      - `content_html` (text, the last generated document)
+      - `status` (text: draft / final)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS; users can read, create, update and delete only their own
+      documents
+*/
+
+CREATE TABLE IF NOT EXISTS user_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  template_id uuid REFERENCES document_templates(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  document_type text,
+  fields jsonb,
+  form_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  current_step text,
+  content_html text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'final')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS user_documents_user_id_updated_at_idx
+  ON user_documents (user_id, updated_at DESC);
+
+CREATE TRIGGER update_user_documents_updated_at
+  BEFORE UPDATE ON user_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE user_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own documents"
+  ON user_documents
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own documents"
+  ON user_documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own documents"
+  ON user_documents
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own documents"
+  ON user_documents
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,164 @@
+/*
+  # Template versions
+
+  1. New Tables
+    - `document_template_versions`
+      - `id` (uuid, primary key)
+      - `template_id` (uuid, foreign key to document_templates)
+      - `version` (integer, numbered from 1 per template when inserted)
+      - `template_html`, `fields`, `steps` (the template content, which
+        cannot be changed once saved)
+      - `note` (text, optional summary of the change)
+      - `status` (text: draft / published; published once the version has
+        been made live, even if a later version replaced it since)
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at`, `published_at` (timestamp)
+
+  2. Changes
+    - `document_templates`
+      - `published_version_id` (uuid, the live version; the template row
+        keeps a copy of its content so forms read it as before. Null for
+        templates that have never been published)
+    - `user_documents`
+      - `template_version_id` (uuid, the version the document was created
+        from, so it is edited and regenerated against that version)
+    - Existing templates get their current content as published version 1
+    - `publish_template_version(version_id)` makes a version live; rolling
+      back is publishing an older version again
+
+  3. Security
+    - Enable RLS on `document_template_versions`
+    - Signed-in users can read published versions; admins can read all
+      versions, add versions and publish them
+*/
+
+CREATE TABLE IF NOT EXISTS document_template_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid REFERENCES document_templates(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  template_html text NOT NULL,
+  fields jsonb NOT NULL DEFAULT '[]'::jsonb,
+  steps jsonb,
+  note text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  published_at timestamptz,
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE document_templates
+  ADD COLUMN IF NOT EXISTS published_version_id uuid REFERENCES document_template_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE user_documents
+  ADD COLUMN IF NOT EXISTS template_version_id uuid REFERENCES document_template_versions(id) ON DELETE SET NULL;
+
+-- Versions are numbered by the database so two editors saving at once
+-- cannot take the same number
+CREATE OR REPLACE FUNCTION number_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.template_id::text));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM document_template_versions
+  WHERE template_id = NEW.template_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER number_document_template_version
+  BEFORE INSERT ON document_template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION number_template_version();
+
+-- Only the publishing columns of a version may change
+CREATE OR REPLACE FUNCTION prevent_template_version_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.template_id IS DISTINCT FROM OLD.template_id
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.template_html IS DISTINCT FROM OLD.template_html
+    OR NEW.fields IS DISTINCT FROM OLD.fields
+    OR NEW.steps IS DISTINCT FROM OLD.steps
+    OR NEW.note IS DISTINCT FROM OLD.note THEN
+    RAISE EXCEPTION 'Template versions cannot be changed; save a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_document_template_version_edits
+  BEFORE UPDATE ON document_template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_template_version_edits();
+
+CREATE OR REPLACE FUNCTION publish_template_version(version_id uuid)
+RETURNS void AS $$
+DECLARE
+  published document_template_versions;
+BEGIN
+  UPDATE document_template_versions
+  SET status = 'published', published_at = COALESCE(published_at, now())
+  WHERE id = version_id
+  RETURNING * INTO published;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template version % not found', version_id;
+  END IF;
+
+  UPDATE document_templates
+  SET template_html = published.template_html,
+      fields = published.fields,
+      steps = published.steps,
+      published_version_id = published.id
+  WHERE id = published.template_id;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO document_template_versions (template_id, version, template_html, fields, steps, note, status, created_by, published_at)
+SELECT id, 1, template_html, fields, steps, 'Initial version', 'published', NULL, now()
+FROM document_templates
+WHERE published_version_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM document_template_versions WHERE template_id = document_templates.id
+  );
+
+UPDATE document_templates
+SET published_version_id = (
+  SELECT id FROM document_template_versions
+  WHERE template_id = document_templates.id AND version = 1
+)
+WHERE published_version_id IS NULL;
+
+UPDATE user_documents
+SET template_version_id = document_templates.published_version_id
+FROM document_templates
+WHERE user_documents.template_id = document_templates.id
+  AND user_documents.template_version_id IS NULL;
+
+ALTER TABLE document_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read published template versions"
+  ON document_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (status = 'published');
+
+CREATE POLICY "Admins can read template versions"
+  ON document_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
+
+CREATE POLICY "Admins can create template versions"
+  ON document_template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
+
+CREATE POLICY "Admins can publish template versions"
+  ON document_template_versions
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
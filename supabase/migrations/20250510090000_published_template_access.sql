@@ -0,0 +1,24 @@
+/*
+  # Only published templates are public
+
+  1. Changes
+    - None
+
+  2. Security
+    - Everyone can read templates that have a published version; templates
+      that have never been published are only visible to admins
+*/
+
+DROP POLICY IF EXISTS "Anyone can read document templates" ON document_templates;
+
+CREATE POLICY "Anyone can read published document templates"
+  ON document_templates
+  FOR SELECT
+  TO anon, authenticated
+  USING (published_version_id IS NOT NULL);
+
+CREATE POLICY "Admins can read document templates"
+  ON document_templates
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin));
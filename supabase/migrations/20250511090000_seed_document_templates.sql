@@ -0,0 +1,276 @@
+/*
+  # Starter document templates
+
+  1. Data
+    - Categories: Property, Business, Legal, Tax & Compliance, Corporate
+    - Templates, each published as version 1:
+      - Rental Agreement (11-month residential lease)
+      - Partnership Deed
+      - Non-Disclosure Agreement (one-way or mutual)
+      - GST Authorised Signatory Letter
+      - Board Resolution
+    - Categories and templates that already exist by name are left as they are
+
+  2. Security
+    - No policy changes
+*/
+
+INSERT INTO document_categories (name, description, icon)
+VALUES
+  ('Property', 'Leases, rent agreements and property documents', 'home'),
+  ('Business', 'Documents for setting up and running a firm', 'briefcase'),
+  ('Legal', 'Agreements and undertakings between parties', 'scale'),
+  ('Tax & Compliance', 'Letters and declarations for GST and income tax', 'receipt-percent'),
+  ('Corporate', 'Board and shareholder documents for companies', 'building-office')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO document_templates (name, description, category_id, template_html, fields, steps, keywords)
+SELECT seed.name, seed.description, document_categories.id, seed.template_html, seed.fields::jsonb, seed.steps::jsonb, seed.keywords
+FROM (
+  VALUES
+  (
+    'Rental Agreement',
+    'Residential rent agreement for an 11-month lease, with security deposit, rent due date and notice period.',
+    'Property',
+    ARRAY['rent agreement', 'rental agreement', 'lease agreement', 'house rent', 'tenancy agreement'],
+    $html$<h1 style="text-align: center">RENTAL AGREEMENT</h1>
+<p>This Rental Agreement is made and executed at {{ execution_place }} on {{ agreement_date | date:"legal" }} between:</p>
+<p><strong>{{ landlord_name | upper }}</strong>, residing at {{ landlord_address }} (hereinafter called the "Landlord", which expression shall include their heirs, legal representatives and assigns) of the ONE PART;</p>
+<p>AND</p>
+<p><strong>{{ tenant_name | upper }}</strong>, residing at {{ tenant_address }} (hereinafter called the "Tenant", which expression shall include their heirs, legal representatives and assigns) of the OTHER PART.</p>
+<p>WHEREAS the Landlord is the absolute owner of the residential premises situated at {{ property_address }} (hereinafter called the "Premises"), and the Tenant has requested the Landlord to let out the Premises for residential use, which the Landlord has agreed to on the following terms:</p>
+<h2>NOW THIS AGREEMENT WITNESSES AS FOLLOWS</h2>
+<ol>
+<li>The tenancy shall be for a period of {{ duration_months }} months commencing from {{ start_date | date:"long" }}, and may be renewed by mutual consent in writing.</li>
+<li>The Tenant shall pay a monthly rent of {{ monthly_rent | inr }} ({{ monthly_rent | words }}) on or before the {{ rent_due_day | ordinal }} day of every English calendar month.</li>
+<li>The Tenant has paid an interest-free security deposit of {{ security_deposit | inr }} ({{ security_deposit | words }}), which shall be refunded at the end of the tenancy after deducting any dues or the cost of repairing damage beyond normal wear and tear.</li>
+<li>Electricity, water and maintenance charges for the period of the tenancy shall be paid by the Tenant as per the actual bills.</li>
+<li>The Tenant shall use the Premises for residential purposes only and shall not sublet or part with possession of the Premises without the written consent of the Landlord.</li>
+<li>The Tenant shall not make any structural alterations to the Premises without the written consent of the Landlord.</li>
+<li>Either party may terminate this agreement by giving {{ notice_months }} month(s) notice in writing to the other party.</li>
+<li>On termination, the Tenant shall hand over vacant and peaceful possession of the Premises to the Landlord in the same condition in which it was let, subject to normal wear and tear.</li>
+</ol>
+<p>IN WITNESS WHEREOF the parties have signed this agreement on the day, month and year first above written.</p>
+<table>
+<tr><td><strong>LANDLORD</strong><br>{{ landlord_name }}</td><td><strong>TENANT</strong><br>{{ tenant_name }}</td></tr>
+</table>
+<p>WITNESSES:</p>
+<p>1. ______________________</p>
+<p>2. ______________________</p>$html$,
+    $json$[
+      {"id": "landlord_name", "label": "Landlord name", "type": "text", "required": true},
+      {"id": "landlord_address", "label": "Landlord address", "type": "address", "required": true},
+      {"id": "tenant_name", "label": "Tenant name", "type": "text", "required": true},
+      {"id": "tenant_address", "label": "Tenant permanent address", "type": "address", "required": true},
+      {"id": "property_address", "label": "Address of the rented property", "type": "address", "required": true},
+      {"id": "start_date", "label": "Tenancy start date", "type": "date", "required": true},
+      {"id": "duration_months", "label": "Duration (months)", "type": "number", "required": true, "placeholder": "11"},
+      {"id": "monthly_rent", "label": "Monthly rent", "type": "currency", "required": true},
+      {"id": "security_deposit", "label": "Security deposit", "type": "currency", "required": true},
+      {"id": "rent_due_day", "label": "Rent due by (day of month)", "type": "number", "required": true, "placeholder": "5"},
+      {"id": "notice_months", "label": "Notice period (months)", "type": "number", "required": true, "placeholder": "1"},
+      {"id": "execution_place", "label": "Place of signing", "type": "text", "required": true},
+      {"id": "agreement_date", "label": "Date of agreement", "type": "date", "required": true}
+    ]$json$,
+    $json$[
+      {"id": "parties", "title": "Landlord and tenant", "fields": ["landlord_name", "landlord_address", "tenant_name", "tenant_address"]},
+      {"id": "property", "title": "Property and term", "fields": ["property_address", "start_date", "duration_months", "notice_months"]},
+      {"id": "payments", "title": "Rent and deposit", "fields": ["monthly_rent", "rent_due_day", "security_deposit"]},
+      {"id": "signing", "title": "Signing", "fields": ["execution_place", "agreement_date"]}
+    ]$json$
+  ),
+  (
+    'Partnership Deed',
+    'Deed of partnership under the Indian Partnership Act, 1932, with capital contributions and profit-sharing ratios.',
+    'Business',
+    ARRAY['partnership deed', 'partnership agreement', 'partnership firm', 'start a partnership'],
+    $html$<h1 style="text-align: center">DEED OF PARTNERSHIP</h1>
+<p>This Deed of Partnership is made and executed at {{ execution_place }} on {{ deed_date | date:"legal" }} by and between:</p>
+<ol>
+{{#each partners}}<li><strong>{{ name | upper }}</strong>, son/daughter/wife of {{ guardian_name }}, aged {{ age }} years, residing at {{ address }} (hereinafter called the "{{ @number | ordinal }} Partner")</li>
+{{/each}}</ol>
+<p>The expression "Partners" shall, unless repugnant to the context, include their respective heirs, legal representatives, executors and assigns.</p>
+<p>WHEREAS the Partners have agreed to carry on business in partnership on the terms and conditions set out below, they now wish to record those terms in writing.</p>
+<h2>NOW THIS DEED WITNESSES AS FOLLOWS</h2>
+<p>1. <strong>Name:</strong> The business of the partnership shall be carried on under the name and style of <strong>{{ firm_name | upper }}</strong>.</p>
+<p>2. <strong>Business:</strong> The business of the firm shall be {{ business_nature }}, or any other business that the Partners may agree upon from time to time.</p>
+<p>3. <strong>Place of business:</strong> The principal place of business shall be at {{ firm_address }}, or at such other place as the Partners may decide.</p>
+<p>4. <strong>Commencement:</strong> The partnership shall be deemed to have commenced on {{ commencement_date | date:"long" }} and shall be a partnership at will.</p>
+<p>5. <strong>Capital:</strong> The initial capital of the firm shall be contributed by the Partners as follows:</p>
+<table>
+<tr><th>Partner</th><th>Capital contribution</th><th>Share of profit and loss</th></tr>
+{{#each partners}}<tr><td>{{ name }}</td><td>{{ capital | inr }}</td><td>{{ profit_share }}%</td></tr>
+{{/each}}</table>
+<p>6. <strong>Profit and loss:</strong> The net profits or losses of the firm, after providing for interest and remuneration to Partners as permitted under Section 40(b) of the Income-tax Act, 1961, shall be shared in the ratio set out above.</p>
+<p>7. <strong>Bank accounts:</strong> The bank accounts of the firm shall be operated by {{ bank_operation }}.</p>
+<p>8. <strong>Books of account:</strong> Proper books of account shall be maintained at the principal place of business and closed on 31st March every year.</p>
+<p>9. <strong>Retirement:</strong> Any Partner may retire from the partnership by giving three months notice in writing to the other Partners.</p>
+<p>10. <strong>Arbitration:</strong> All disputes between the Partners shall be referred to arbitration under the Arbitration and Conciliation Act, 1996.</p>
+<p>IN WITNESS WHEREOF the Partners have signed this deed on the day, month and year first above written.</p>
+<table>
+{{#each partners}}<tr><td>{{ @number | ordinal }} Partner</td><td>{{ name }}</td><td>______________________</td></tr>
+{{/each}}</table>
+<p>WITNESSES:</p>
+<p>1. ______________________</p>
+<p>2. ______________________</p>$html$,
+    $json$[
+      {"id": "firm_name", "label": "Name of the firm", "type": "text", "required": true},
+      {"id": "business_nature", "label": "Nature of business", "type": "textarea", "required": true, "placeholder": "trading in textiles"},
+      {"id": "firm_address", "label": "Principal place of business", "type": "address", "required": true},
+      {"id": "commencement_date", "label": "Date of commencement", "type": "date", "required": true},
+      {"id": "partners", "label": "Partners", "type": "group", "required": true, "minItems": 2, "maxItems": 20, "itemLabel": "Partner", "fields": [
+        {"id": "name", "label": "Full name", "type": "text", "required": true},
+        {"id": "guardian_name", "label": "Father's or husband's name", "type": "text", "required": true},
+        {"id": "age", "label": "Age", "type": "number", "required": true},
+        {"id": "address", "label": "Residential address", "type": "textarea", "required": true},
+        {"id": "capital", "label": "Capital contribution", "type": "currency", "required": true},
+        {"id": "profit_share", "label": "Profit share", "type": "percentage", "required": true}
+      ]},
+      {"id": "bank_operation", "label": "Bank accounts operated by", "type": "select", "required": true, "options": ["any one of the Partners", "any two of the Partners jointly", "all the Partners jointly"]},
+      {"id": "execution_place", "label": "Place of signing", "type": "text", "required": true},
+      {"id": "deed_date", "label": "Date of the deed", "type": "date", "required": true}
+    ]$json$,
+    $json$[
+      {"id": "firm", "title": "The firm", "fields": ["firm_name", "business_nature", "firm_address", "commencement_date"]},
+      {"id": "partners", "title": "Partners", "description": "Profit shares should add up to 100%.", "fields": ["partners"]},
+      {"id": "terms", "title": "Terms and signing", "fields": ["bank_operation", "execution_place", "deed_date"]}
+    ]$json$
+  ),
+  (
+    'Non-Disclosure Agreement',
+    'Confidentiality agreement protecting information shared for a business purpose, one-way or mutual.',
+    'Legal',
+    ARRAY['nda', 'non-disclosure agreement', 'confidentiality agreement', 'non disclosure'],
+    $html$<h1 style="text-align: center">{{#if nda_type == "Mutual"}}MUTUAL {{/if}}NON-DISCLOSURE AGREEMENT</h1>
+<p>This Non-Disclosure Agreement (the "Agreement") is entered into on {{ effective_date | date:"long" }} (the "Effective Date") between:</p>
+<p><strong>{{ first_party_name }}</strong>, having its address at {{ first_party_address }} (the "{{#if nda_type == "Mutual"}}First Party{{else}}Disclosing Party{{/if}}");</p>
+<p>AND</p>
+<p><strong>{{ second_party_name }}</strong>, having its address at {{ second_party_address }} (the "{{#if nda_type == "Mutual"}}Second Party{{else}}Receiving Party{{/if}}").</p>
+<h2>1. Purpose</h2>
+<p>{{#if nda_type == "Mutual"}}The parties wish to share Confidential Information with each other{{else}}The Disclosing Party wishes to share Confidential Information with the Receiving Party{{/if}} for the purpose of {{ purpose }} (the "Purpose").</p>
+<h2>2. Confidential Information</h2>
+<p>"Confidential Information" means all business, financial, technical and other information disclosed {{#if nda_type == "Mutual"}}by either party to the other{{else}}by the Disclosing Party{{/if}}, whether in writing, orally or in any other form, that is marked confidential or would reasonably be understood to be confidential. It does not include information that is or becomes public through no fault of the recipient, was lawfully known to the recipient before disclosure, or is independently developed by the recipient.</p>
+<h2>3. Obligations</h2>
+<p>{{#if nda_type == "Mutual"}}Each party, when receiving Confidential Information,{{else}}The Receiving Party{{/if}} shall keep the Confidential Information strictly confidential, use it only for the Purpose, and disclose it only to employees and advisers who need to know it for the Purpose and are bound by obligations of confidentiality no less strict than these.</p>
+<h2>4. Compelled disclosure</h2>
+<p>If the recipient is required by law, regulation or order of a court to disclose any Confidential Information, it shall promptly notify the disclosing party, where permitted, and disclose only what is required.</p>
+<h2>5. Term</h2>
+<p>This Agreement shall remain in force for {{ term_years }} year(s) from the Effective Date. The obligations of confidentiality shall survive for {{ survival_years }} year(s) after this Agreement ends.</p>
+<h2>6. Return of information</h2>
+<p>On request, or when this Agreement ends, the recipient shall return or destroy all Confidential Information and any copies of it.</p>
+<h2>7. Governing law</h2>
+<p>This Agreement shall be governed by the laws of India, and the courts at {{ jurisdiction_city }} shall have exclusive jurisdiction.</p>
+<p>IN WITNESS WHEREOF the parties have signed this Agreement on the Effective Date.</p>
+<table>
+<tr><td><strong>For {{ first_party_name }}</strong><br><br>______________________<br>{{ first_signatory }}</td><td><strong>For {{ second_party_name }}</strong><br><br>______________________<br>{{ second_signatory }}</td></tr>
+</table>$html$,
+    $json$[
+      {"id": "nda_type", "label": "Type of agreement", "type": "radio", "required": true, "options": ["One-way", "Mutual"], "description": "One-way when only the first party shares information"},
+      {"id": "first_party_name", "label": "First party (discloses information)", "type": "text", "required": true},
+      {"id": "first_party_address", "label": "First party address", "type": "address", "required": true},
+      {"id": "first_signatory", "label": "Signing for the first party", "type": "text", "required": true},
+      {"id": "second_party_name", "label": "Second party (receives information)", "type": "text", "required": true},
+      {"id": "second_party_address", "label": "Second party address", "type": "address", "required": true},
+      {"id": "second_signatory", "label": "Signing for the second party", "type": "text", "required": true},
+      {"id": "purpose", "label": "Purpose of sharing information", "type": "textarea", "required": true, "placeholder": "evaluating a possible business relationship"},
+      {"id": "effective_date", "label": "Effective date", "type": "date", "required": true},
+      {"id": "term_years", "label": "Term (years)", "type": "number", "required": true, "placeholder": "2"},
+      {"id": "survival_years", "label": "Confidentiality continues for (years after the term)", "type": "number", "required": true, "placeholder": "3"},
+      {"id": "jurisdiction_city", "label": "City of jurisdiction", "type": "text", "required": true}
+    ]$json$,
+    NULL
+  ),
+  (
+    'GST Authorised Signatory Letter',
+    'Letter authorising a person to sign and file GST returns and documents on behalf of a business.',
+    'Tax & Compliance',
+    ARRAY['gst authorisation letter', 'gst authorization letter', 'authorised signatory', 'authorized signatory', 'gst letter of authority'],
+    $html$<h1 style="text-align: center">AUTHORISATION LETTER</h1>
+<p style="text-align: center">(For authorised signatory under the Goods and Services Tax Act)</p>
+<p>Date: {{ letter_date | date:"short" }}</p>
+<p>To,<br>The Proper Officer,<br>Goods and Services Tax Department,<br>{{ jurisdiction }}</p>
+<p><strong>Subject: Authorisation of {{ authorised_name }} as authorised signatory for {{ business_name }}{{#if gstin}} (GSTIN: {{ gstin }}){{/if}}</strong></p>
+<p>Respected Sir/Madam,</p>
+<p>I/We, {{ signatory_name }}, {{ signatory_designation }} of {{ business_name }}, having its principal place of business at {{ business_address }}, hereby solemnly affirm and declare that <strong>{{ authorised_name }}</strong>{{#if authorised_designation}}, {{ authorised_designation }},{{/if}} holding PAN {{ authorised_pan }}, is hereby authorised to act as the authorised signatory for the above business for all purposes under the Central Goods and Services Tax Act, 2017, the {{ state }} Goods and Services Tax Act, 2017 and the Integrated Goods and Services Tax Act, 2017.</p>
+<p>All actions taken by the authorised signatory in this capacity, including applying for registration, signing and filing returns, replying to notices and appearing before the authorities, shall be binding on us.</p>
+<p>The specimen signature of the authorised signatory is given below.</p>
+<table>
+<tr><td><strong>Signature of the authorised signatory</strong><br><br>______________________<br>{{ authorised_name }}</td><td><strong>For {{ business_name }}</strong><br><br>______________________<br>{{ signatory_name }}<br>{{ signatory_designation }}</td></tr>
+</table>
+<p><strong>ACCEPTANCE</strong></p>
+<p>I hereby accept the above appointment as authorised signatory.</p>
+<p>______________________<br>{{ authorised_name }}</p>
+<p>Place: {{ place }}</p>$html$,
+    $json$[
+      {"id": "business_name", "label": "Legal name of the business", "type": "text", "required": true},
+      {"id": "gstin", "label": "GSTIN", "type": "gstin", "required": false, "description": "Leave blank when applying for a new registration"},
+      {"id": "business_address", "label": "Principal place of business", "type": "address", "required": true},
+      {"id": "state", "label": "State", "type": "text", "required": true, "placeholder": "Kerala"},
+      {"id": "jurisdiction", "label": "GST jurisdiction or ward", "type": "text", "required": true},
+      {"id": "signatory_name", "label": "Name of the proprietor, partner or director", "type": "text", "required": true},
+      {"id": "signatory_designation", "label": "Their designation", "type": "select", "required": true, "options": ["Proprietor", "Partner", "Director", "Karta", "Managing Trustee"]},
+      {"id": "authorised_name", "label": "Name of the authorised signatory", "type": "text", "required": true},
+      {"id": "authorised_designation", "label": "Designation of the authorised signatory", "type": "text", "required": false},
+      {"id": "authorised_pan", "label": "PAN of the authorised signatory", "type": "pan", "required": true},
+      {"id": "place", "label": "Place", "type": "text", "required": true},
+      {"id": "letter_date", "label": "Date", "type": "date", "required": true}
+    ]$json$,
+    NULL
+  ),
+  (
+    'Board Resolution',
+    'Certified true copy of a resolution passed at a meeting of the Board of Directors.',
+    'Corporate',
+    ARRAY['board resolution', 'board meeting resolution', 'certified true copy', 'directors resolution'],
+    $html$<h1 style="text-align: center">{{ company_name | upper }}</h1>
+<p style="text-align: center">CIN: {{ cin }}<br>Registered office: {{ registered_office }}</p>
+<h2 style="text-align: center">CERTIFIED TRUE COPY OF THE RESOLUTION PASSED AT THE MEETING OF THE BOARD OF DIRECTORS HELD ON {{ meeting_date | date:"long" | upper }} AT {{ meeting_place | upper }}</h2>
+<p><strong>{{ resolution_subject | upper }}</strong></p>
+<p>"RESOLVED THAT {{ resolution_text }}</p>
+<p>RESOLVED FURTHER THAT {{#each authorised_directors}}{{#if @index != 0}}, {{/if}}{{ name }} (DIN: {{ din }}){{/each}}, Director(s) of the Company, be and {{#if authorised_directors | count == 1}}is{{else}}are{{/if}} hereby severally authorised to sign and file all such forms, documents and papers, and to do all such acts, deeds and things as may be necessary to give effect to this resolution."</p>
+<p>Certified to be a true copy.</p>
+<p>For <strong>{{ company_name }}</strong></p>
+<p><br>______________________<br>{{ certifying_director }}<br>Director<br>DIN: {{ certifying_din }}</p>
+<p>Place: {{ meeting_place }}<br>Date: {{ certificate_date | date:"short" }}</p>$html$,
+    $json$[
+      {"id": "company_name", "label": "Company name", "type": "text", "required": true},
+      {"id": "cin", "label": "CIN", "type": "text", "required": true, "placeholder": "U74999KL2020PTC012345"},
+      {"id": "registered_office", "label": "Registered office", "type": "address", "required": true},
+      {"id": "meeting_date", "label": "Date of the board meeting", "type": "date", "required": true},
+      {"id": "meeting_place", "label": "Place of the meeting", "type": "text", "required": true},
+      {"id": "resolution_subject", "label": "Subject of the resolution", "type": "text", "required": true, "placeholder": "Opening of a current account"},
+      {"id": "resolution_text", "label": "Resolution (continues from \"RESOLVED THAT\")", "type": "textarea", "required": true, "placeholder": "the consent of the Board be and is hereby accorded to ..."},
+      {"id": "authorised_directors", "label": "Directors authorised to act", "type": "group", "required": true, "minItems": 1, "maxItems": 10, "itemLabel": "Director", "fields": [
+        {"id": "name", "label": "Name", "type": "text", "required": true},
+        {"id": "din", "label": "DIN", "type": "text", "required": true}
+      ]},
+      {"id": "certifying_director", "label": "Director certifying the copy", "type": "text", "required": true},
+      {"id": "certifying_din", "label": "Their DIN", "type": "text", "required": true},
+      {"id": "certificate_date", "label": "Date of the certified copy", "type": "date", "required": true}
+    ]$json$,
+    NULL
+  )
+) AS seed (name, description, category, keywords, template_html, fields, steps)
+JOIN document_categories ON document_categories.name = seed.category
+WHERE NOT EXISTS (
+  SELECT 1 FROM document_templates WHERE document_templates.name = seed.name
+);
+
+-- Seeded templates go live as version 1, as existing templates did when
+-- versions were introduced
+INSERT INTO document_template_versions (template_id, template_html, fields, steps, note, status, created_by, published_at)
+SELECT id, template_html, fields, steps, 'Initial version', 'published', NULL, now()
+FROM document_templates
+WHERE published_version_id IS NULL
+  AND name IN ('Rental Agreement', 'Partnership Deed', 'Non-Disclosure Agreement', 'GST Authorised Signatory Letter', 'Board Resolution')
+  AND NOT EXISTS (
+    SELECT 1 FROM document_template_versions WHERE template_id = document_templates.id
+  );
+
+UPDATE document_templates
+SET published_version_id = (
+  SELECT id FROM document_template_versions
+  WHERE template_id = document_templates.id AND version = 1
+)
+WHERE published_version_id IS NULL
+  AND name IN ('Rental Agreement', 'Partnership Deed', 'Non-Disclosure Agreement', 'GST Authorised Signatory Letter', 'Board Resolution');
@@ -0,0 +1,258 @@
+/*
+  # User roles
+
+  1. New Tables
+    - `user_roles`
+      - `user_id` (uuid, primary key, foreign key to auth.users)
+      - `role` (app_role: client / staff / admin / super_admin)
+      - `granted_by` (uuid, foreign key to auth.users)
+      - `updated_at` (timestamp)
+      Users without a row are clients.
+
+  2. Changes
+    - Roles are ranked client < staff < admin < super_admin, and each role
+      includes the ones below it:
+      - staff can open the template admin, create templates and save
+        draft versions
+      - admins can also publish and delete templates, manage categories and
+        grant or revoke the staff role
+      - super admins can also grant or revoke the admin and super admin roles
+    - Profiles marked `is_admin` become super admins, and `profiles.is_admin`
+      is removed along with the trigger that guarded it
+
+  3. Functions
+    - `has_role(required_role)` tells whether the signed-in user holds the
+      role or a higher one; used by policies and the app
+    - `list_users_with_roles()` returns every user with their email, name
+      and role, for admins
+
+  4. Security
+    - Enable RLS on `user_roles`
+    - Users can read their own role; admins can read all roles
+    - Admins can grant and revoke roles below their own; nobody can change
+      their own role
+    - While there is no admin at all, a signed-in user can make themselves
+      super admin, so the first admin can be set up
+    - Template, version and category policies check roles instead of
+      `profiles.is_admin`; published template content only changes through
+      admins publishing a version
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'app_role') THEN
+    CREATE TYPE app_role AS ENUM ('client', 'staff', 'admin', 'super_admin');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role app_role NOT NULL DEFAULT 'client',
+  granted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_user_roles_updated_at
+  BEFORE UPDATE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION has_role(required_role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    required_role = 'client'
+    OR EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = auth.uid() AND user_roles.role >= required_role
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION admins_exist()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM user_roles WHERE role >= 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION list_users_with_roles()
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  role app_role,
+  created_at timestamptz,
+  last_sign_in_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text, p.full_name, COALESCE(r.role, 'client'::app_role), u.created_at, u.last_sign_in_at
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  LEFT JOIN user_roles r ON r.user_id = u.id
+  ORDER BY u.created_at DESC;
+END;
+$$;
+
+INSERT INTO user_roles (user_id, role, granted_by)
+SELECT id, 'super_admin', NULL
+FROM profiles
+WHERE is_admin
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own role"
+  ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read roles"
+  ON user_roles
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Admins can grant roles"
+  ON user_roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() <> user_id
+    AND (has_role('super_admin') OR (has_role('admin') AND role < 'admin'))
+  );
+
+CREATE POLICY "Admins can change roles"
+  ON user_roles
+  FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() <> user_id
+    AND (has_role('super_admin') OR (has_role('admin') AND role < 'admin'))
+  )
+  WITH CHECK (
+    auth.uid() <> user_id
+    AND (has_role('super_admin') OR (has_role('admin') AND role < 'admin'))
+  );
+
+CREATE POLICY "Admins can revoke roles"
+  ON user_roles
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() <> user_id
+    AND (has_role('super_admin') OR (has_role('admin') AND role < 'admin'))
+  );
+
+CREATE POLICY "First admin can claim super admin"
+  ON user_roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND role = 'super_admin' AND NOT admins_exist());
+
+-- Staff edit template details and drafts; the live content on the template
+-- row only changes when an admin publishes a version
+CREATE OR REPLACE FUNCTION protect_published_template_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role('admin') AND (
+    NEW.template_html IS DISTINCT FROM OLD.template_html
+    OR NEW.fields IS DISTINCT FROM OLD.fields
+    OR NEW.steps IS DISTINCT FROM OLD.steps
+    OR NEW.published_version_id IS DISTINCT FROM OLD.published_version_id
+  ) THEN
+    RAISE EXCEPTION 'Only admins can publish templates';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_document_template_content
+  BEFORE UPDATE ON document_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_published_template_content();
+
+DROP POLICY IF EXISTS "Admins can manage document categories" ON document_categories;
+DROP POLICY IF EXISTS "Admins can read document templates" ON document_templates;
+DROP POLICY IF EXISTS "Admins can create document templates" ON document_templates;
+DROP POLICY IF EXISTS "Admins can update document templates" ON document_templates;
+DROP POLICY IF EXISTS "Admins can delete document templates" ON document_templates;
+DROP POLICY IF EXISTS "Admins can read template versions" ON document_template_versions;
+DROP POLICY IF EXISTS "Admins can create template versions" ON document_template_versions;
+DROP POLICY IF EXISTS "Admins can publish template versions" ON document_template_versions;
+
+CREATE POLICY "Admins can manage document categories"
+  ON document_categories
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Staff can read document templates"
+  ON document_templates
+  FOR SELECT
+  TO authenticated
+  USING (has_role('staff'));
+
+-- New templates start unpublished unless an admin creates them
+CREATE POLICY "Staff can create document templates"
+  ON document_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('staff') AND (published_version_id IS NULL OR has_role('admin')));
+
+CREATE POLICY "Staff can update document templates"
+  ON document_templates
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('staff'))
+  WITH CHECK (has_role('staff'));
+
+CREATE POLICY "Admins can delete document templates"
+  ON document_templates
+  FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Staff can read template versions"
+  ON document_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (has_role('staff'));
+
+CREATE POLICY "Staff can create template versions"
+  ON document_template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('staff') AND (status = 'draft' OR has_role('admin')));
+
+CREATE POLICY "Admins can publish template versions"
+  ON document_template_versions
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+DROP TRIGGER IF EXISTS protect_profiles_admin_flag ON profiles;
+DROP FUNCTION IF EXISTS protect_profile_admin_flag();
+
+ALTER TABLE profiles
+  DROP COLUMN IF EXISTS is_admin;
@@ -0,0 +1,92 @@
+/*
+  # Admin bootstrap and invitations
+
+  1. New Tables
+    - `admin_invitations`
+      - `id` (uuid, primary key)
+      - `email` (text, who the invitation was sent to)
+      - `role` (app_role, staff or higher)
+      - `token_hash` (text, SHA-256 of the token in the emailed link)
+      - `invited_by` (uuid, foreign key to auth.users)
+      - `expires_at` (timestamp, seven days after sending)
+      - `accepted_at` (timestamp)
+      - `accepted_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `claim_first_admin(p_user_id)` makes the user super admin while there
+      are no admins yet. Only the admin-invite function (service role) can
+      call it, after checking the setup token
+
+  3. Security
+    - Users can no longer make themselves super admin from the browser; the
+      "First admin can claim super admin" policy is removed
+    - Enable RLS on `admin_invitations`; admins can see and revoke the
+      invitations for roles they can grant. Invitations are only created and
+      accepted through the admin-invite function, and token hashes are never
+      readable from the browser
+*/
+
+DROP POLICY IF EXISTS "First admin can claim super admin" ON user_roles;
+
+CREATE OR REPLACE FUNCTION claim_first_admin(p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Two setup requests at once must not both find no admins
+  LOCK TABLE user_roles IN SHARE ROW EXCLUSIVE MODE;
+
+  IF admins_exist() THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role, granted_by)
+  VALUES (p_user_id, 'super_admin', NULL)
+  ON CONFLICT (user_id) DO UPDATE SET role = 'super_admin', granted_by = NULL;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_first_admin(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS admin_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  role app_role NOT NULL CHECK (role >= 'staff'),
+  token_hash text NOT NULL UNIQUE,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Sending a new invitation replaces the pending one for that address
+CREATE UNIQUE INDEX IF NOT EXISTS admin_invitations_pending_email_idx
+  ON admin_invitations (lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE admin_invitations ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON admin_invitations FROM anon, authenticated;
+GRANT SELECT (id, email, role, invited_by, expires_at, accepted_at, accepted_by, created_at), DELETE
+  ON admin_invitations TO authenticated;
+
+CREATE POLICY "Admins can read invitations"
+  ON admin_invitations
+  FOR SELECT
+  TO authenticated
+  USING (has_role('super_admin') OR (has_role('admin') AND role < 'admin'));
+
+CREATE POLICY "Admins can revoke invitations"
+  ON admin_invitations
+  FOR DELETE
+  TO authenticated
+  USING (
+    accepted_at IS NULL
+    AND (has_role('super_admin') OR (has_role('admin') AND role < 'admin'))
+  );